@@ -0,0 +1,72 @@
+/**
+ * Entry point for the point rendering benchmark at `/bench`. It renders a
+ * large generated point cloud in the GeometryViewer and shows the frame rate.
+ *
+ * It is included in `src/bench.html`.
+ */
+
+import "./index.css";
+import { createRoot } from "react-dom/client";
+import { StrictMode, useMemo, useState } from "react";
+import { GeometryViewer } from "./components/GeometryViewer";
+import { Button } from "@/components/ui/button";
+import type { GeometryShape, Point2D } from "@/lib/geometry";
+
+const pointCounts = [10_000, 100_000, 1_000_000];
+
+// Deterministic pseudo-random generator so every run draws the same cloud
+function mulberry32(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// A few Gaussian clusters, roughly like a LiDAR-derived cloud
+function generateCloud(count: number): GeometryShape {
+  const random = mulberry32(42);
+  const centers = Array.from({ length: 8 }, () => ({ x: random() * 200 - 100, y: random() * 200 - 100 }));
+  const points: Point2D[] = new Array(count);
+  for (let i = 0; i < count; i++) {
+    const center = centers[i % centers.length];
+    // Box-Muller transform
+    const radius = Math.sqrt(-2 * Math.log(random() || 1e-12)) * 12;
+    const angle = random() * Math.PI * 2;
+    points[i] = { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+  }
+  return { id: `bench-${count}`, name: `Benchmark cloud (${count.toLocaleString()} points)`, type: "points", points, style: { pointRadius: 1.5 } };
+}
+
+function Benchmark() {
+  const [count, setCount] = useState(pointCounts[pointCounts.length - 1]);
+  const shapes = useMemo(() => [generateCloud(count)], [count]);
+
+  return (
+    <div className="h-screen w-screen flex flex-col bg-background">
+      <div className="flex flex-wrap gap-2 items-center p-4 border-b border-border">
+        <span className="text-sm font-medium mr-2">Points:</span>
+        {pointCounts.map(option => (
+          <Button
+            key={option}
+            variant={option === count ? "default" : "outline"}
+            size="sm"
+            onClick={() => setCount(option)}
+          >
+            {option.toLocaleString()}
+          </Button>
+        ))}
+      </div>
+      <div className="flex-1 min-h-0">
+        <GeometryViewer shapes={shapes} showFrameRate />
+      </div>
+    </div>
+  );
+}
+
+createRoot(document.getElementById("root")!).render(
+  <StrictMode>
+    <Benchmark />
+  </StrictMode>
+);
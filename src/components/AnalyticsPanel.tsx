@@ -0,0 +1,229 @@
+import { useMemo, useState, type ReactNode } from "react";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getShapeMetrics, measuredShapeMetrics, type ShapeMetrics } from "@/lib/analytics";
+import type { GeometryShape, Point2D } from "@/lib/geometry";
+import { formatNumber, type MeasureFormat, type MeasureFunction } from "@/lib/measure";
+import { selectionModeFromEvent, type SelectionMode } from "@/lib/selection";
+import { cn } from "@/lib/utils";
+
+function formatPoint(point: Point2D | null, precision: number): string {
+  return point ? `(${formatNumber(point.x, precision)}, ${formatNumber(point.y, precision)})` : "—";
+}
+
+function formatBounds(metrics: ShapeMetrics, precision: number): string {
+  const { bounds } = metrics;
+  if (!bounds) return "—";
+  return `${formatPoint({ x: bounds.minX, y: bounds.minY }, precision)} – ${formatPoint({ x: bounds.maxX, y: bounds.maxY }, precision)}`;
+}
+
+function formatSimple(metrics: ShapeMetrics): string {
+  if (metrics.simple === null) return "—";
+  if (metrics.simple) return "Simple";
+  const count = metrics.selfIntersections.length;
+  return `Self-intersecting (${count} crossing${count === 1 ? "" : "s"})`;
+}
+
+function withUnits(value: string, units: string, squared = false): string {
+  return units ? `${value} ${units}${squared ? "²" : ""}` : value;
+}
+
+interface Column {
+  key: string;
+  label: string;
+  // Sort key; nulls sort last
+  value: (metrics: ShapeMetrics) => number | string | null;
+  render: (metrics: ShapeMetrics, format: MeasureFormat) => ReactNode;
+  numeric?: boolean;
+}
+
+const columns: Column[] = [
+  { key: "name", label: "Name", value: m => m.name, render: m => m.name },
+  { key: "type", label: "Type", value: m => m.type, render: m => m.type },
+  {
+    key: "signedArea",
+    label: "Signed area",
+    value: m => (m.type === "polygon" ? m.signedArea : null),
+    render: (m, f) => (m.type === "polygon" ? formatNumber(m.signedArea, f.precision) : "—"),
+    numeric: true,
+  },
+  {
+    key: "area",
+    label: "Area",
+    value: m => (m.type === "polygon" ? m.area : null),
+    render: (m, f) => (m.type === "polygon" ? formatNumber(m.area, f.precision) : "—"),
+    numeric: true,
+  },
+  {
+    key: "perimeter",
+    label: "Perimeter / length",
+    value: m => (m.type === "points" ? null : m.perimeter),
+    render: (m, f) => (m.type === "points" ? "—" : formatNumber(m.perimeter, f.precision)),
+    numeric: true,
+  },
+  {
+    key: "centroid",
+    label: "Centroid",
+    value: m => m.centroid?.x ?? null,
+    render: (m, f) => formatPoint(m.centroid, f.precision),
+  },
+  {
+    key: "bounds",
+    label: "Bounding box",
+    value: m => (m.bounds ? (m.bounds.maxX - m.bounds.minX) * (m.bounds.maxY - m.bounds.minY) : null),
+    render: (m, f) => formatBounds(m, f.precision),
+  },
+  {
+    key: "vertexCount",
+    label: "Vertices",
+    value: m => m.vertexCount,
+    render: m => m.vertexCount.toLocaleString(),
+    numeric: true,
+  },
+  { key: "winding", label: "Winding", value: m => m.winding, render: m => m.winding ?? "—" },
+  {
+    key: "simple",
+    label: "Simple",
+    value: m => (m.simple === null ? null : m.selfIntersections.length),
+    render: m => (m.simple === null ? "—" : m.simple ? "Yes" : `No (${m.selfIntersections.length})`),
+    numeric: true,
+  },
+];
+
+// Missing values sort last in either direction
+function compareValues(a: number | string | null, b: number | string | null, descending: boolean): number {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  const order = typeof a === "number" && typeof b === "number"
+    ? a - b
+    : String(a).localeCompare(String(b), undefined, { numeric: true });
+  return descending ? -order : order;
+}
+
+function InspectorRow({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <>
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="font-mono text-right">{children}</dd>
+    </>
+  );
+}
+
+function ShapeInspector({ metrics, format }: { metrics: ShapeMetrics; format: MeasureFormat }) {
+  const { units, precision } = format;
+  const isPolygon = metrics.type === "polygon";
+  return (
+    <div className="space-y-2">
+      <div className="flex items-baseline justify-between gap-2">
+        <h3 className="font-medium truncate">{metrics.name}</h3>
+        <span className="text-xs text-muted-foreground">{metrics.type}</span>
+      </div>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+        {isPolygon && <InspectorRow label="Signed area">{withUnits(formatNumber(metrics.signedArea, precision), units, true)}</InspectorRow>}
+        {isPolygon && <InspectorRow label="Area">{withUnits(formatNumber(metrics.area, precision), units, true)}</InspectorRow>}
+        {metrics.type !== "points" && (
+          <InspectorRow label={isPolygon ? "Perimeter" : "Length"}>
+            {withUnits(formatNumber(metrics.perimeter, precision), units)}
+          </InspectorRow>
+        )}
+        <InspectorRow label="Centroid">{formatPoint(metrics.centroid, precision)}</InspectorRow>
+        <InspectorRow label="Bounding box">{formatBounds(metrics, precision)}</InspectorRow>
+        <InspectorRow label="Vertices">{metrics.vertexCount.toLocaleString()}</InspectorRow>
+        {isPolygon && <InspectorRow label="Winding">{metrics.winding ?? "—"}</InspectorRow>}
+        {metrics.type !== "points" && <InspectorRow label="Topology">{formatSimple(metrics)}</InspectorRow>}
+      </dl>
+    </div>
+  );
+}
+
+export interface AnalyticsPanelProps {
+  shapes: GeometryShape[];
+  // The most recently selected shape is shown in the inspector
+  selectedIds: string[];
+  onSelect: (ids: string[], mode: SelectionMode) => void;
+  // Geodesic areas and lengths, in metres, for the shapes `includes` accepts
+  // (projected geographic ones); the rest are planar in `format.units`
+  geodesic?: { measure: MeasureFunction; includes: (shape: GeometryShape) => boolean };
+  format: MeasureFormat;
+  className?: string;
+}
+
+// Inspector for the selected shape above a sortable table of metrics for every shape
+export function AnalyticsPanel({ shapes, selectedIds, onSelect, geodesic, format, className }: AnalyticsPanelProps) {
+  const [sort, setSort] = useState<{ key: string; descending: boolean }>({ key: "name", descending: false });
+
+  const geodesicIds = useMemo(
+    () => new Set(geodesic ? shapes.filter(geodesic.includes).map(shape => shape.id) : []),
+    [shapes, geodesic]
+  );
+  const metrics = useMemo(
+    () => shapes.map(shape => (geodesic && geodesicIds.has(shape.id) ? measuredShapeMetrics(shape, geodesic.measure) : getShapeMetrics(shape))),
+    [shapes, geodesic, geodesicIds]
+  );
+  const formatFor = (metrics: ShapeMetrics): MeasureFormat => (geodesicIds.has(metrics.id) ? { ...format, units: "m" } : format);
+  const sorted = useMemo(() => {
+    const column = columns.find(c => c.key === sort.key) ?? columns[0];
+    return [...metrics].sort((a, b) => compareValues(column.value(a), column.value(b), sort.descending));
+  }, [metrics, sort]);
+
+  const selectedId = selectedIds[selectedIds.length - 1];
+  const selected = metrics.find(m => m.id === selectedId);
+
+  const toggleSort = (key: string) => {
+    setSort(prev => ({ key, descending: prev.key === key ? !prev.descending : false }));
+  };
+
+  return (
+    <div className={cn("flex flex-col min-h-0 bg-background", className)}>
+      <div className="p-3 border-b border-border">
+        {selected ? (
+          <>
+            <ShapeInspector metrics={selected} format={formatFor(selected)} />
+            {selectedIds.length > 1 && (
+              <p className="mt-2 text-xs text-muted-foreground">
+                {selectedIds.length} shapes selected; showing the last one.
+              </p>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">Select a shape in the viewer or the table to inspect it.</p>
+        )}
+      </div>
+      <div className="flex-1 min-h-0 overflow-auto">
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow>
+              {columns.map(column => (
+                <TableHead key={column.key} className={cn("h-8", column.numeric && "text-right")}>
+                  <button
+                    type="button"
+                    className="inline-flex items-center gap-1 hover:text-foreground"
+                    onClick={() => toggleSort(column.key)}
+                  >
+                    {column.label}
+                    {sort.key === column.key && (sort.descending ? <ArrowDown className="size-3" /> : <ArrowUp className="size-3" />)}
+                  </button>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sorted.map(row => (
+              <TableRow
+                key={row.id}
+                data-state={selectedIds.includes(row.id) ? "selected" : undefined}
+                className="cursor-pointer"
+                onClick={event => onSelect([row.id], selectionModeFromEvent(event))}
+              >
+                {columns.map(column => (
+                  <TableCell key={column.key} className={cn("py-1.5", column.numeric && "text-right font-mono")}>
+                    {column.render(row, formatFor(row))}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { cn } from "@/lib/utils";
+import type { ConnectionStatus } from "@/lib/events";
+
+const statusLabels: Record<ConnectionStatus, string> = {
+  connecting: "Connecting…",
+  open: "Live",
+  closed: "Disconnected",
+};
+
+const statusColors: Record<ConnectionStatus, string> = {
+  connecting: "bg-amber-500 animate-pulse",
+  open: "bg-green-500",
+  closed: "bg-red-500",
+};
+
+export function ConnectionIndicator({ status, className }: { status: ConnectionStatus; className?: string }) {
+  return (
+    <div className={cn("flex items-center gap-1.5 text-xs text-muted-foreground", className)} title={`Live updates: ${statusLabels[status]}`}>
+      <span className={cn("inline-block w-2 h-2 rounded-full", statusColors[status])} />
+      <span>{statusLabels[status]}</span>
+    </div>
+  );
+}
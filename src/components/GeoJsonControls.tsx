@@ -0,0 +1,53 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import type { GeometryShape } from "@/lib/geometry";
+import { exportGeoJSON } from "@/lib/geojson";
+import { downloadText } from "@/lib/download";
+
+interface GeoJsonControlsProps {
+  shapes: GeometryShape[];
+  // Receives the parsed file contents; should resolve once the import is done
+  onImport: (geojson: unknown) => Promise<unknown>;
+}
+
+export function GeoJsonControls({ shapes, onImport }: GeoJsonControlsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    try {
+      await onImport(JSON.parse(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleExport = () => {
+    const geojson = exportGeoJSON(shapes);
+    downloadText("shapes.geojson", JSON.stringify(geojson, null, 2), "application/geo+json");
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,.geojson,application/json,application/geo+json"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+          e.target.value = "";
+        }}
+      />
+      <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+        Import GeoJSON
+      </Button>
+      <Button variant="outline" size="sm" onClick={handleExport} disabled={shapes.length === 0}>
+        Export GeoJSON
+      </Button>
+      {error && <span className="text-xs text-destructive max-w-64 truncate" title={error}>{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import type { GeometryShape } from "@/lib/geometry";
+import { detectGeometryFormat, parseGeometryText } from "@/lib/geometryText";
+import { toWKB } from "@/lib/wkb";
+import { toWKT } from "@/lib/wkt";
+
+interface GeometryPasteBoxProps {
+  shapes: GeometryShape[];
+  // Resolves to whether the shapes were added
+  onAdd: (shapes: GeometryShape[]) => Promise<boolean>;
+}
+
+// Text box for pasting WKT or hex WKB from database tools, and for copying
+// the current shapes out in either format
+export function GeometryPasteBox({ shapes, onAdd }: GeometryPasteBoxProps) {
+  const [text, setText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const format = text.trim() ? detectGeometryFormat(text) : null;
+
+  const handleAdd = async () => {
+    try {
+      // A fresh prefix per paste so repeated pastes don't replace each other
+      const result = parseGeometryText(text, `${detectGeometryFormat(text)}-${crypto.randomUUID()}`);
+      if (!(await onAdd(result.shapes))) {
+        setError("The shapes could not be added");
+        setMessage(null);
+        return;
+      }
+      setError(null);
+      setMessage(`Added ${result.shapes.length} shape${result.shapes.length !== 1 ? "s" : ""} from ${result.format.toUpperCase()}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setMessage(null);
+    }
+  };
+
+  const showSerialized = (serialized: string) => {
+    setText(serialized);
+    setError(null);
+    setMessage(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-2 p-4 border-b border-border">
+      <Textarea
+        value={text}
+        onChange={e => setText(e.target.value)}
+        placeholder="Paste WKT, e.g. POLYGON((0 0, 4 0, 2 3, 0 0)), or hex WKB — one geometry per line"
+        className="font-mono text-xs max-h-48"
+        aria-invalid={error !== null}
+        spellCheck={false}
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" onClick={handleAdd} disabled={!format}>
+          Add {format ? format.toUpperCase() : "Geometry"}
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => showSerialized(toWKT(shapes))} disabled={shapes.length === 0}>
+          Current as WKT
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => showSerialized(toWKB(shapes))} disabled={shapes.length === 0}>
+          Current as WKB
+        </Button>
+        {error && <span className="text-xs text-destructive font-mono">{error}</span>}
+        {message && <span className="text-xs text-muted-foreground">{message}</span>}
+      </div>
+    </div>
+  );
+}
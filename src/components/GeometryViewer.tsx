@@ -1,234 +1,130 @@
-import React, { useState, useRef, useCallback } from "react";
+import React, { useState, useRef, useCallback, type ComponentRef } from "react";
 import { Canvas, useFrame, useThree } from "@react-three/fiber";
 import { OrbitControls, Text, Html } from "@react-three/drei";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import * as THREE from "three";
-import { getShapeColor } from "@/lib/utils";
+import { Plus } from "lucide-react";
+import { booleanOperationLabels, booleanResultShapes, booleanShapes, type BooleanOperation, type BooleanResult, type Polygon } from "@/lib/boolean";
+import {
+  coordinateSystemLabels,
+  createProjection,
+  geodesicMeasurementValue,
+  isGeographic,
+  projectionLabels,
+  projectionOrigin,
+  ShapeProjector,
+  withSourceCrs,
+  type CoordinateSystem,
+  type GeographicProjection,
+} from "@/lib/crs";
+import { createDrawnShape } from "@/lib/drawing";
+import { getBounds, type GeometryShape, type Point2D, type ShapeType } from "@/lib/geometry";
+import { moveInDrawOrder, orderShapes, visibleShapes } from "@/lib/layers";
+import type { ConnectionStatus } from "@/lib/events";
+import { formatMeasurement, formatNumber, type MeasureFormat, type MeasureFunction, type MeasureTool, type Measurement } from "@/lib/measure";
+import { applySelection, type SelectionMode } from "@/lib/selection";
+import { defaultSnapSettings, snapKindLabels, type SnapKind, type SnapSettings } from "@/lib/snapping";
+import { offsetResultShapes, offsetShape, type OffsetOptions } from "@/lib/offset";
+import { overlayLabels, overlayShapes, type OverlayKind } from "@/lib/pointSets";
+import { simplifiedCopy, simplifyShape, sliderTolerance, vertexCount } from "@/lib/simplify";
+import { shapesAtTime, timelineTimes } from "@/lib/timeline";
+import { transformShapes, type Matrix3 } from "@/lib/transform";
+import { cn, isTextInput } from "@/lib/utils";
+import { validateShapes, type GeometryIssue } from "@/lib/validation";
+import { useHistory } from "@/hooks/useHistory";
+import { useKeyDown } from "@/hooks/useKeyDown";
+import { usePlayback } from "@/hooks/usePlayback";
+import { AnalyticsPanel } from "./AnalyticsPanel";
+import { ConnectionIndicator } from "./ConnectionIndicator";
+import { IssuesPanel } from "./IssuesPanel";
+import { LayersPanel } from "./LayersPanel";
+import { TimelineBar } from "./TimelineBar";
+import { OffsetControls } from "./OffsetControls";
+import { defaultSimplifySettings, SimplifyControls, type SimplifySettings } from "./SimplifyControls";
+import { TransformDialog } from "./TransformDialog";
+import { FrameRateProbe } from "./viewer/FrameRateProbe";
+import { GeometryLine } from "./viewer/GeometryLine";
+import { AxisLines, Grid, GridLabels } from "./viewer/Grid";
+import { DrawLayer } from "./viewer/DrawLayer";
+import { EditLayer } from "./viewer/EditLayer";
+import { IssueMarkers } from "./viewer/IssueMarkers";
+import { MeasureLayer } from "./viewer/MeasureLayer";
+import { overlayColors, PointSetOverlays } from "./viewer/PointSetOverlays";
+import { SelectionLayer } from "./viewer/SelectionLayer";
+import { SimplifyPreview } from "./viewer/SimplifyPreview";
+import { TransformLayer } from "./viewer/TransformLayer";
+import { ViewportStore, ViewportTracker } from "./viewer/viewport";
+import type { PointHoverInfo } from "./viewer/types";
 
-// Geometry types
-export interface Point2D {
-  x: number;
-  y: number;
-}
-
-export interface GeometryShape {
-  id: string;
-  name: string;
-  type: "polygon" | "polyline" | "points";
-  points: Point2D[];
-}
+// Geometry types live in lib/geometry so the server can share them
+export type { Point2D, GeometryShape } from "@/lib/geometry";
 
 export interface GeometryViewerProps {
   shapes: GeometryShape[];
   showPoints?: boolean;
   showGrid?: boolean;
   showFill?: boolean;
+  // Status of the live update connection, shown in the toolbar when set
+  connectionStatus?: ConnectionStatus;
+  // Show the measured frame rate in the toolbar
+  showFrameRate?: boolean;
+  // Unit suffix and decimal places used by the measure tools
+  units?: string;
+  precision?: number;
+  // Selected shape ids. The viewer keeps its own selection when this is
+  // omitted and follows it whenever it changes.
+  selectedIds?: string[];
+  onSelectionChange?: (ids: string[]) => void;
+  // Called with the full shape list after each edit, undo or redo. Edits are
+  // shown immediately; a host that passes new `shapes` replaces them.
+  onShapesChange?: (shapes: GeometryShape[]) => void;
+  // Coordinate system of shapes that don't set their own `crs` (Cartesian by
+  // default). WGS84 longitude/latitude is projected for display with
+  // `projection`, and measured in metres. Both can also be changed from the
+  // toolbar.
+  crs?: CoordinateSystem;
+  projection?: GeographicProjection;
+  // Frame the camera on the shapes whenever shapes are added or removed
+  // (default). When false the camera is only framed for the first shapes
+  // and by Reset View, e.g. to compare the steps of a trace.
+  autoFrame?: boolean;
 }
 
-interface Point3D {
-  x: number;
-  y: number;
-  z: number;
-}
-
-interface GeometryLineProps {
-  shape: GeometryShape;
-  color: string;
-  lineWidth?: number;
-  showPoints?: boolean;
-  showFill?: boolean;
-}
+const measureToolNames: Record<MeasureTool | "off", string> = {
+  off: "Off",
+  distance: "Distance",
+  path: "Path length",
+  angle: "Angle",
+  area: "Area",
+};
 
-function GeometryLine({ shape, color, lineWidth = 2, showPoints = true, showFill = false, onPointHover, shapeIndex }: GeometryLineProps & { onPointHover?: (info: { point: Point3D, index: number, mouse: [number, number], shapeIndex: number } | null) => void, shapeIndex: number }) {
-  const meshRef = useRef<THREE.Mesh>(null!);
-  const lineRef = useRef<THREE.Line>(null);
-  const lineLoopRef = useRef<THREE.LineLoop>(null);
-  const { points, type } = shape;
-  const { camera } = useThree();
-  
-  // Convert 2D points to 3D (z = 0 for top view)
-  let points3D: Point3D[] = points.map(p => ({ x: p.x, y: p.y, z: 0 }));
-
-  // For polygons, close the line by adding the first point to the end if not already closed
-  if (type === "polygon" && points3D.length > 2) {
-    const first = points3D[0];
-    const last = points3D[points3D.length - 1];
-    if (first.x !== last.x || first.y !== last.y) {
-      points3D = [...points3D, { ...first }];
-    }
-  }
-  
-  // Set renderOrder for lines so they draw on top of axis lines
-  React.useEffect(() => {
-    if (type === "polygon" && lineLoopRef.current) {
-      lineLoopRef.current.renderOrder = 2;
-    } else if (type !== "points" && lineRef.current) {
-      lineRef.current.renderOrder = 2;
-    }
-  }, [type, points3D.length]);
-  
-  // Calculate scale for points based on camera zoom (orthographic only)
-  let pointScale = 1;
-  if (camera instanceof THREE.OrthographicCamera) {
-    pointScale = 1 / camera.zoom;
-  }
-
-  // Create fill geometry for polygons
-  let fillGeometry: THREE.ShapeGeometry | null = null;
-  if (type === "polygon" && showFill && points.length > 2) {
-    const shape3D = new THREE.Shape();
-    shape3D.moveTo(points[0].x, points[0].y);
-    for (let i = 1; i < points.length - 1; i++) { // Skip last point if it's the same as first (closing point)
-      shape3D.lineTo(points[i].x, points[i].y);
-    }
-    fillGeometry = new THREE.ShapeGeometry(shape3D);
-  }
+const drawToolNames: Record<ShapeType | "off", string> = {
+  off: "Off",
+  polygon: "Polygon",
+  polyline: "Polyline",
+  points: "Points",
+};
 
-  return (
-    <group>
-      {/* Line for polygons and polylines */}
-      {type !== "points" && (
-        type === "polygon" ? (
-          <lineLoop ref={lineLoopRef}>
-            <bufferGeometry>
-              <bufferAttribute
-                attach="attributes-position"
-                count={points3D.length}
-                array={new Float32Array(points3D.flatMap(p => [p.x, p.y, p.z]))}
-                itemSize={3}
-              />
-            </bufferGeometry>
-            <lineBasicMaterial color={color} />
-          </lineLoop>
-        ) : (
-          <line ref={lineRef}>
-            <bufferGeometry>
-              <bufferAttribute
-                attach="attributes-position"
-                count={points3D.length}
-                array={new Float32Array(points3D.flatMap(p => [p.x, p.y, p.z]))}
-                itemSize={3}
-              />
-            </bufferGeometry>
-            <lineBasicMaterial color={color} />
-          </line>
-        )
-      )}
-      
-      {/* Fill for polygons */}
-      {fillGeometry && showFill && (
-        <mesh ref={meshRef} geometry={fillGeometry} rotation={[0, 0, 0]}>
-          <meshBasicMaterial color={color} opacity={0.2} transparent />
-        </mesh>
-      )}
-      
-      {/* Points */}
-      {(showPoints || type === "points") && points3D.map((point, index) => (
-        <mesh
-          key={index}
-          position={[point.x, point.y, point.z]}
-          onPointerOver={e => {
-            e.stopPropagation();
-            onPointHover && onPointHover({ point, index, mouse: [e.clientX, e.clientY], shapeIndex });
-          }}
-          onPointerMove={e => {
-            e.stopPropagation();
-            onPointHover && onPointHover({ point, index, mouse: [e.clientX, e.clientY], shapeIndex });
-          }}
-          onPointerOut={e => {
-            e.stopPropagation();
-            onPointHover && onPointHover(null);
-          }}
-          renderOrder={999}
-        >
-          <sphereGeometry args={[0.05, 24, 24]} />
-          <meshBasicMaterial color={color} />
-        </mesh>
-      ))}
-    </group>
-  );
-}
-
-interface GridProps {
-  size: number;
-  divisions: number;
-  color?: string;
-}
-
-function Grid({ size, divisions, color = "#e5e7eb" }: GridProps) {
-  // Set divisions = size for 1 unit per line
-  const gridHelper = new THREE.GridHelper(size, size, color, color);
-  gridHelper.rotateX(Math.PI / 2); // Rotate to XY plane for top view
-  gridHelper.renderOrder = 0;
-  return <primitive object={gridHelper} />;
-}
-
-function AxisLines() {
-  const { camera } = useThree();
-  let length = 1000;
-  if (camera instanceof THREE.OrthographicCamera) {
-    length = Math.max(
-      Math.abs(camera.left) + Math.abs(camera.right),
-      Math.abs(camera.top) + Math.abs(camera.bottom)
-    ) * 0.6;
-  }
-  const xAxisRef = useRef<THREE.Line>(null);
-  const yAxisRef = useRef<THREE.Line>(null);
-  React.useEffect(() => {
-    if (xAxisRef.current) xAxisRef.current.renderOrder = 1;
-    if (yAxisRef.current) yAxisRef.current.renderOrder = 1;
-  }, [length]);
-  return (
-    <group>
-      {/* X-axis */}
-      <line ref={xAxisRef}>
-        <bufferGeometry>
-          <bufferAttribute
-            attach="attributes-position"
-            count={2}
-            array={new Float32Array([-length, 0, 0, length, 0, 0])}
-            itemSize={3}
-          />
-        </bufferGeometry>
-        <lineBasicMaterial color="#374151" />
-      </line>
-      {/* Y-axis */}
-      <line ref={yAxisRef}>
-        <bufferGeometry>
-          <bufferAttribute
-            attach="attributes-position"
-            count={2}
-            array={new Float32Array([0, -length, 0, 0, length, 0])}
-            itemSize={3}
-          />
-        </bufferGeometry>
-        <lineBasicMaterial color="#374151" />
-      </line>
-    </group>
-  );
-}
-
-function CameraController({ shapes, resetTrigger }: { shapes: GeometryShape[], resetTrigger: number }) {
+function CameraController({ shapes, resetTrigger, ignoredIds, autoFrame = true }: { shapes: GeometryShape[], resetTrigger: number, ignoredIds?: Set<string>, autoFrame?: boolean }) {
   const { camera, gl } = useThree();
-  const controlsRef = useRef<any>(null!);
+  const controlsRef = useRef<ComponentRef<typeof OrbitControls>>(null);
+  const shapesRef = useRef(shapes);
+  shapesRef.current = shapes;
   
   const resetCameraView = useCallback(() => {
+    const shapes = shapesRef.current;
     if (camera && controlsRef.current && shapes.length > 0) {
       // Calculate bounds from all shapes
-      const allPoints = shapes.flatMap(shape => shape.points);
-      if (allPoints.length === 0) return;
-      
-      const allX = allPoints.map(p => p.x);
-      const allY = allPoints.map(p => p.y);
-      const minX = Math.min(...allX);
-      const maxX = Math.max(...allX);
-      const minY = Math.min(...allY);
-      const maxY = Math.max(...allY);
+      const bounds = getBounds(shapes.map(shape => shape.points));
+      if (!bounds) return;
+      const { minX, maxX, minY, maxY } = bounds;
       
-      // Calculate bounding box dimensions
-      const boundingWidth = maxX - minX;
-      const boundingHeight = maxY - minY;
+      // Calculate bounding box dimensions. A lone point has none, so frame a
+      // unit square around it.
+      const empty = maxX === minX && maxY === minY;
+      const boundingWidth = empty ? 1 : maxX - minX;
+      const boundingHeight = empty ? 1 : maxY - minY;
       const centerX = (minX + maxX) / 2;
       const centerY = (minY + maxY) / 2;
       
@@ -266,12 +162,19 @@ function CameraController({ shapes, resetTrigger }: { shapes: GeometryShape[], r
         controlsRef.current.update();
       }
     }
-  }, [camera, gl, shapes]);
+  }, [camera, gl]);
   
-  // Reset view when shapes change
+  // Reset view when shapes are added or removed. Updates to existing shapes
+  // (e.g. points streaming in) keep the camera where the user left it.
+  // Shapes drawn in the viewer (`ignoredIds`) don't move the camera either.
+  // Without `autoFrame` only the first shapes are framed.
+  const shapeIdsKey = shapes.filter(shape => !ignoredIds?.has(shape.id)).map(shape => shape.id).join("\n");
+  const framed = useRef(false);
   React.useEffect(() => {
+    if (framed.current && !autoFrame) return;
+    framed.current = shapesRef.current.length > 0;
     resetCameraView();
-  }, [shapes, resetCameraView]);
+  }, [shapeIdsKey, resetCameraView, autoFrame]);
   
   // Reset view when reset button is clicked
   React.useEffect(() => {
@@ -283,6 +186,7 @@ function CameraController({ shapes, resetTrigger }: { shapes: GeometryShape[], r
   return (
     <OrbitControls
       ref={controlsRef}
+      makeDefault
       enableRotate={false}
       enablePan={true}
       enableZoom={true}
@@ -297,18 +201,66 @@ function CameraController({ shapes, resetTrigger }: { shapes: GeometryShape[], r
 }
 
 export function GeometryViewer({ 
-  shapes, 
+  shapes: externalShapes, 
   showPoints: externalShowPoints, 
   showGrid: externalShowGrid, 
-  showFill: externalShowFill 
+  showFill: externalShowFill,
+  connectionStatus,
+  showFrameRate = false,
+  units = "",
+  precision = 2,
+  selectedIds: externalSelectedIds,
+  onSelectionChange,
+  onShapesChange,
+  crs: externalCrs,
+  projection: externalProjection,
+  autoFrame = true,
 }: GeometryViewerProps) {
+  // Working copy of the shapes, so edits show up before the host applies them
+  const [shapes, setShapes] = useState(externalShapes);
   const [showPoints, setShowPoints] = useState(externalShowPoints ?? true);
   const [showGrid, setShowGrid] = useState(externalShowGrid ?? true);
   const [showFill, setShowFill] = useState(externalShowFill ?? true);
+  const [crs, setCrs] = useState<CoordinateSystem>(externalCrs ?? "cartesian");
+  const [projectionKind, setProjectionKind] = useState<GeographicProjection>(externalProjection ?? "web-mercator");
   const [resetTrigger, setResetTrigger] = useState(0);
-  const [hoveredPoint, setHoveredPoint] = useState<null | { point: Point3D, index: number, mouse: [number, number], shapeIndex: number }>(null);
+  const [hoveredPoint, setHoveredPoint] = useState<PointHoverInfo | null>(null);
+  const [frameRate, setFrameRate] = useState<number | null>(null);
+  const [viewportStore] = useState(() => new ViewportStore());
+  const [measureTool, setMeasureTool] = useState<MeasureTool | null>(null);
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const nextMeasurementId = useRef(1);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [showIssues, setShowIssues] = useState(false);
+  const [highlightedIssue, setHighlightedIssue] = useState<GeometryIssue | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>(externalSelectedIds ?? []);
+  const [editMode, setEditMode] = useState(false);
+  const [transformMode, setTransformMode] = useState(false);
+  const [drawTool, setDrawTool] = useState<ShapeType | null>(null);
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(defaultSnapSettings);
+  const [showLayers, setShowLayers] = useState(true);
+  const [hiddenIds, setHiddenIds] = useState<Set<string>>(new Set());
+  const [lockedIds, setLockedIds] = useState<Set<string>>(new Set());
+  const [soloIds, setSoloIds] = useState<Set<string>>(new Set());
+  // Shape ids in draw order once the user has reordered anything
+  const [drawOrder, setDrawOrder] = useState<string[]>([]);
+  // Simplification being previewed for the selected shapes
+  const [simplify, setSimplify] = useState<SimplifySettings | null>(null);
+  // Derived overlays shown for point sets
+  const [overlays, setOverlays] = useState<Set<OverlayKind>>(new Set());
+  const [booleanReport, setBooleanReport] = useState<(Omit<BooleanResult, "polygons"> & { format: MeasureFormat }) | null>(null);
+  const history = useHistory<GeometryShape[]>();
+
+  const handleMeasure = useCallback((measurement: Omit<Measurement, "id">) => {
+    const id = `measure-${nextMeasurementId.current++}`;
+    setMeasurements(prev => [...prev, { ...measurement, id }]);
+  }, []);
 
   // Update internal state when props change
+  React.useEffect(() => {
+    setShapes(externalShapes);
+  }, [externalShapes]);
+
   React.useEffect(() => {
     if (externalShowPoints !== undefined) setShowPoints(externalShowPoints);
   }, [externalShowPoints]);
@@ -321,23 +273,346 @@ export function GeometryViewer({
     if (externalShowFill !== undefined) setShowFill(externalShowFill);
   }, [externalShowFill]);
 
+  React.useEffect(() => {
+    if (externalSelectedIds !== undefined) setSelectedIds(externalSelectedIds);
+  }, [externalSelectedIds]);
+
+  React.useEffect(() => {
+    if (externalCrs !== undefined) setCrs(externalCrs);
+  }, [externalCrs]);
+
+  React.useEffect(() => {
+    if (externalProjection !== undefined) setProjectionKind(externalProjection);
+  }, [externalProjection]);
+
+  // Ids of shapes drawn here, so adding them doesn't reframe the camera
+  const drawnIds = useRef(new Set<string>());
+
+  // Geographic shapes are drawn, edited and measured in projected
+  // coordinates centred on them; Cartesian shapes alongside keep their own.
+  // The origin only moves when shapes are added or removed from outside,
+  // like the camera framing, so edits don't shift it. Without `autoFrame` it
+  // stays put so that steps of a trace line up.
+  const shapesRef = useRef(shapes);
+  shapesRef.current = shapes;
+  const geographic = crs === "wgs84" || shapes.some(shape => shape.crs === "wgs84");
+  const originKey = autoFrame ? shapes.filter(shape => !drawnIds.current.has(shape.id)).map(shape => shape.id).join("\n") : "";
+  const projector = React.useMemo(() => {
+    if (!geographic) return null;
+    const origin = projectionOrigin(shapesRef.current.filter(shape => isGeographic(shape, crs)));
+    return new ShapeProjector(createProjection(projectionKind, origin), crs);
+  }, [geographic, crs, projectionKind, originKey]);
+  const viewShapes = React.useMemo(() => (projector ? projector.project(shapes) : shapes), [projector, shapes]);
+  const viewShapesRef = useRef(viewShapes);
+  viewShapesRef.current = viewShapes;
+
+  // Measurements of projected data are geodesic, in metres
+  const measure = React.useMemo((): MeasureFunction | undefined => {
+    if (!projector) return undefined;
+    return (tool, points, holes) => geodesicMeasurementValue(projector.projection, tool, points, holes);
+  }, [projector]);
+  const format = { units: projector ? "m" : units, precision };
+  // Shapes are only measured geodesically when they are geographic
+  const geodesic = React.useMemo(
+    () => (projector && measure ? { measure, includes: (shape: GeometryShape) => projector.isGeographic(shape) } : undefined),
+    [projector, measure]
+  );
+
+  // Reframe when the projection changes; measurements drawn in the old one
+  // no longer line up
+  const firstProjector = useRef(true);
+  React.useEffect(() => {
+    if (firstProjector.current) {
+      firstProjector.current = false;
+      return;
+    }
+    setMeasurements([]);
+    setResetTrigger(prev => prev + 1);
+  }, [projector]);
+
+  const selectedIdsRef = useRef(selectedIds);
+  selectedIdsRef.current = selectedIds;
+  const onSelectionChangeRef = useRef(onSelectionChange);
+  onSelectionChangeRef.current = onSelectionChange;
+
+  const handleSelect = useCallback((ids: string[], mode: SelectionMode) => {
+    const previous = selectedIdsRef.current;
+    const next = applySelection(previous, ids, mode);
+    if (next.length === previous.length && next.every((id, i) => id === previous[i])) return;
+    setSelectedIds(next);
+    onSelectionChangeRef.current?.(next);
+  }, []);
+
+  const onShapesChangeRef = useRef(onShapesChange);
+  onShapesChangeRef.current = onShapesChange;
+  // Shapes as they were before the edit in progress (e.g. a vertex drag)
+  const editBaseRef = useRef<GeometryShape[] | null>(null);
+
+  // Takes the shapes as displayed, i.e. projected for geographic data
+  const handleEdit = useCallback((displayed: GeometryShape[], done: boolean) => {
+    const next = projector ? projector.unproject(displayed) : displayed;
+    if (!editBaseRef.current) editBaseRef.current = shapesRef.current;
+    setShapes(next);
+    if (!done) return;
+    history.push(editBaseRef.current);
+    editBaseRef.current = null;
+    onShapesChangeRef.current?.(next);
+  }, [history.push, projector]);
+
+  const restore = useCallback((step: (current: GeometryShape[]) => GeometryShape[] | undefined) => {
+    const restored = step(shapesRef.current);
+    if (!restored) return;
+    setShapes(restored);
+    onShapesChangeRef.current?.(restored);
+  }, []);
+
+  const handleUndo = useCallback(() => restore(history.undo), [restore, history.undo]);
+  const handleRedo = useCallback(() => restore(history.redo), [restore, history.redo]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes
+  React.useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTextInput(event.target) || !(event.ctrlKey || event.metaKey)) return;
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) handleUndo();
+      else if ((key === "z" && event.shiftKey) || key === "y") handleRedo();
+      else return;
+      event.preventDefault();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // Measuring, editing, transforming and drawing all take over clicks, so
+  // only one is active
+  const changeMeasureTool = (tool: MeasureTool | null) => {
+    setMeasureTool(tool);
+    if (tool) {
+      setEditMode(false);
+      setTransformMode(false);
+      setDrawTool(null);
+    }
+  };
+
+  const toggleEditMode = () => {
+    setEditMode(!editMode);
+    if (!editMode) {
+      setMeasureTool(null);
+      setTransformMode(false);
+      setDrawTool(null);
+    }
+  };
+
+  const toggleTransformMode = () => {
+    setTransformMode(!transformMode);
+    if (!transformMode) {
+      setMeasureTool(null);
+      setEditMode(false);
+      setDrawTool(null);
+    }
+  };
+
+  const changeDrawTool = (tool: ShapeType | null) => {
+    setDrawTool(tool);
+    if (tool) {
+      setMeasureTool(null);
+      setEditMode(false);
+      setTransformMode(false);
+    }
+  };
+
+  const handleDrawFinish = useCallback((type: ShapeType, points: Point2D[]) => {
+    const shape = createDrawnShape(type, points, shapesRef.current);
+    drawnIds.current.add(shape.id);
+    handleEdit([...viewShapesRef.current, shape], true);
+    handleSelect([shape.id], "replace");
+  }, [handleEdit, handleSelect]);
+
+  // Selected polygons in selection order: the first is combined with the rest
+  const selectedPolygons = selectedIds
+    .map(id => viewShapes.find(shape => shape.id === id))
+    .filter((shape): shape is GeometryShape => shape?.type === "polygon");
+
+  const handleBoolean = (operation: BooleanOperation) => {
+    const [first, ...rest] = selectedPolygons;
+    // Areas are geodesic only when every operand is geographic
+    const geodesicAreas = geodesic && selectedPolygons.every(geodesic.includes) ? geodesic.measure : undefined;
+    const measureArea = geodesicAreas
+      ? (polygons: Polygon[]) => polygons.reduce((sum, [shell, ...holes]) => sum + geodesicAreas("area", shell, holes), 0)
+      : undefined;
+    const { polygons, ...report } = booleanShapes(operation, [first], rest, measureArea);
+    const results = withSourceCrs(booleanResultShapes({ polygons, ...report }, viewShapes), selectedPolygons);
+    results.forEach(shape => drawnIds.current.add(shape.id));
+    setBooleanReport({ ...report, format: geodesicAreas ? format : { units, precision } });
+    if (results.length === 0) return;
+    handleEdit([...viewShapes, ...results], true);
+    handleSelect(results.map(shape => shape.id), "replace");
+  };
+
+  // Selected shapes that can be offset or simplified; locked ones are left alone
+  const selectedOutlines = React.useMemo(
+    () => viewShapes.filter(shape => shape.type !== "points" && selectedIds.includes(shape.id) && !lockedIds.has(shape.id)),
+    [viewShapes, selectedIds, lockedIds]
+  );
+
+  const handleOffset = (options: OffsetOptions) => {
+    const results: GeometryShape[] = [];
+    for (const shape of selectedOutlines) {
+      results.push(...offsetResultShapes(offsetShape(shape, options), shape, options, [...viewShapes, ...results]));
+    }
+    if (results.length === 0) return;
+    results.forEach(shape => drawnIds.current.add(shape.id));
+    handleEdit([...viewShapes, ...results], true);
+    handleSelect(results.map(shape => shape.id), "replace");
+  };
+
+  // The slider spans tolerances relative to the size of the selection. The
+  // preview follows a deferred copy so dragging stays smooth on long lines.
+  const deferredSimplify = React.useDeferredValue(simplify);
+  const simplifyExtent = React.useMemo(() => {
+    const bounds = getBounds(selectedOutlines.flatMap(shape => [shape.points, ...(shape.holes ?? [])]));
+    return bounds ? Math.hypot(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY) : 0;
+  }, [selectedOutlines]);
+  const simplifyTolerance = simplify ? sliderTolerance(simplify.level, simplifyExtent) : 0;
+  const simplified = React.useMemo(() => {
+    if (!deferredSimplify) return [];
+    const tolerance = sliderTolerance(deferredSimplify.level, simplifyExtent);
+    return selectedOutlines.map(shape => simplifyShape(shape, tolerance, deferredSimplify.method));
+  }, [deferredSimplify, selectedOutlines, simplifyExtent]);
+
+  const handleSimplifyReplace = () => {
+    const byId = new Map(simplified.map(shape => [shape.id, shape]));
+    handleEdit(viewShapes.map(shape => byId.get(shape.id) ?? shape), true);
+    setSimplify(null);
+  };
+
+  const handleSimplifyAdd = () => {
+    const copies: GeometryShape[] = [];
+    for (const shape of simplified) copies.push(simplifiedCopy(shape, [...viewShapes, ...copies]));
+    copies.forEach(shape => drawnIds.current.add(shape.id));
+    handleEdit([...viewShapes, ...copies], true);
+    handleSelect(copies.map(shape => shape.id), "replace");
+    setSimplify(null);
+  };
+
+  // Escape clears the selection unless a measurement is in progress or a
+  // field has focus
+  useKeyDown(event => {
+    if (event.key === "Escape" && !isTextInput(event.target)) handleSelect([], "replace");
+  }, !measureTool);
+
+  // Hiding, locking and soloing a group sets every member, or clears them
+  // when all are already set
+  const toggleIds = (setter: React.Dispatch<React.SetStateAction<Set<string>>>) => (ids: string[]) => {
+    setter(prev => {
+      const next = new Set(prev);
+      const allSet = ids.every(id => prev.has(id));
+      ids.forEach(id => (allSet ? next.delete(id) : next.add(id)));
+      return next;
+    });
+  };
+
+  // Time-stamped shapes are shown as of the timeline's current time
+  const timelineKeys = React.useMemo(() => timelineTimes(viewShapes), [viewShapes]);
+  const timeRange = timelineKeys.length > 0 ? { start: timelineKeys[0], end: timelineKeys[timelineKeys.length - 1] } : null;
+  const playback = usePlayback(timeRange);
+  const timeSlice = React.useMemo(
+    () => (timelineKeys.length > 0 && playback.time !== null ? shapesAtTime(viewShapes, playback.time) : null),
+    [viewShapes, timelineKeys, playback.time]
+  );
+
+  const orderedShapes = React.useMemo(() => orderShapes(timeSlice?.shapes ?? viewShapes, drawOrder), [timeSlice, viewShapes, drawOrder]);
+  const visible = React.useMemo(() => {
+    const shown = visibleShapes(orderedShapes, hiddenIds, soloIds);
+    return timeSlice ? shown.filter(shape => !timeSlice.hidden.has(shape.id)) : shown;
+  }, [orderedShapes, hiddenIds, soloIds, timeSlice]);
+  // Locked shapes are drawn but can't be selected or edited
+  const interactive = React.useMemo(() => visible.filter(shape => !lockedIds.has(shape.id)), [visible, lockedIds]);
+  // Keyframed shapes move with the timeline, so their vertices aren't edited directly
+  const editableIds = React.useMemo(
+    () => selectedIds.filter(id => interactive.some(shape => shape.id === id && !shape.keyframes?.length)),
+    [selectedIds, interactive]
+  );
+
+  // Default pivot for numeric transforms: the centre of the selection
+  const transformCenter = React.useMemo(() => {
+    const bounds = getBounds(viewShapes.filter(shape => editableIds.includes(shape.id)).flatMap(shape => [shape.points, ...(shape.holes ?? [])]));
+    return bounds && { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 };
+  }, [viewShapes, editableIds]);
+
+  const handleTransform = (matrix: Matrix3) => {
+    handleEdit(transformShapes(viewShapes, editableIds, matrix), true);
+  };
+  const shapeIndices = new Map(shapes.map((shape, index) => [shape.id, index]));
+
+  // Overlays cover the selected point sets, or every visible one when none
+  // are selected
+  const overlaySources = React.useMemo(() => {
+    const pointSets = visible.filter(shape => shape.type === "points");
+    const selected = pointSets.filter(shape => selectedIds.includes(shape.id));
+    return selected.length > 0 ? selected : pointSets;
+  }, [visible, selectedIds]);
+  const overlayPoints = React.useMemo(() => overlaySources.flatMap(shape => shape.points), [overlaySources]);
+
+  const toggleOverlay = (kind: OverlayKind) => {
+    setOverlays(prev => {
+      const next = new Set(prev);
+      if (next.has(kind)) next.delete(kind);
+      else next.add(kind);
+      return next;
+    });
+  };
+
+  const handleExportOverlay = (kind: OverlayKind) => {
+    const viewport = viewportStore.get();
+    const view = viewport ?? getBounds([overlayPoints]);
+    if (!view) return;
+    const results = withSourceCrs(overlayShapes(kind, overlayPoints, view, viewShapes), overlaySources);
+    if (results.length === 0) return;
+    results.forEach(shape => drawnIds.current.add(shape.id));
+    handleEdit([...viewShapes, ...results], true);
+    handleSelect(results.map(shape => shape.id), "replace");
+  };
+
+  const issues = React.useMemo(() => validateShapes(viewShapes), [viewShapes]);
+  const visibleIssues = React.useMemo(() => {
+    const ids = new Set(visible.map(shape => shape.id));
+    return issues.filter(issue => ids.has(issue.shapeId));
+  }, [issues, visible]);
+
+  const handleMove = (ids: string[], targetId: string | null) => {
+    setDrawOrder(moveInDrawOrder(orderedShapes.map(shape => shape.id), ids, targetId));
+  };
+
+  const handleRenameShape = (id: string, name: string) => {
+    handleEdit(viewShapes.map(shape => (shape.id === id ? { ...shape, name } : shape)), true);
+  };
+
+  const handleRenameLayer = (from: string, to: string) => {
+    handleEdit(viewShapes.map(shape => (shape.layer === from ? { ...shape, layer: to } : shape)), true);
+  };
+
   const handleReset = useCallback(() => {
     setResetTrigger(prev => prev + 1);
   }, []);
   
   // Calculate total points for display
-  const totalPoints = shapes.reduce((sum, shape) => sum + shape.points.length, 0);
-
-  if (shapes.length === 0) {
-    return (
-      <div className="h-screen w-screen flex items-center justify-center bg-background">
-        <div className="text-center text-muted-foreground">
-          <p className="text-lg font-medium mb-2">No geometry to display</p>
-          <p className="text-sm">Add some shapes to get started</p>
-        </div>
-      </div>
-    );
-  }
+  const totalPoints = shapes.reduce(
+    (sum, shape) => sum + shape.points.length + (shape.holes ?? []).reduce((holeSum, hole) => holeSum + hole.length, 0),
+    0
+  );
+
+  // Original longitude/latitude of the hovered vertex of projected data
+  const hoveredShape = hoveredPoint && projector ? shapes[hoveredPoint.shapeIndex] : undefined;
+  const hoveredGeographic = hoveredShape && projector?.isGeographic(hoveredShape);
+  const hoveredSource = hoveredShape && hoveredPoint
+    ? (hoveredPoint.ring === 0 ? hoveredShape.points : hoveredShape.holes?.[hoveredPoint.ring - 1])?.[hoveredPoint.index]
+    : undefined;
+
+  // The grid of projected data steps in ground metres at the origin's latitude
+  const unitsPerMeter = projector?.projection.scaleAt(0);
+
+  const selectedCount = shapes.filter(shape => selectedIds.includes(shape.id)).length;
 
   return (
     <div className="h-screen w-screen flex flex-col bg-background">
@@ -377,74 +652,412 @@ export function GeometryViewer({
           Reset View
         </Button>
 
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">CRS:</span>
+          <Select value={crs} onValueChange={(value) => setCrs(value as CoordinateSystem)}>
+            <SelectTrigger className="h-8 w-36" title="Coordinate system of shapes without their own">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(coordinateSystemLabels).map(([key, name]) => (
+                <SelectItem key={key} value={key}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {projector && (
+            <Select value={projectionKind} onValueChange={(value) => setProjectionKind(value as GeographicProjection)}>
+              <SelectTrigger className="h-8 w-44" title="Projection">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(projectionLabels).map(([key, name]) => (
+                  <SelectItem key={key} value={key}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">Draw:</span>
+          <Select
+            value={drawTool ?? "off"}
+            onValueChange={(value) => changeDrawTool(value === "off" ? null : value as ShapeType)}
+          >
+            <SelectTrigger className="h-8 w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(drawToolNames).map(([key, name]) => (
+                <SelectItem key={key} value={key}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button
+            variant={editMode ? "default" : "outline"}
+            size="sm"
+            onClick={toggleEditMode}
+            title="Drag vertices of the selected shapes, click an edge to add one, Delete to remove"
+          >
+            Edit
+          </Button>
+          <Button
+            variant={transformMode ? "default" : "outline"}
+            size="sm"
+            onClick={toggleTransformMode}
+            title="Move, scale and rotate the selected shapes with handles or exact values"
+          >
+            Transform
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleUndo} disabled={!history.canUndo}>
+            Undo
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleRedo} disabled={!history.canRedo}>
+            Redo
+          </Button>
+        </div>
+
+        {/* Snap targets apply while drawing or dragging vertices */}
+        {(drawTool || editMode) && (
+          <div className="flex items-center gap-1">
+            <span className="text-sm font-medium mr-1">Snap:</span>
+            {(Object.keys(snapKindLabels) as SnapKind[]).map(kind => (
+              <Button
+                key={kind}
+                variant={snapSettings[kind] ? "default" : "outline"}
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => setSnapSettings(prev => ({ ...prev, [kind]: !prev[kind] }))}
+              >
+                {snapKindLabels[kind]}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {(selectedPolygons.length >= 2 || booleanReport) && (
+          <div className="flex items-center gap-1">
+            <span className="text-sm font-medium mr-1">Boolean:</span>
+            {(Object.keys(booleanOperationLabels) as BooleanOperation[]).map(operation => (
+              <Button
+                key={operation}
+                variant="outline"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                disabled={selectedPolygons.length < 2}
+                onClick={() => handleBoolean(operation)}
+                title={`${booleanOperationLabels[operation]} of the first selected polygon with the others`}
+              >
+                {booleanOperationLabels[operation]}
+              </Button>
+            ))}
+            {booleanReport && (
+              <>
+                <span className="ml-1 text-xs text-muted-foreground">
+                  {booleanOperationLabels[booleanReport.operation]}:{" "}
+                  {formatMeasurement("area", booleanReport.area, booleanReport.format)}, overlap{" "}
+                  {formatMeasurement("area", booleanReport.overlapArea, booleanReport.format)}
+                </span>
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setBooleanReport(null)}>
+                  Dismiss
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+
+        {selectedOutlines.length > 0 && (
+          <OffsetControls showCaps={selectedOutlines.some(shape => shape.type === "polyline")} onApply={handleOffset} />
+        )}
+
+        {selectedOutlines.length > 0 && (simplify ? (
+          <SimplifyControls
+            settings={simplify}
+            onChange={setSimplify}
+            tolerance={simplifyTolerance.toPrecision(2)}
+            before={selectedOutlines.reduce((sum, shape) => sum + vertexCount(shape), 0)}
+            after={simplified.reduce((sum, shape) => sum + vertexCount(shape), 0)}
+            onReplace={handleSimplifyReplace}
+            onAdd={handleSimplifyAdd}
+            onCancel={() => setSimplify(null)}
+          />
+        ) : (
+          <Button variant="outline" size="sm" onClick={() => setSimplify(defaultSimplifySettings)}>
+            Simplify
+          </Button>
+        ))}
+
+        {shapes.some(shape => shape.type === "points") && (
+          <div className="flex items-center gap-1">
+            <span className="text-sm font-medium mr-1">Overlays:</span>
+            {(Object.keys(overlayLabels) as OverlayKind[]).map(kind => (
+              <div key={kind} className="flex items-center">
+                <Button
+                  variant={overlays.has(kind) ? "default" : "outline"}
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => toggleOverlay(kind)}
+                >
+                  <span className="size-2 rounded-full" style={{ backgroundColor: overlayColors[kind] }} />
+                  {overlayLabels[kind]}
+                </Button>
+                {overlays.has(kind) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    disabled={overlayPoints.length === 0}
+                    onClick={() => handleExportOverlay(kind)}
+                    title={`Add the ${overlayLabels[kind].toLowerCase()} as new shapes`}
+                  >
+                    <Plus className="size-3.5" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button
+          variant={showLayers ? "default" : "outline"}
+          size="sm"
+          onClick={() => setShowLayers(!showLayers)}
+        >
+          Layers
+        </Button>
+
+        <Button
+          variant={showAnalytics ? "default" : "outline"}
+          size="sm"
+          onClick={() => setShowAnalytics(!showAnalytics)}
+        >
+          Analytics
+        </Button>
+
+        <Button
+          variant={showIssues ? "default" : "outline"}
+          size="sm"
+          onClick={() => {
+            setShowIssues(!showIssues);
+            setHighlightedIssue(null);
+          }}
+          className={cn(!showIssues && issues.length > 0 && "text-destructive")}
+        >
+          Issues{issues.length > 0 && ` (${issues.length.toLocaleString()})`}
+        </Button>
+
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">Measure:</span>
+          <Select
+            value={measureTool ?? "off"}
+            onValueChange={(value) => changeMeasureTool(value === "off" ? null : value as MeasureTool)}
+          >
+            <SelectTrigger className="h-8 w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(measureToolNames).map(([key, name]) => (
+                <SelectItem key={key} value={key}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {measurements.length > 0 && (
+            <Button variant="outline" size="sm" onClick={() => setMeasurements([])}>
+              Clear Measurements
+            </Button>
+          )}
+        </div>
+
         <div className="ml-auto text-sm text-muted-foreground">
           <span className="font-medium">
             {shapes.length} shape{shapes.length !== 1 ? 's' : ''}
           </span>
           <span className="mx-2">•</span>
-          <span>{totalPoints} point{totalPoints !== 1 ? 's' : ''}</span>
+          <span>{totalPoints.toLocaleString()} point{totalPoints !== 1 ? 's' : ''}</span>
+          {selectedCount > 0 && (
+            <>
+              <span className="mx-2">•</span>
+              <span>{selectedCount} selected</span>
+            </>
+          )}
+          {showFrameRate && frameRate !== null && (
+            <>
+              <span className="mx-2">•</span>
+              <span className="font-mono">{frameRate.toFixed(0)} fps</span>
+            </>
+          )}
         </div>
+
+        {connectionStatus && <ConnectionIndicator status={connectionStatus} />}
       </div>
 
       {/* Three.js Canvas taking up remaining space */}
-      <div className="flex-1 min-h-0">
-        <Canvas 
-          orthographic
-          camera={{ position: [0, 0, 10], zoom: 1 }}
-          style={{ background: 'transparent' }}
-        >
-          <CameraController shapes={shapes} resetTrigger={resetTrigger} />
-          
-          {/* Grid (bottom layer) */}
-          {showGrid && <Grid size={100} divisions={20} />}
-          
-          {/* Axis lines (middle layer) */}
-          <AxisLines />
-          
-          {/* Render all shapes (top layer) */}
-          {shapes.map((shape, shapeIndex) => (
-            <GeometryLine
-              key={shape.id}
-              shape={shape}
-              color={getShapeColor(shapeIndex)}
-              showPoints={showPoints}
-              showFill={showFill}
-              onPointHover={setHoveredPoint}
-              shapeIndex={shapeIndex}
-            />
-          ))}
-        </Canvas>
-        {/* Tooltip for hovered point, themed with shadcn */}
-        {hoveredPoint && (
-          <div
-            className="fixed z-50 px-3 py-1.5 rounded-md border border-border bg-popover text-popover-foreground shadow-md text-xs font-mono pointer-events-none select-none"
-            style={{ left: hoveredPoint.mouse[0] + 10, top: hoveredPoint.mouse[1] + 10 }}
-          >
-            Shape {hoveredPoint.shapeIndex + 1} — Point {hoveredPoint.index + 1}: ({hoveredPoint.point.x.toFixed(2)}, {hoveredPoint.point.y.toFixed(2)})
-          </div>
+      <div className="flex flex-1 min-h-0">
+        {showLayers && shapes.length > 0 && (
+          <LayersPanel
+            shapes={orderedShapes}
+            hidden={hiddenIds}
+            locked={lockedIds}
+            solo={soloIds}
+            selectedIds={selectedIds}
+            onToggleHidden={toggleIds(setHiddenIds)}
+            onToggleLocked={toggleIds(setLockedIds)}
+            onToggleSolo={toggleIds(setSoloIds)}
+            onSelect={handleSelect}
+            onRenameShape={handleRenameShape}
+            onRenameLayer={handleRenameLayer}
+            onMove={handleMove}
+            className="w-72 max-w-[30%] border-r border-border"
+          />
         )}
-      </div>
+        <div className="relative flex-1 min-w-0">
+          <Canvas 
+            orthographic
+            camera={{ position: [0, 0, 10], zoom: 1 }}
+            style={{ background: 'transparent' }}
+          >
+            <CameraController shapes={viewShapes} resetTrigger={resetTrigger} ignoredIds={drawnIds.current} autoFrame={autoFrame} />
+            <ViewportTracker store={viewportStore} />
+            {showFrameRate && <FrameRateProbe onSample={setFrameRate} />}
+            
+            {/* Grid (bottom layer) */}
+            {showGrid && <Grid unitsPerMeter={unitsPerMeter} />}
+            
+            {/* Axis lines (middle layer) */}
+            <AxisLines />
+            
+            <SelectionLayer shapes={interactive} onSelect={handleSelect} enabled={measureTool === null && drawTool === null} />
+            {drawTool && <DrawLayer tool={drawTool} shapes={visible} snapSettings={snapSettings} unitsPerMeter={unitsPerMeter} onFinish={handleDrawFinish} />}
+            {editMode && (
+              <EditLayer
+                shapes={viewShapes}
+                selectedIds={editableIds}
+                snapSettings={snapSettings}
+                unitsPerMeter={unitsPerMeter}
+                onEdit={handleEdit}
+              />
+            )}
+            {transformMode && <TransformLayer shapes={viewShapes} selectedIds={editableIds} onEdit={handleEdit} />}
+            {overlays.size > 0 && overlayPoints.length > 0 && (
+              <PointSetOverlays points={overlayPoints} overlays={overlays} viewportStore={viewportStore} />
+            )}
+            {visibleIssues.length > 0 && <IssueMarkers issues={visibleIssues} highlighted={highlightedIssue} />}
+            {simplify && <SimplifyPreview shapes={simplified} />}
+            <MeasureLayer
+              shapes={visible}
+              tool={measureTool}
+              measurements={measurements}
+              onMeasure={handleMeasure}
+              format={format}
+              measure={measure}
+            />
 
-      {/* Shape legend and coordinates at bottom */}
-      <div className="flex-shrink-0 border-t border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
-        {/* Shape legend */}
-        {shapes.length > 1 && (
-          <div className="p-2 border-b border-border">
-            <div className="flex flex-wrap gap-2">
-              {shapes.map((shape, index) => (
-                <div key={shape.id} className="flex items-center gap-2 text-xs">
-                  <div 
-                    className="w-3 h-3 rounded-full" 
-                    style={{ backgroundColor: getShapeColor(index) }}
-                  />
-                  <span className="font-medium">{shape.name}</span>
-                  <span className="text-muted-foreground">({shape.type})</span>
-                </div>
-              ))}
+            {/* Render visible shapes (top layer), stacked in draw order */}
+            {visible.map((shape, drawIndex) => (
+              <group key={shape.id} position={[0, 0, drawIndex * 0.001]}>
+                <GeometryLine
+                  shape={shape}
+                  showPoints={showPoints}
+                  showFill={showFill}
+                  selected={selectedIds.includes(shape.id)}
+                  onPointHover={setHoveredPoint}
+                  shapeIndex={shapeIndices.get(shape.id)!}
+                />
+              </group>
+            ))}
+          </Canvas>
+          {showGrid && <GridLabels store={viewportStore} unitsPerMeter={unitsPerMeter} />}
+          {/* Empty state; the canvas stays up so shapes can still be drawn */}
+          {shapes.length === 0 && !drawTool && (
+            <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+              <div className="text-center text-muted-foreground bg-background/80 rounded-md px-4 py-3">
+                <p className="text-lg font-medium mb-2">No geometry to display</p>
+                <p className="text-sm">Add some shapes or sketch one with the Draw tools</p>
+              </div>
             </div>
-          </div>
+          )}
+          {transformMode && transformCenter && (
+            <TransformDialog
+              center={transformCenter}
+              selectedCount={editableIds.length}
+              onApply={handleTransform}
+              onClose={toggleTransformMode}
+              className="absolute top-2 right-2 z-10 max-h-[calc(100%-1rem)] overflow-y-auto"
+            />
+          )}
+          {/* Tooltip for hovered point, themed with shadcn */}
+          {hoveredPoint && (
+            <div
+              className="fixed z-50 px-3 py-1.5 rounded-md border border-border bg-popover text-popover-foreground shadow-md text-xs font-mono pointer-events-none select-none"
+              style={{ left: hoveredPoint.mouse[0] + 10, top: hoveredPoint.mouse[1] + 10 }}
+            >
+              Shape {hoveredPoint.shapeIndex + 1}
+              {shapes[hoveredPoint.shapeIndex]?.holes?.length ? (hoveredPoint.ring === 0 ? " — Outer ring" : ` — Hole ${hoveredPoint.ring}`) : ""}
+              {" "}— Point {hoveredPoint.index + 1}:{" "}
+              {hoveredSource && hoveredGeographic && projector ? (
+                <>
+                  {hoveredSource.x.toFixed(6)}°, {hoveredSource.y.toFixed(6)}° → (
+                  {formatNumber(hoveredPoint.point.x + projector.projection.offset.x, 2)},{" "}
+                  {formatNumber(hoveredPoint.point.y + projector.projection.offset.y, 2)}) m
+                </>
+              ) : (
+                <>({hoveredPoint.point.x.toFixed(2)}, {hoveredPoint.point.y.toFixed(2)})</>
+              )}
+            </div>
+          )}
+        </div>
+
+        {showIssues && (
+          <IssuesPanel
+            shapes={viewShapes}
+            issues={issues}
+            selectedIds={selectedIds}
+            onSelect={handleSelect}
+            onHighlight={setHighlightedIssue}
+            format={format}
+            className="w-80 max-w-[30%] border-l border-border"
+          />
+        )}
+
+        {showAnalytics && (
+          <AnalyticsPanel
+            shapes={viewShapes}
+            selectedIds={selectedIds}
+            onSelect={handleSelect}
+            geodesic={geodesic}
+            format={{ units, precision }}
+            className="w-[32rem] max-w-[50%] border-l border-border"
+          />
         )}
       </div>
+
+      {timeRange && playback.time !== null && (
+        <TimelineBar
+          range={timeRange}
+          times={timelineKeys}
+          time={playback.time}
+          onTimeChange={playback.setTime}
+          playing={playback.playing}
+          onTogglePlaying={playback.togglePlaying}
+          speed={playback.speed}
+          onSpeedChange={playback.setSpeed}
+          loop={playback.loop}
+          onLoopChange={playback.setLoop}
+          className="border-t border-border"
+        />
+      )}
+
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { useMemo } from "react";
+import type { GeometryShape } from "@/lib/geometry";
+import { formatNumber, type MeasureFormat } from "@/lib/measure";
+import { selectionModeFromEvent, type SelectionMode } from "@/lib/selection";
+import { cn } from "@/lib/utils";
+import { issueKindLabels, type GeometryIssue } from "@/lib/validation";
+
+// Long lists (e.g. a scribble crossing itself everywhere) are cut off here
+const MAX_ROWS = 500;
+
+export interface IssuesPanelProps {
+  shapes: GeometryShape[];
+  issues: GeometryIssue[];
+  selectedIds: string[];
+  onSelect: (ids: string[], mode: SelectionMode) => void;
+  // Hovering a row highlights its marker on the canvas
+  onHighlight: (issue: GeometryIssue | null) => void;
+  format: MeasureFormat;
+  className?: string;
+}
+
+// Validation issues of every shape; clicking one selects its shape
+export function IssuesPanel({ shapes, issues, selectedIds, onSelect, onHighlight, format, className }: IssuesPanelProps) {
+  const names = useMemo(() => new Map(shapes.map(shape => [shape.id, shape.name])), [shapes]);
+  const affected = new Set(issues.map(issue => issue.shapeId)).size;
+
+  return (
+    <div className={cn("flex flex-col min-h-0 bg-background", className)}>
+      <div className="p-3 border-b border-border">
+        <h3 className="font-medium">Issues</h3>
+        <p className="text-xs text-muted-foreground">
+          {issues.length === 0
+            ? "No problems found."
+            : `${issues.length} issue${issues.length === 1 ? "" : "s"} in ${affected} shape${affected === 1 ? "" : "s"}`}
+        </p>
+      </div>
+      <ul className="flex-1 min-h-0 overflow-auto text-xs" onMouseLeave={() => onHighlight(null)}>
+        {issues.slice(0, MAX_ROWS).map((issue, index) => (
+          <li
+            key={index}
+            data-state={selectedIds.includes(issue.shapeId) ? "selected" : undefined}
+            className="px-3 py-1.5 border-b border-border cursor-pointer hover:bg-muted/50 data-[state=selected]:bg-muted"
+            onMouseEnter={() => onHighlight(issue)}
+            onClick={event => onSelect([issue.shapeId], selectionModeFromEvent(event))}
+          >
+            <div className="flex items-baseline justify-between gap-2">
+              <span className="font-medium text-destructive">{issueKindLabels[issue.kind]}</span>
+              <span className="truncate text-muted-foreground">{names.get(issue.shapeId) ?? issue.shapeId}</span>
+            </div>
+            <div className="flex items-baseline justify-between gap-2">
+              <span>{issue.message}</span>
+              {issue.location && (
+                <span className="font-mono text-muted-foreground whitespace-nowrap">
+                  ({formatNumber(issue.location.x, format.precision)}, {formatNumber(issue.location.y, format.precision)})
+                </span>
+              )}
+            </div>
+          </li>
+        ))}
+        {issues.length > MAX_ROWS && (
+          <li className="px-3 py-1.5 text-muted-foreground">{(issues.length - MAX_ROWS).toLocaleString()} more not shown</li>
+        )}
+      </ul>
+    </div>
+  );
+}
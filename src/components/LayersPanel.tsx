@@ -0,0 +1,206 @@
+import { useState, type DragEvent, type ReactNode } from "react";
+import { ChevronDown, ChevronRight, Eye, EyeOff, Focus, GripVertical, Lock, LockOpen } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import type { GeometryShape } from "@/lib/geometry";
+import { buildLayerEntries, type LayerEntry } from "@/lib/layers";
+import { selectionModeFromEvent, type SelectionMode } from "@/lib/selection";
+import { resolveShapeStyle } from "@/lib/style";
+import { cn } from "@/lib/utils";
+
+export interface LayersPanelProps {
+  // Every shape in draw order, hidden ones included
+  shapes: GeometryShape[];
+  hidden: Set<string>;
+  locked: Set<string>;
+  solo: Set<string>;
+  selectedIds: string[];
+  // Each toggle receives the ids of a shape or of every shape in a layer
+  onToggleHidden: (ids: string[]) => void;
+  onToggleLocked: (ids: string[]) => void;
+  onToggleSolo: (ids: string[]) => void;
+  onSelect: (ids: string[], mode: SelectionMode) => void;
+  onRenameShape: (id: string, name: string) => void;
+  onRenameLayer: (from: string, to: string) => void;
+  // Move shapes directly above `targetId` in draw order
+  onMove: (ids: string[], targetId: string | null) => void;
+  className?: string;
+}
+
+const DRAG_TYPE = "application/x-geometry-shape-ids";
+
+function entryIds(entry: LayerEntry): string[] {
+  return entry.kind === "shape" ? [entry.shape.id] : entry.shapes.map(shape => shape.id);
+}
+
+// Name that turns into a text field on double click
+function EditableName({ value, onRename, className }: { value: string; onRename: (name: string) => void; className?: string }) {
+  const [editing, setEditing] = useState(false);
+  if (!editing) {
+    return (
+      <span className={cn("truncate", className)} onDoubleClick={() => setEditing(true)} title="Double-click to rename">
+        {value}
+      </span>
+    );
+  }
+  return (
+    <Input
+      autoFocus
+      defaultValue={value}
+      className="h-6 px-1 py-0 text-xs"
+      onClick={event => event.stopPropagation()}
+      onBlur={event => {
+        setEditing(false);
+        const name = event.currentTarget.value.trim();
+        if (name && name !== value) onRename(name);
+      }}
+      onKeyDown={event => {
+        if (event.key === "Enter") event.currentTarget.blur();
+        if (event.key === "Escape") {
+          event.currentTarget.value = value;
+          event.currentTarget.blur();
+        }
+      }}
+    />
+  );
+}
+
+function ToggleButton({ active, onClick, title, children }: { active: boolean; onClick: () => void; title: string; children: ReactNode }) {
+  return (
+    <button
+      type="button"
+      title={title}
+      className={cn("p-0.5 rounded hover:bg-accent", active ? "text-foreground" : "text-muted-foreground/50")}
+      onClick={event => {
+        event.stopPropagation();
+        onClick();
+      }}
+    >
+      {children}
+    </button>
+  );
+}
+
+// Every shape or layer as a row with visibility, solo and lock toggles. Rows
+// are listed top of the draw order first and can be dragged to reorder;
+// double-click a name to rename it.
+export function LayersPanel(props: LayersPanelProps) {
+  const { shapes, hidden, locked, solo, selectedIds, onSelect, onMove, className } = props;
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const entries = buildLayerEntries(shapes);
+
+  const toggleExpanded = (name: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  const dragProps = (ids: string[], targetId: string, key: string) => ({
+    draggable: true,
+    onDragStart: (event: DragEvent) => {
+      event.dataTransfer.setData(DRAG_TYPE, JSON.stringify(ids));
+      event.dataTransfer.effectAllowed = "move";
+    },
+    onDragOver: (event: DragEvent) => {
+      if (!event.dataTransfer.types.includes(DRAG_TYPE)) return;
+      event.preventDefault();
+      setDropTarget(key);
+    },
+    onDragLeave: () => setDropTarget(current => (current === key ? null : current)),
+    onDrop: (event: DragEvent) => {
+      event.preventDefault();
+      setDropTarget(null);
+      const moving = JSON.parse(event.dataTransfer.getData(DRAG_TYPE)) as string[];
+      if (!moving.includes(targetId)) onMove(moving, targetId);
+    },
+    onDragEnd: () => setDropTarget(null),
+  });
+
+  const toggles = (ids: string[]) => {
+    const allHidden = ids.every(id => hidden.has(id));
+    const allSolo = ids.every(id => solo.has(id));
+    const allLocked = ids.every(id => locked.has(id));
+    return (
+      <div className="ml-auto flex items-center gap-0.5 shrink-0">
+        <ToggleButton active={!allHidden} onClick={() => props.onToggleHidden(ids)} title={allHidden ? "Show" : "Hide"}>
+          {allHidden ? <EyeOff className="size-3.5" /> : <Eye className="size-3.5" />}
+        </ToggleButton>
+        <ToggleButton active={allSolo} onClick={() => props.onToggleSolo(ids)} title={allSolo ? "Unsolo" : "Solo"}>
+          <Focus className="size-3.5" />
+        </ToggleButton>
+        <ToggleButton active={allLocked} onClick={() => props.onToggleLocked(ids)} title={allLocked ? "Unlock" : "Lock"}>
+          {allLocked ? <Lock className="size-3.5" /> : <LockOpen className="size-3.5" />}
+        </ToggleButton>
+      </div>
+    );
+  };
+
+  const shapeRow = (shape: GeometryShape, indent: boolean) => {
+    // Within a layer, dropping a shape reorders it among its siblings
+    const key = `shape:${shape.id}`;
+    return (
+      <div
+        key={shape.id}
+        {...dragProps([shape.id], shape.id, key)}
+        className={cn(
+          "flex items-center gap-1.5 px-2 py-1 text-xs cursor-pointer border-t-2 border-transparent hover:bg-muted/50",
+          indent && "pl-7",
+          selectedIds.includes(shape.id) && "bg-muted",
+          hidden.has(shape.id) && "opacity-50",
+          dropTarget === key && "border-primary"
+        )}
+        onClick={event => onSelect(locked.has(shape.id) ? [] : [shape.id], selectionModeFromEvent(event))}
+      >
+        <GripVertical className="size-3 text-muted-foreground shrink-0 cursor-grab" />
+        <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: resolveShapeStyle(shape).strokeColor }} />
+        <EditableName value={shape.name} onRename={name => props.onRenameShape(shape.id, name)} className="font-medium" />
+        <span className="text-muted-foreground shrink-0">({shape.type})</span>
+        {toggles([shape.id])}
+      </div>
+    );
+  };
+
+  return (
+    <div className={cn("flex flex-col min-h-0 overflow-auto bg-background", className)}>
+      {entries.map(entry => {
+        if (entry.kind === "shape") return shapeRow(entry.shape, false);
+        const ids = entryIds(entry);
+        const key = `layer:${entry.name}`;
+        const isExpanded = expanded.has(entry.name);
+        return (
+          <div key={key}>
+            <div
+              {...dragProps(ids, entry.shapes[0].id, key)}
+              className={cn(
+                "flex items-center gap-1.5 px-2 py-1 text-xs cursor-pointer border-t-2 border-transparent bg-muted/30 hover:bg-muted/50",
+                ids.every(id => hidden.has(id)) && "opacity-50",
+                dropTarget === key && "border-primary"
+              )}
+              onClick={event => onSelect(ids.filter(id => !locked.has(id)), selectionModeFromEvent(event))}
+            >
+              <GripVertical className="size-3 text-muted-foreground shrink-0 cursor-grab" />
+              <button
+                type="button"
+                className="shrink-0"
+                onClick={event => {
+                  event.stopPropagation();
+                  toggleExpanded(entry.name);
+                }}
+              >
+                {isExpanded ? <ChevronDown className="size-3.5" /> : <ChevronRight className="size-3.5" />}
+              </button>
+              <EditableName value={entry.name} onRename={name => props.onRenameLayer(entry.name, name)} className="font-semibold" />
+              <span className="text-muted-foreground shrink-0">{entry.shapes.length}</span>
+              {toggles(ids)}
+            </div>
+            {isExpanded && entry.shapes.map(shape => shapeRow(shape, true))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { capStyleLabels, defaultOffsetOptions, joinStyleLabels, type CapStyle, type JoinStyle, type OffsetOptions } from "@/lib/offset";
+
+interface OffsetControlsProps {
+  // Whether any selected shape is a polyline, which is when caps apply
+  showCaps: boolean;
+  onApply: (options: OffsetOptions) => void;
+}
+
+// Distance, join and cap settings for offsetting the selected shapes
+export function OffsetControls({ showCaps, onApply }: OffsetControlsProps) {
+  const [distance, setDistance] = useState(String(defaultOffsetOptions.distance));
+  const [join, setJoin] = useState<JoinStyle>(defaultOffsetOptions.join);
+  const [cap, setCap] = useState<CapStyle>(defaultOffsetOptions.cap);
+
+  const value = Number(distance);
+  const valid = distance.trim() !== "" && Number.isFinite(value) && value !== 0;
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm font-medium">Offset:</span>
+      <Input
+        type="number"
+        step="any"
+        value={distance}
+        onChange={e => setDistance(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === "Enter" && valid) onApply({ ...defaultOffsetOptions, distance: value, join, cap });
+        }}
+        className="h-8 w-20"
+        aria-invalid={!valid}
+        title="Positive grows polygons, negative shrinks them; polylines are buffered by the distance"
+      />
+      <Select value={join} onValueChange={value => setJoin(value as JoinStyle)}>
+        <SelectTrigger className="h-8 w-24" title="Join">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(joinStyleLabels).map(([key, name]) => (
+            <SelectItem key={key} value={key}>
+              {name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {showCaps && (
+        <Select value={cap} onValueChange={value => setCap(value as CapStyle)}>
+          <SelectTrigger className="h-8 w-24" title="Cap">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(capStyleLabels).map(([key, name]) => (
+              <SelectItem key={key} value={key}>
+                {name} cap
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!valid}
+        onClick={() => onApply({ ...defaultOffsetOptions, distance: value, join, cap })}
+      >
+        Apply
+      </Button>
+    </div>
+  );
+}
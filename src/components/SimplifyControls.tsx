@@ -0,0 +1,66 @@
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { simplifyMethodLabels, type SimplifyMethod } from "@/lib/simplify";
+
+export interface SimplifySettings {
+  method: SimplifyMethod;
+  // Slider position from 0 to 100, see `sliderTolerance`
+  level: number;
+}
+
+export const defaultSimplifySettings: SimplifySettings = { method: "douglas-peucker", level: 30 };
+
+interface SimplifyControlsProps {
+  settings: SimplifySettings;
+  onChange: (settings: SimplifySettings) => void;
+  // Tolerance for the current level, already formatted
+  tolerance: string;
+  before: number;
+  after: number;
+  onReplace: () => void;
+  onAdd: () => void;
+  onCancel: () => void;
+}
+
+// Method, tolerance slider and vertex counts while previewing a simplification
+export function SimplifyControls({ settings, onChange, tolerance, before, after, onReplace, onAdd, onCancel }: SimplifyControlsProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm font-medium">Simplify:</span>
+      <Select value={settings.method} onValueChange={value => onChange({ ...settings, method: value as SimplifyMethod })}>
+        <SelectTrigger className="h-8 w-44">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(simplifyMethodLabels).map(([key, name]) => (
+            <SelectItem key={key} value={key}>
+              {name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        step={1}
+        value={settings.level}
+        onChange={e => onChange({ ...settings, level: Number(e.target.value) })}
+        className="w-32 accent-primary"
+        title={`Tolerance ${tolerance}`}
+      />
+      <span className="text-xs text-muted-foreground font-mono whitespace-nowrap">
+        ±{tolerance} · {before.toLocaleString()} → {after.toLocaleString()} vertices
+      </span>
+      <Button variant="outline" size="sm" onClick={onReplace} disabled={after === before}>
+        Replace
+      </Button>
+      <Button variant="outline" size="sm" onClick={onAdd} disabled={after === before}>
+        Add as New
+      </Button>
+      <Button variant="ghost" size="sm" onClick={onCancel}>
+        Cancel
+      </Button>
+    </div>
+  );
+}
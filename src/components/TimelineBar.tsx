@@ -0,0 +1,118 @@
+import { Pause, Play, Repeat, SkipBack, SkipForward } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { playbackSpeeds } from "@/hooks/usePlayback";
+import { formatTime, type TimeRange } from "@/lib/timeline";
+import { cn } from "@/lib/utils";
+
+interface TimelineBarProps {
+  range: TimeRange;
+  // Times of the snapshots and keyframes, in order
+  times: number[];
+  time: number;
+  onTimeChange: (time: number) => void;
+  playing: boolean;
+  onTogglePlaying: () => void;
+  speed: number;
+  onSpeedChange: (speed: number) => void;
+  loop: boolean;
+  onLoopChange: (loop: boolean) => void;
+  className?: string;
+}
+
+// Scrubber and transport controls for time-stamped shapes. The skip buttons
+// jump between snapshot and keyframe times, which are ticked on the track.
+export function TimelineBar({
+  range,
+  times,
+  time,
+  onTimeChange,
+  playing,
+  onTogglePlaying,
+  speed,
+  onSpeedChange,
+  loop,
+  onLoopChange,
+  className,
+}: TimelineBarProps) {
+  const span = range.end - range.start;
+  const previous = [...times].reverse().find(t => t < time);
+  const next = times.find(t => t > time);
+
+  return (
+    <div className={cn("flex items-center gap-2 px-4 py-2", className)}>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-8 w-8 p-0"
+        onClick={() => previous !== undefined && onTimeChange(previous)}
+        disabled={previous === undefined}
+        title="Previous keyframe"
+      >
+        <SkipBack className="size-4" />
+      </Button>
+      <Button variant="default" size="sm" className="h-8 w-8 p-0" onClick={onTogglePlaying} disabled={span <= 0} title={playing ? "Pause" : "Play"}>
+        {playing ? <Pause className="size-4" /> : <Play className="size-4" />}
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-8 w-8 p-0"
+        onClick={() => next !== undefined && onTimeChange(next)}
+        disabled={next === undefined}
+        title="Next keyframe"
+      >
+        <SkipForward className="size-4" />
+      </Button>
+
+      <span className="w-20 text-right text-xs font-mono tabular-nums">{formatTime(time, range)}</span>
+      <div className="relative flex-1 min-w-32">
+        <input
+          type="range"
+          min={range.start}
+          max={range.end}
+          step="any"
+          value={time}
+          onChange={e => onTimeChange(Number(e.target.value))}
+          disabled={span <= 0}
+          className="w-full accent-primary"
+          aria-label="Time"
+        />
+        {span > 0 && (
+          <div className="pointer-events-none absolute inset-x-0 -bottom-1 h-1.5">
+            {times.map(t => (
+              <span
+                key={t}
+                className="absolute h-full w-px bg-muted-foreground/50"
+                style={{ left: `${((t - range.start) / span) * 100}%` }}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+      <span className="w-20 text-xs font-mono tabular-nums text-muted-foreground">{formatTime(range.end, range)}</span>
+
+      <Select value={String(speed)} onValueChange={value => onSpeedChange(Number(value))}>
+        <SelectTrigger className="h-8 w-20" title="Playback speed">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {playbackSpeeds.map(value => (
+            <SelectItem key={value} value={String(value)}>
+              {value}×
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant={loop ? "default" : "outline"}
+        size="sm"
+        className="h-8 w-8 p-0"
+        onClick={() => onLoopChange(!loop)}
+        title="Loop"
+      >
+        <Repeat className="size-4" />
+      </Button>
+    </div>
+  );
+}
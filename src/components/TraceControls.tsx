@@ -0,0 +1,48 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { sampleTrace } from "@/lib/samples";
+import { parseTrace, type TraceStep } from "@/lib/trace";
+
+interface TraceControlsProps {
+  onLoad: (steps: TraceStep[]) => void;
+}
+
+// Load a recorded trace from a JSON file, or the built-in sample
+export function TraceControls({ onLoad }: TraceControlsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    try {
+      const result = parseTrace(JSON.parse(await file.text()));
+      if (result.error !== undefined) throw new Error(result.error);
+      onLoad(result.value);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+          e.target.value = "";
+        }}
+      />
+      <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+        Load Trace
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => onLoad(sampleTrace())}>
+        Sample Trace
+      </Button>
+      {error && <span className="text-xs text-destructive max-w-64 truncate" title={error}>{error}</span>}
+    </div>
+  );
+}
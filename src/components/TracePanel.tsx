@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { ChevronFirst, ChevronLast, ChevronLeft, ChevronRight, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useKeyDown } from "@/hooks/useKeyDown";
+import { stepIndex, type TraceStep } from "@/lib/trace";
+import { cn, isTextInput } from "@/lib/utils";
+
+interface TracePanelProps {
+  steps: TraceStep[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+// Step navigation for a loaded trace: buttons, a jump-to-step box and the
+// keyboard (←/→ or PageUp/PageDown to step, Home/End for the first and last)
+export function TracePanel({ steps, index, onIndexChange, onClose, className }: TracePanelProps) {
+  const [jump, setJump] = useState("");
+  const last = steps.length - 1;
+  const step = steps[index];
+  const go = (target: number) => onIndexChange(Math.min(Math.max(target, 0), last));
+  const jumpTarget = stepIndex(jump, steps.length);
+
+  useKeyDown(event => {
+    if (isTextInput(event.target) || event.ctrlKey || event.metaKey || event.altKey) return;
+    const target =
+      event.key === "ArrowLeft" || event.key === "PageUp" ? index - 1
+      : event.key === "ArrowRight" || event.key === "PageDown" ? index + 1
+      : event.key === "Home" ? 0
+      : event.key === "End" ? last
+      : null;
+    if (target === null) return;
+    event.preventDefault();
+    go(target);
+  });
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-2 px-4 py-2", className)}>
+      <span className="text-sm font-medium">Trace:</span>
+      <Button variant="outline" size="sm" className="h-8 w-8 p-0" onClick={() => go(0)} disabled={index === 0} title="First step (Home)">
+        <ChevronFirst className="size-4" />
+      </Button>
+      <Button variant="outline" size="sm" className="h-8 w-8 p-0" onClick={() => go(index - 1)} disabled={index === 0} title="Previous step (←)">
+        <ChevronLeft className="size-4" />
+      </Button>
+      <span className="text-sm tabular-nums whitespace-nowrap">
+        {index + 1} / {steps.length}
+      </span>
+      <Button variant="outline" size="sm" className="h-8 w-8 p-0" onClick={() => go(index + 1)} disabled={index === last} title="Next step (→)">
+        <ChevronRight className="size-4" />
+      </Button>
+      <Button variant="outline" size="sm" className="h-8 w-8 p-0" onClick={() => go(last)} disabled={index === last} title="Last step (End)">
+        <ChevronLast className="size-4" />
+      </Button>
+
+      <form
+        className="flex items-center gap-1"
+        onSubmit={e => {
+          e.preventDefault();
+          if (jumpTarget === null) return;
+          go(jumpTarget);
+          setJump("");
+        }}
+      >
+        <Input
+          value={jump}
+          onChange={e => setJump(e.target.value)}
+          placeholder="Step"
+          inputMode="numeric"
+          className="h-8 w-20"
+          aria-invalid={jump.trim() !== "" && jumpTarget === null}
+          aria-label="Jump to step"
+        />
+        <Button type="submit" variant="outline" size="sm" disabled={jumpTarget === null}>
+          Go
+        </Button>
+      </form>
+
+      <span className="text-sm font-medium truncate max-w-64" title={step.label}>
+        {step.label}
+      </span>
+      {step.log && (
+        <span className="text-xs font-mono text-muted-foreground truncate min-w-0 flex-1" title={step.log}>
+          {step.log}
+        </span>
+      )}
+
+      <Button variant="ghost" size="sm" className="ml-auto" onClick={onClose}>
+        <X className="size-4" />
+        Close Trace
+      </Button>
+    </div>
+  );
+}
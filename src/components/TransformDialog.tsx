@@ -0,0 +1,282 @@
+import { useState } from "react";
+import { useForm, type UseFormReturn } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import type { Point2D } from "@/lib/geometry";
+import {
+  formatMatrix,
+  mirrorModeLabels,
+  parametersMatrix,
+  parseMatrix,
+  type Matrix3,
+  type MirrorMode,
+} from "@/lib/transform";
+import { cn } from "@/lib/utils";
+import { useKeyDown } from "@/hooks/useKeyDown";
+
+type PivotMode = "center" | "origin" | "custom";
+
+const pivotModeLabels: Record<PivotMode, string> = {
+  center: "Selection centre",
+  origin: "Origin (0, 0)",
+  custom: "Custom point",
+};
+
+const number = z.coerce.number({ invalid_type_error: "Enter a number" }).finite("Enter a number");
+const scale = number.refine(value => value !== 0, "Scale can't be 0");
+
+const parametersSchema = z.object({
+  dx: number,
+  dy: number,
+  rotation: number,
+  uniform: z.boolean(),
+  scaleX: scale,
+  scaleY: scale,
+  mirror: z.enum(["none", "horizontal", "vertical", "both"]),
+  pivot: z.enum(["center", "origin", "custom"]),
+  pivotX: number,
+  pivotY: number,
+});
+
+type ParametersInput = z.input<typeof parametersSchema>;
+type ParametersValues = z.output<typeof parametersSchema>;
+
+const defaultParameters: ParametersInput = {
+  dx: 0,
+  dy: 0,
+  rotation: 0,
+  uniform: true,
+  scaleX: 1,
+  scaleY: 1,
+  mirror: "none",
+  pivot: "center",
+  pivotX: 0,
+  pivotY: 0,
+};
+
+const matrixSchema = z.object({
+  matrix: z.string().superRefine((text, ctx) => {
+    const { error } = parseMatrix(text);
+    if (error !== undefined) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }),
+});
+
+function toMatrix(values: ParametersValues, center: Point2D): Matrix3 {
+  const pivot = values.pivot === "center" ? center : values.pivot === "origin" ? { x: 0, y: 0 } : { x: values.pivotX, y: values.pivotY };
+  return parametersMatrix({
+    dx: values.dx,
+    dy: values.dy,
+    rotation: values.rotation,
+    scaleX: values.scaleX,
+    scaleY: values.uniform ? values.scaleX : values.scaleY,
+    mirror: values.mirror as MirrorMode,
+    pivot,
+  });
+}
+
+type NumberFieldName = "dx" | "dy" | "rotation" | "scaleX" | "scaleY" | "pivotX" | "pivotY";
+
+function NumberField({ form, name, label }: { form: UseFormReturn<ParametersInput, unknown, ParametersValues>; name: NumberFieldName; label: string }) {
+  return (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="gap-1">
+          <FormLabel className="text-xs">{label}</FormLabel>
+          <FormControl>
+            <Input type="number" step="any" className="h-8" {...field} value={field.value as number | string} />
+          </FormControl>
+          <FormMessage className="text-xs" />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+function ParametersForm({ center, onApply }: { center: Point2D; onApply: (matrix: Matrix3) => void }) {
+  const form = useForm<ParametersInput, unknown, ParametersValues>({
+    resolver: zodResolver(parametersSchema),
+    defaultValues: defaultParameters,
+  });
+  const values = form.watch();
+  const preview = parametersSchema.safeParse(values);
+
+  const submit = form.handleSubmit(parsed => {
+    onApply(toMatrix(parsed, center));
+    // Translation and rotation are one-off; scale and pivot settings are kept
+    form.reset({ ...parsed, dx: 0, dy: 0, rotation: 0, mirror: "none" });
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={submit} className="grid gap-3">
+        <div className="grid grid-cols-2 gap-2">
+          <NumberField form={form} name="dx" label="Move X" />
+          <NumberField form={form} name="dy" label="Move Y" />
+        </div>
+        <NumberField form={form} name="rotation" label="Rotate (° counter-clockwise)" />
+        <div className="grid grid-cols-2 gap-2 items-end">
+          <NumberField form={form} name="scaleX" label={values.uniform ? "Scale" : "Scale X"} />
+          {values.uniform ? (
+            <Button type="button" variant="outline" size="sm" onClick={() => form.setValue("uniform", false)} title="Scale X and Y separately">
+              Separate X/Y
+            </Button>
+          ) : (
+            <NumberField form={form} name="scaleY" label="Scale Y" />
+          )}
+        </div>
+        {!values.uniform && (
+          <Button type="button" variant="ghost" size="sm" className="justify-self-start h-7 px-2 text-xs" onClick={() => form.setValue("uniform", true)}>
+            Use one scale for both axes
+          </Button>
+        )}
+        <FormField
+          control={form.control}
+          name="mirror"
+          render={({ field }) => (
+            <FormItem className="gap-1">
+              <FormLabel className="text-xs">Mirror</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger className="h-8 w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.entries(mirrorModeLabels).map(([key, name]) => (
+                    <SelectItem key={key} value={key}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="pivot"
+          render={({ field }) => (
+            <FormItem className="gap-1">
+              <FormLabel className="text-xs">Pivot for rotate, scale and mirror</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger className="h-8 w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.entries(pivotModeLabels).map(([key, name]) => (
+                    <SelectItem key={key} value={key}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormItem>
+          )}
+        />
+        {values.pivot === "custom" && (
+          <div className="grid grid-cols-2 gap-2">
+            <NumberField form={form} name="pivotX" label="Pivot X" />
+            <NumberField form={form} name="pivotY" label="Pivot Y" />
+          </div>
+        )}
+        {preview.success && (
+          <pre className="rounded bg-muted px-2 py-1 text-[11px] font-mono" title="The combined transform as a 3×3 matrix">
+            {formatMatrix(toMatrix(preview.data, center))}
+          </pre>
+        )}
+        <Button type="submit" size="sm">
+          Apply
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+function MatrixForm({ onApply }: { onApply: (matrix: Matrix3) => void }) {
+  const form = useForm<z.infer<typeof matrixSchema>>({
+    resolver: zodResolver(matrixSchema),
+    defaultValues: { matrix: "" },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(({ matrix }) => onApply(parseMatrix(matrix).value!))} className="grid gap-3">
+        <FormField
+          control={form.control}
+          name="matrix"
+          render={({ field }) => (
+            <FormItem className="gap-1">
+              <FormLabel className="text-xs">3×3 matrix, row by row (or the top 2 rows of an affine one)</FormLabel>
+              <FormControl>
+                <Textarea
+                  {...field}
+                  placeholder={"1 0 10\n0 1 -5\n0 0 1"}
+                  className="font-mono text-xs min-h-24"
+                  spellCheck={false}
+                />
+              </FormControl>
+              <FormMessage className="text-xs" />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" size="sm">
+          Apply Matrix
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export interface TransformDialogProps {
+  // Centre of the selection, the default pivot
+  center: Point2D;
+  selectedCount: number;
+  onApply: (matrix: Matrix3) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+// Numeric transforms for the selected shapes: move, rotate, scale and mirror
+// with a chosen pivot, or a pasted matrix, e.g. to line up two local frames
+export function TransformDialog({ center, selectedCount, onApply, onClose, className }: TransformDialogProps) {
+  const [mode, setMode] = useState<"parameters" | "matrix">("parameters");
+
+  useKeyDown(event => {
+    if (event.key === "Escape") onClose();
+  });
+
+  return (
+    <Card role="dialog" aria-label="Transform" className={cn("w-72 gap-3 py-4 shadow-lg", className)}>
+      <CardHeader className="px-4 flex items-center justify-between">
+        <CardTitle className="text-sm">
+          Transform {selectedCount} shape{selectedCount === 1 ? "" : "s"}
+        </CardTitle>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose} title="Close">
+          <X className="size-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="px-4 grid gap-3">
+        <div className="flex gap-1">
+          <Button variant={mode === "parameters" ? "default" : "outline"} size="sm" className="h-7 px-2 text-xs" onClick={() => setMode("parameters")}>
+            Parameters
+          </Button>
+          <Button variant={mode === "matrix" ? "default" : "outline"} size="sm" className="h-7 px-2 text-xs" onClick={() => setMode("matrix")}>
+            Matrix
+          </Button>
+        </div>
+        {mode === "parameters" ? <ParametersForm center={center} onApply={onApply} /> : <MatrixForm onApply={onApply} />}
+      </CardContent>
+    </Card>
+  );
+}
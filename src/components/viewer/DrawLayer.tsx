@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import { Line } from "@react-three/drei";
+import { dedupeConsecutive, minimumDrawnVertices } from "@/lib/drawing";
+import type { GeometryShape, Point2D, ShapeType } from "@/lib/geometry";
+import type { SnapResult, SnapSettings } from "@/lib/snapping";
+import { selectionStyle } from "@/lib/style";
+import { isTextInput } from "@/lib/utils";
+import { useKeyDown } from "@/hooks/useKeyDown";
+import { toLinePoints } from "./lines";
+import { PointSprites } from "./PointSprites";
+import { useCanvasPointer } from "./pointer";
+import { SnapIndicator } from "./SnapIndicator";
+import { useSnap } from "./useSnap";
+
+export interface DrawLayerProps {
+  tool: ShapeType;
+  // Existing shapes, used as snap targets
+  shapes: GeometryShape[];
+  snapSettings: SnapSettings;
+  // World units per ground metre of projected geographic data, for grid snapping
+  unitsPerMeter?: number;
+  onFinish: (type: ShapeType, points: Point2D[]) => void;
+}
+
+// Click to place vertices, double-click or Enter to finish, Escape to cancel.
+// A rubber band follows the pointer from the last vertex (and back to the
+// first for polygons).
+export function DrawLayer({ tool, shapes, snapSettings, unitsPerMeter, onFinish }: DrawLayerProps) {
+  const [draft, setDraft] = useState<Point2D[]>([]);
+  const [snap, setSnap] = useState<SnapResult | null>(null);
+  const snapTo = useSnap(shapes, snapSettings, unitsPerMeter);
+  const cursor = snap?.point ?? null;
+
+  // Switching tools abandons the shape in progress
+  useEffect(() => setDraft([]), [tool]);
+
+  const finish = (points: Point2D[]) => {
+    const vertices = dedupeConsecutive(points);
+    if (vertices.length < minimumDrawnVertices[tool]) return;
+    setDraft([]);
+    onFinish(tool, vertices);
+  };
+
+  useCanvasPointer({
+    onPointerMove: ({ point }) => setSnap(snapTo(point, { extraVertices: draft })),
+    onPointerLeave: () => setSnap(null),
+    onClick: ({ point }) => {
+      const snapped = snapTo(point, { extraVertices: draft }).point;
+      setDraft(prev => [...prev, snapped]);
+    },
+    onDoubleClick: () => finish(draft),
+  });
+
+  useKeyDown(event => {
+    if (isTextInput(event.target)) return;
+    if (event.key === "Escape") setDraft([]);
+    if (event.key === "Enter") finish(draft);
+  });
+
+  if (draft.length === 0) return <SnapIndicator snap={snap} />;
+
+  const last = draft[draft.length - 1];
+  return (
+    <group>
+      <SnapIndicator snap={snap} />
+      {tool !== "points" && draft.length > 1 && (
+        <Line points={toLinePoints(draft)} color={selectionStyle.color} lineWidth={2} />
+      )}
+      {tool !== "points" && cursor && (
+        <Line
+          points={toLinePoints(tool === "polygon" && draft.length > 1 ? [last, cursor, draft[0]] : [last, cursor])}
+          color={selectionStyle.color}
+          lineWidth={1.5}
+          transparent
+          opacity={0.5}
+        />
+      )}
+      <PointSprites
+        rings={[draft]}
+        color={selectionStyle.color}
+        radius={4}
+        shape="circle"
+        shapeIndex={-1}
+        renderOrder={1000}
+      />
+    </group>
+  );
+}
@@ -0,0 +1,202 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useThree } from "@react-three/fiber";
+import { Html } from "@react-three/drei";
+import type { GeometryShape, Point2D } from "@/lib/geometry";
+import {
+  deleteVertex,
+  findEdgeAt,
+  findVertexAt,
+  getRing,
+  getRings,
+  insertVertex,
+  moveVertex,
+  replaceShape,
+  type VertexRef,
+} from "@/lib/editing";
+import type { SnapResult, SnapSettings } from "@/lib/snapping";
+import { selectionStyle } from "@/lib/style";
+import { isTextInput } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { useKeyDown } from "@/hooks/useKeyDown";
+import { PointSprites } from "./PointSprites";
+import { useCameraControls, useCanvasPointer } from "./pointer";
+import { SnapIndicator } from "./SnapIndicator";
+import { useSnap } from "./useSnap";
+
+// Screen distances for grabbing a vertex and for inserting on an edge
+const VERTEX_PIXELS = 8;
+const EDGE_PIXELS = 6;
+const HANDLE_RADIUS = 4;
+
+export interface EditLayerProps {
+  shapes: GeometryShape[];
+  selectedIds: string[];
+  // Snapping applied to dragged vertices
+  snapSettings: SnapSettings;
+  // World units per ground metre of projected geographic data, for grid snapping
+  unitsPerMeter?: number;
+  // Called with the edited shape list. `done` is false while a vertex is
+  // being dragged and true once the edit is complete.
+  onEdit: (shapes: GeometryShape[], done: boolean) => void;
+}
+
+// Vertex editing for the selected shapes: drag a vertex to move it, click an
+// edge to insert one, and press Delete/Backspace or right-click a vertex to
+// remove it.
+export function EditLayer({ shapes, selectedIds, snapSettings, unitsPerMeter, onEdit }: EditLayerProps) {
+  const { camera, gl } = useThree();
+  const controls = useCameraControls();
+  const [active, setActive] = useState<VertexRef | null>(null);
+  const [menu, setMenu] = useState<VertexRef | null>(null);
+  const dragging = useRef<VertexRef | null>(null);
+  const dragged = useRef(false);
+  const [snap, setSnap] = useState<SnapResult | null>(null);
+  const snapTo = useSnap(shapes, snapSettings, unitsPerMeter);
+
+  const selectedShapes = useMemo(
+    () => shapes.filter(shape => selectedIds.includes(shape.id)),
+    [shapes, selectedIds]
+  );
+
+  // Forget vertices of shapes that are no longer selected
+  useEffect(() => {
+    if (active && !selectedIds.includes(active.shapeId)) setActive(null);
+    if (menu && !selectedIds.includes(menu.shapeId)) setMenu(null);
+  }, [selectedIds, active, menu]);
+
+  const vertexAt = (point: Point2D): VertexRef | null => {
+    for (let i = selectedShapes.length - 1; i >= 0; i--) {
+      const hit = findVertexAt(selectedShapes[i], point, VERTEX_PIXELS / camera.zoom);
+      if (hit) return { shapeId: selectedShapes[i].id, ...hit };
+    }
+    return null;
+  };
+
+  const edgeAt = (point: Point2D) => {
+    for (let i = selectedShapes.length - 1; i >= 0; i--) {
+      const hit = findEdgeAt(selectedShapes[i], point, EDGE_PIXELS / camera.zoom);
+      if (hit) return { shape: selectedShapes[i], ...hit };
+    }
+    return null;
+  };
+
+  const removeVertex = (ref: VertexRef) => {
+    const shape = shapes.find(s => s.id === ref.shapeId);
+    const edited = shape && deleteVertex(shape, ref.ring, ref.index);
+    setMenu(null);
+    setActive(null);
+    if (edited) onEdit(replaceShape(shapes, edited), true);
+  };
+
+  const endDrag = () => {
+    if (controls) controls.enabled = true;
+    const wasDragged = dragged.current;
+    dragging.current = null;
+    dragged.current = false;
+    setSnap(null);
+    if (wasDragged) onEdit(shapes, true);
+  };
+
+  // Restore the camera controls if the layer goes away mid-drag
+  useEffect(() => () => {
+    if (controls) controls.enabled = true;
+    gl.domElement.style.cursor = "";
+  }, [controls, gl]);
+
+  useCanvasPointer({
+    onPointerDown: ({ point, event }) => {
+      if (event.button !== 0 || event.shiftKey) return;
+      const vertex = vertexAt(point);
+      setMenu(null);
+      if (!vertex) return;
+      // Keep the camera still while the vertex follows the pointer
+      if (controls) controls.enabled = false;
+      dragging.current = vertex;
+      setActive(vertex);
+    },
+    onPointerMove: ({ point }) => {
+      const drag = dragging.current;
+      if (drag) {
+        const shape = shapes.find(s => s.id === drag.shapeId);
+        if (!shape) return;
+        dragged.current = true;
+        const snapped = snapTo(point, { exclude: drag });
+        setSnap(snapped);
+        onEdit(replaceShape(shapes, moveVertex(shape, drag.ring, drag.index, snapped.point)), false);
+        return;
+      }
+      gl.domElement.style.cursor = vertexAt(point) ? "move" : edgeAt(point) ? "copy" : "";
+    },
+    onPointerUp: () => {
+      if (dragging.current) endDrag();
+    },
+    onPointerLeave: () => {
+      gl.domElement.style.cursor = "";
+    },
+    onClick: ({ point, event }) => {
+      if (event.shiftKey || event.ctrlKey || event.metaKey || vertexAt(point)) return;
+      const edge = edgeAt(point);
+      if (!edge) return;
+      const edited = insertVertex(edge.shape, edge.ring, edge.index, edge.point);
+      onEdit(replaceShape(shapes, edited), true);
+      setActive({ shapeId: edge.shape.id, ring: edge.ring, index: edge.index });
+    },
+    // Right-clicking a vertex opens a small menu; elsewhere the browser menu is left alone
+    onContextMenu: ({ point, event }) => {
+      const vertex = vertexAt(point);
+      if (!vertex) return;
+      event.preventDefault();
+      setActive(vertex);
+      setMenu(vertex);
+    },
+  });
+
+  useKeyDown(event => {
+    if (isTextInput(event.target) || !active) return;
+    if (event.key === "Delete" || event.key === "Backspace") {
+      event.preventDefault();
+      removeVertex(active);
+    }
+  });
+
+  const activeShape = active && shapes.find(s => s.id === active.shapeId);
+  const activePoint = activeShape ? getRing(activeShape, active!.ring)[active!.index] : undefined;
+  const menuShape = menu && shapes.find(s => s.id === menu.shapeId);
+  const menuPoint = menuShape ? getRing(menuShape, menu!.ring)[menu!.index] : undefined;
+
+  return (
+    <group>
+      {/* Square handles on every vertex of the selected shapes */}
+      {selectedShapes.map((shape, index) => (
+        <PointSprites
+          key={shape.id}
+          rings={getRings(shape)}
+          version={shape.version}
+          color={selectionStyle.color}
+          radius={HANDLE_RADIUS}
+          shape="square"
+          shapeIndex={index}
+          renderOrder={1000}
+        />
+      ))}
+
+      <SnapIndicator snap={snap} />
+
+      {activePoint && (
+        <Html position={[activePoint.x, activePoint.y, 0]} center style={{ pointerEvents: "none" }}>
+          <div className="h-4 w-4 rounded-sm border-2 border-blue-600 bg-background/40" />
+        </Html>
+      )}
+
+      {menu && menuPoint && (
+        <Html position={[menuPoint.x, menuPoint.y, 0]} style={{ transform: "translate(8px, 8px)" }}>
+          <div className="rounded-md border border-border bg-popover p-1 shadow-md">
+            <Button variant="ghost" size="sm" onClick={() => removeVertex(menu)}>
+              Delete vertex
+            </Button>
+          </div>
+        </Html>
+      )}
+    </group>
+  );
+}
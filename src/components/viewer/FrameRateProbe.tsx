@@ -0,0 +1,21 @@
+import { useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+
+// Counts rendered frames and reports the average frame rate every `interval` ms
+export function FrameRateProbe({ onSample, interval = 500 }: { onSample: (fps: number) => void; interval?: number }) {
+  const frames = useRef(0);
+  const windowStart = useRef(performance.now());
+
+  useFrame(() => {
+    frames.current++;
+    const now = performance.now();
+    const elapsed = now - windowStart.current;
+    if (elapsed >= interval) {
+      onSample((frames.current * 1000) / elapsed);
+      frames.current = 0;
+      windowStart.current = now;
+    }
+  });
+
+  return null;
+}
@@ -0,0 +1,161 @@
+import React, { useEffect, useLayoutEffect, useMemo } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import { openRing } from "@/lib/analytics";
+import type { GeometryShape, Point2D } from "@/lib/geometry";
+import { resolveShapeStyle, selectionStyle, type ResolvedShapeStyle } from "@/lib/style";
+import { OutlineBuffer } from "./buffers";
+import { PointSprites } from "./PointSprites";
+import type { PointHoverInfo } from "./types";
+
+interface GeometryLineProps {
+  shape: GeometryShape;
+  shapeIndex: number;
+  showPoints?: boolean;
+  showFill?: boolean;
+  // Draws a highlight halo behind the shape
+  selected?: boolean;
+  onPointHover?: (info: PointHoverInfo | null) => void;
+}
+
+// Add the outline of a ring to a THREE path. Rings may or may not repeat
+// their first point at the end; only an actual repeat is dropped. Non-finite
+// points (reported by the validator) are left out so triangulation still
+// works. Returns false when fewer than 3 points are left.
+function addRingToPath(path: THREE.Path, ring: Point2D[]): boolean {
+  const points = openRing(ring.filter(p => Number.isFinite(p.x) && Number.isFinite(p.y)));
+  if (points.length < 3) return false;
+  path.moveTo(points[0].x, points[0].y);
+  for (let i = 1; i < points.length; i++) {
+    path.lineTo(points[i].x, points[i].y);
+  }
+  return true;
+}
+
+// For polygons, close the line by adding the first point to the end if not already closed
+function closeRing(ring: Point2D[]): Point2D[] {
+  if (ring.length <= 2) return ring;
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return first.x !== last.x || first.y !== last.y ? [...ring, first] : ring;
+}
+
+// Screen-space line with real pixel width and an optional dash pattern
+function ShapeOutline({ points, version, style, opacity = 1, renderOrder = 2 }: { points: Point2D[], version?: number, style: ResolvedShapeStyle, opacity?: number, renderOrder?: number }) {
+  const outline = useMemo(() => new OutlineBuffer(), []);
+
+  useEffect(() => () => outline.dispose(), [outline]);
+
+  useLayoutEffect(() => {
+    outline.update(points);
+  }, [outline, points, version]);
+
+  useLayoutEffect(() => {
+    outline.setStyle(style.strokeColor, style.strokeWidth, style.dash, opacity);
+  }, [outline, style.strokeColor, style.strokeWidth, style.dash?.[0], style.dash?.[1], opacity]);
+
+  useFrame(({ camera, size }) => {
+    outline.material.resolution.set(size.width, size.height);
+    // LineMaterial measures dashes in world units; scaling by zoom keeps them in pixels
+    if (style.dash && camera instanceof THREE.OrthographicCamera) {
+      outline.material.dashScale = camera.zoom;
+    }
+  });
+
+  return <primitive object={outline.line} renderOrder={renderOrder} />;
+}
+
+// Renders one shape. Buffers are cached per shape and keyed on the identity of
+// its point arrays and its `version`, so hover changes and unrelated shape
+// updates don't touch the GPU, and edits only re-upload what changed.
+export const GeometryLine = React.memo(function GeometryLine({ shape, shapeIndex, showPoints = true, showFill = false, selected = false, onPointHover }: GeometryLineProps) {
+  const { points, type, version } = shape;
+  const style = useMemo(() => resolveShapeStyle(shape), [shape.id, shape.style]);
+  const haloStyle = useMemo(
+    (): ResolvedShapeStyle => ({
+      ...style,
+      strokeColor: selectionStyle.color,
+      strokeWidth: style.strokeWidth + selectionStyle.haloWidth,
+      dash: undefined,
+    }),
+    [style]
+  );
+
+  // Outer ring first, then any holes
+  const vertexRings = useMemo(
+    () => (type === "polygon" ? [points, ...(shape.holes ?? [])] : [points]),
+    [type, points, shape.holes]
+  );
+
+  // Polygon outlines are drawn closed; point sets have no outline
+  const outlineRings = useMemo(
+    () => (type === "points" ? [] : type === "polygon" ? vertexRings.map(closeRing) : vertexRings),
+    [type, vertexRings]
+  );
+
+  // Create fill geometry for polygons, cutting out the holes
+  const fillGeometry = useMemo(() => {
+    if (type !== "polygon" || !showFill) return null;
+    const shape3D = new THREE.Shape();
+    if (!addRingToPath(shape3D, points)) return null;
+    for (const hole of vertexRings.slice(1)) {
+      const holePath = new THREE.Path();
+      if (addRingToPath(holePath, hole)) shape3D.holes.push(holePath);
+    }
+    return new THREE.ShapeGeometry(shape3D);
+  }, [type, showFill, points, vertexRings, version]);
+
+  useEffect(() => () => fillGeometry?.dispose(), [fillGeometry]);
+
+  return (
+    <group>
+      {/* Selection halo, drawn beneath the outline */}
+      {selected && outlineRings.map((ring, ringIndex) => (
+        <ShapeOutline
+          key={`halo-${ringIndex}`}
+          points={ring}
+          version={version}
+          style={haloStyle}
+          opacity={selectionStyle.opacity}
+          renderOrder={1}
+        />
+      ))}
+      {selected && type === "points" && (
+        <PointSprites
+          rings={vertexRings}
+          version={version}
+          color={selectionStyle.color}
+          radius={style.pointRadius + selectionStyle.pointHalo}
+          shape={style.pointShape}
+          shapeIndex={shapeIndex}
+          renderOrder={998}
+        />
+      )}
+
+      {/* Outline for each polygon ring, or the polyline */}
+      {outlineRings.map((ring, ringIndex) => (
+        <ShapeOutline key={ringIndex} points={ring} version={version} style={style} />
+      ))}
+      
+      {/* Fill for polygons */}
+      {fillGeometry && (
+        <mesh geometry={fillGeometry}>
+          <meshBasicMaterial color={style.fillColor} opacity={style.fillOpacity} transparent />
+        </mesh>
+      )}
+      
+      {/* Points */}
+      {(showPoints || type === "points") && (
+        <PointSprites
+          rings={vertexRings}
+          version={version}
+          color={style.strokeColor}
+          radius={style.pointRadius}
+          shape={style.pointShape}
+          shapeIndex={shapeIndex}
+          onPointHover={onPointHover}
+        />
+      )}
+    </group>
+  );
+});
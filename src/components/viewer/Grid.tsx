@@ -0,0 +1,156 @@
+import { useEffect, useMemo, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import { formatGridDistance, formatGridValue, gridSpacing, gridValues } from "@/lib/grid";
+import { computeViewport, useViewport, worldPerPixel, type Viewport, type ViewportStore } from "./viewport";
+
+const MINOR_COLOR = "#f3f4f6";
+const MAJOR_COLOR = "#e5e7eb";
+const AXIS_COLOR = "#374151";
+
+// LineSegments whose vertex buffer is rewritten whenever the view changes
+class SegmentBuffer {
+  readonly geometry = new THREE.BufferGeometry();
+  readonly object: THREE.LineSegments;
+  private capacity = 0;
+
+  constructor(color: string, renderOrder: number) {
+    this.object = new THREE.LineSegments(this.geometry, new THREE.LineBasicMaterial({ color }));
+    this.object.renderOrder = renderOrder;
+    // The segments always span the view, so they are never culled
+    this.object.frustumCulled = false;
+  }
+
+  // `segments` holds x1, y1, x2, y2 per segment
+  set(segments: number[]) {
+    const count = segments.length / 4;
+    if (count > this.capacity) {
+      this.capacity = Math.max(count, this.capacity * 2, 64);
+      const attribute = new THREE.BufferAttribute(new Float32Array(this.capacity * 6), 3);
+      attribute.setUsage(THREE.DynamicDrawUsage);
+      this.geometry.setAttribute("position", attribute);
+    }
+    const attribute = this.geometry.getAttribute("position") as THREE.BufferAttribute;
+    const array = attribute.array as Float32Array;
+    for (let i = 0; i < count; i++) {
+      array.set([segments[i * 4], segments[i * 4 + 1], 0, segments[i * 4 + 2], segments[i * 4 + 3], 0], i * 6);
+    }
+    attribute.needsUpdate = true;
+    this.geometry.setDrawRange(0, count * 2);
+  }
+
+  dispose() {
+    this.geometry.dispose();
+    (this.object.material as THREE.Material).dispose();
+  }
+}
+
+function useSegmentBuffer(color: string, renderOrder: number): SegmentBuffer {
+  const buffer = useMemo(() => new SegmentBuffer(color, renderOrder), [color, renderOrder]);
+  useEffect(() => () => buffer.dispose(), [buffer]);
+  return buffer;
+}
+
+function viewKey(viewport: Viewport): string {
+  return `${viewport.minX},${viewport.minY},${viewport.maxX},${viewport.maxY},${viewport.width}`;
+}
+
+// Grid covering the whole viewport. Spacing follows the zoom in 1/2/5 × 10ⁿ
+// steps, with lighter minor lines between the major ones. With
+// `unitsPerMeter` (projected geographic data) the steps are ground metres.
+export function Grid({ unitsPerMeter = 1 }: { unitsPerMeter?: number }) {
+  const minor = useSegmentBuffer(MINOR_COLOR, 0);
+  const major = useSegmentBuffer(MAJOR_COLOR, 0);
+  const lastKey = useRef("");
+
+  useFrame(({ camera, size }) => {
+    const viewport = computeViewport(camera, size.width, size.height);
+    if (!viewport) return;
+    const key = `${viewKey(viewport)},${unitsPerMeter}`;
+    if (key === lastKey.current) return;
+    lastKey.current = key;
+
+    const spacing = gridSpacing(worldPerPixel(viewport) / unitsPerMeter);
+    const { minX, minY, maxX, maxY } = viewport;
+    const minorSegments: number[] = [];
+    const majorSegments: number[] = [];
+    // Minor lines that land on a major line are drawn once, as major
+    const isMajor = (value: number) => Math.abs(value / spacing.major - Math.round(value / spacing.major)) < 1e-6;
+
+    for (const value of gridValues(minX / unitsPerMeter, maxX / unitsPerMeter, spacing.minor)) {
+      const x = value * unitsPerMeter;
+      (isMajor(value) ? majorSegments : minorSegments).push(x, minY, x, maxY);
+    }
+    for (const value of gridValues(minY / unitsPerMeter, maxY / unitsPerMeter, spacing.minor)) {
+      const y = value * unitsPerMeter;
+      (isMajor(value) ? majorSegments : minorSegments).push(minX, y, maxX, y);
+    }
+    minor.set(minorSegments);
+    major.set(majorSegments);
+  });
+
+  return (
+    <group>
+      <primitive object={minor.object} />
+      <primitive object={major.object} />
+    </group>
+  );
+}
+
+// X and Y axes drawn across the visible area, whatever the zoom or pan
+export function AxisLines() {
+  const axes = useSegmentBuffer(AXIS_COLOR, 1);
+
+  useFrame(({ camera, size }) => {
+    const viewport = computeViewport(camera, size.width, size.height);
+    if (!viewport) return;
+    const { minX, minY, maxX, maxY } = viewport;
+    axes.set([minX, 0, maxX, 0, 0, minY, 0, maxY]);
+  });
+
+  return <primitive object={axes.object} />;
+}
+
+// Keep labels clear of the corner where the two edges meet
+const CORNER_GAP = 40;
+
+// Coordinate labels for the major grid lines, along the bottom and left
+// edges. With `unitsPerMeter` they read as distances from the origin.
+export function GridLabels({ store, unitsPerMeter }: { store: ViewportStore; unitsPerMeter?: number }) {
+  const viewport = useViewport(store);
+  if (!viewport) return null;
+
+  const { minX, minY, maxX, maxY, width, height } = viewport;
+  const scale = unitsPerMeter ?? 1;
+  const { major } = gridSpacing(worldPerPixel(viewport) / scale);
+  const format = (value: number) => (unitsPerMeter ? formatGridDistance(value, major) : formatGridValue(value, major));
+  const toScreenX = (x: number) => ((x - minX) / (maxX - minX)) * width;
+  const toScreenY = (y: number) => ((maxY - y) / (maxY - minY)) * height;
+
+  return (
+    <div className="pointer-events-none absolute inset-0 overflow-hidden text-[10px] text-muted-foreground tabular-nums select-none">
+      {gridValues(minX / scale, maxX / scale, major)
+        .filter(x => toScreenX(x * scale) > CORNER_GAP)
+        .map(x => (
+          <span
+            key={`x${x}`}
+            className="absolute bottom-1 -translate-x-1/2"
+            style={{ left: toScreenX(x * scale) }}
+          >
+            {format(x)}
+          </span>
+        ))}
+      {gridValues(minY / scale, maxY / scale, major)
+        .filter(y => toScreenY(y * scale) < height - CORNER_GAP / 2)
+        .map(y => (
+          <span
+            key={`y${y}`}
+            className="absolute left-1 -translate-y-1/2"
+            style={{ top: toScreenY(y * scale) }}
+          >
+            {format(y)}
+          </span>
+        ))}
+    </div>
+  );
+}
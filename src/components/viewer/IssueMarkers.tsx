@@ -0,0 +1,36 @@
+import { useMemo } from "react";
+import type { Point2D } from "@/lib/geometry";
+import type { GeometryIssue } from "@/lib/validation";
+import { PointSprites } from "./PointSprites";
+
+const ISSUE_COLOR = "#ef4444";
+const HIGHLIGHT_COLOR = "#f59e0b";
+
+interface IssueMarkersProps {
+  issues: GeometryIssue[];
+  // Issue hovered in the issues list, drawn larger on top
+  highlighted?: GeometryIssue | null;
+}
+
+// A diamond at each validation issue, one draw call for all of them
+export function IssueMarkers({ issues, highlighted }: IssueMarkersProps) {
+  const rings = useMemo(
+    () => [issues.map(issue => issue.location).filter((location): location is Point2D => location !== null)],
+    [issues]
+  );
+  return (
+    <group position={[0, 0, 0.6]}>
+      <PointSprites rings={rings} color={ISSUE_COLOR} radius={6} shape="diamond" shapeIndex={-1} renderOrder={1001} />
+      {highlighted?.location && (
+        <PointSprites
+          rings={[[highlighted.location]]}
+          color={HIGHLIGHT_COLOR}
+          radius={10}
+          shape="diamond"
+          shapeIndex={-1}
+          renderOrder={1002}
+        />
+      )}
+    </group>
+  );
+}
@@ -0,0 +1,171 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { useThree } from "@react-three/fiber";
+import { Html, Line } from "@react-three/drei";
+import { dedupeConsecutive } from "@/lib/drawing";
+import type { GeometryShape, Point2D } from "@/lib/geometry";
+import {
+  findPolygonAt,
+  formatMeasurement,
+  measureToolClicks,
+  measurementValue,
+  nearestVertex,
+  ringCentroid,
+  type MeasureFormat,
+  type MeasureFunction,
+  type MeasureTool,
+  type Measurement,
+} from "@/lib/measure";
+import { useKeyDown } from "@/hooks/useKeyDown";
+import { toLinePoints } from "./lines";
+import { useCanvasPointer } from "./pointer";
+
+const MEASURE_COLOR = "#f59e0b";
+// Screen distance within which clicks snap to a vertex
+const SNAP_PIXELS = 10;
+
+function MeasureLabel({ position, children }: { position: Point2D; children: ReactNode }) {
+  return (
+    <Html position={[position.x, position.y, 0]} center style={{ pointerEvents: "none" }}>
+      <div className="whitespace-nowrap rounded border border-amber-500/60 bg-background/90 px-1.5 py-0.5 text-xs font-mono shadow-sm select-none">
+        {children}
+      </div>
+    </Html>
+  );
+}
+
+// Where a measurement's value is shown
+function labelPosition(measurement: Pick<Measurement, "tool" | "points">): Point2D {
+  const { tool, points } = measurement;
+  switch (tool) {
+    case "distance":
+      return { x: (points[0].x + points[1].x) / 2, y: (points[0].y + points[1].y) / 2 };
+    case "path":
+      return points[points.length - 1];
+    case "angle":
+      return points[1];
+    case "area":
+      return ringCentroid(points);
+  }
+}
+
+function MeasurementAnnotation({ measurement, format }: { measurement: Measurement; format: MeasureFormat }) {
+  const { tool, points, holes } = measurement;
+  return (
+    <group>
+      <Line points={toLinePoints(points, tool === "area")} color={MEASURE_COLOR} lineWidth={2} />
+      {holes?.map((hole, i) => (
+        <Line key={i} points={toLinePoints(hole, true)} color={MEASURE_COLOR} lineWidth={2} />
+      ))}
+      <MeasureLabel position={labelPosition(measurement)}>
+        {formatMeasurement(tool, measurement.value, format)}
+      </MeasureLabel>
+    </group>
+  );
+}
+
+export interface MeasureLayerProps {
+  shapes: GeometryShape[];
+  // Active tool; when null the layer only shows finished measurements
+  tool: MeasureTool | null;
+  measurements: Measurement[];
+  onMeasure: (measurement: Omit<Measurement, "id">) => void;
+  format: MeasureFormat;
+  // Defaults to planar measurement in world units
+  measure?: MeasureFunction;
+}
+
+// Measurement annotations plus the click handling that creates them. Clicks
+// snap to the nearest vertex; Enter or a double click finishes a path and
+// Escape cancels the measurement in progress.
+export function MeasureLayer({ shapes, tool, measurements, onMeasure, format, measure = measurementValue }: MeasureLayerProps) {
+  const camera = useThree(state => state.camera);
+  const [draft, setDraft] = useState<Point2D[]>([]);
+  const [cursor, setCursor] = useState<Point2D | null>(null);
+  const [snapped, setSnapped] = useState(false);
+
+  // Switching tools abandons the measurement in progress
+  useEffect(() => {
+    setDraft([]);
+    setCursor(null);
+  }, [tool]);
+
+  const finish = (tool: MeasureTool, points: Point2D[], holes?: Point2D[][]) => {
+    setDraft([]);
+    onMeasure({ tool, points, holes, value: measure(tool, points, holes) });
+  };
+
+  const finishPath = () => {
+    // A double click also registers as two clicks on the same spot
+    const points = dedupeConsecutive(draft);
+    if (points.length >= 2) finish("path", points);
+    else setDraft([]);
+  };
+
+  useKeyDown(event => {
+    if (event.key === "Escape") setDraft([]);
+    if (event.key === "Enter" && tool === "path") finishPath();
+  }, tool !== null);
+
+  const hoveredPolygon = tool === "area" && cursor ? findPolygonAt(shapes, cursor) : undefined;
+
+  const snap = (point: Point2D): { point: Point2D; snapped: boolean } => {
+    const vertex = nearestVertex(shapes, point, SNAP_PIXELS / camera.zoom);
+    return vertex ? { point: { x: vertex.x, y: vertex.y }, snapped: true } : { point, snapped: false };
+  };
+
+  useCanvasPointer({
+    onPointerMove: ({ point }) => {
+      const result = tool === "area" ? { point, snapped: false } : snap(point);
+      setCursor(result.point);
+      setSnapped(result.snapped);
+    },
+    onPointerLeave: () => setCursor(null),
+    onClick: ({ point }) => {
+      if (!tool) return;
+      if (tool === "area") {
+        const polygon = findPolygonAt(shapes, point);
+        if (polygon) finish("area", polygon.points, polygon.holes);
+        return;
+      }
+      const points = [...draft, snap(point).point];
+      if (points.length === measureToolClicks[tool]) finish(tool, points);
+      else setDraft(points);
+    },
+    onDoubleClick: () => {
+      if (tool === "path") finishPath();
+    },
+  }, tool !== null);
+
+  const preview = cursor && draft.length > 0 ? [...draft, cursor] : draft;
+  // An angle has no value until its third point
+  const showPreviewLabel = tool !== "angle" || preview.length === 3;
+
+  return (
+    <group>
+      {measurements.map(measurement => (
+        <MeasurementAnnotation key={measurement.id} measurement={measurement} format={format} />
+      ))}
+
+      {tool && preview.length >= 2 && (
+        <group>
+          <Line points={toLinePoints(preview)} color={MEASURE_COLOR} lineWidth={1.5} transparent opacity={0.7} />
+          {showPreviewLabel && (
+            <MeasureLabel position={labelPosition({ tool, points: preview })}>
+              {formatMeasurement(tool, measure(tool, preview), format)}
+            </MeasureLabel>
+          )}
+        </group>
+      )}
+
+      {hoveredPolygon && (
+        <Line points={toLinePoints(hoveredPolygon.points, true)} color={MEASURE_COLOR} lineWidth={1.5} transparent opacity={0.7} />
+      )}
+
+      {tool && cursor && snapped && (
+        <Html position={[cursor.x, cursor.y, 0]} center style={{ pointerEvents: "none" }}>
+          <div className="h-3 w-3 rounded-full border-2 border-amber-500" />
+        </Html>
+      )}
+    </group>
+  );
+}
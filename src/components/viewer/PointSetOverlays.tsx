@@ -0,0 +1,86 @@
+import { useMemo } from "react";
+import { Line } from "@react-three/drei";
+import type { Point2D } from "@/lib/geometry";
+import {
+  circlePolygon,
+  convexHull,
+  delaunay,
+  minimumBoundingRectangle,
+  minimumEnclosingCircle,
+  triangulationEdges,
+  voronoiCells,
+  type OverlayKind,
+} from "@/lib/pointSets";
+import { toLinePoints, type LinePoints } from "./lines";
+import { useViewport, type ViewportStore } from "./viewport";
+
+export const overlayColors: Record<OverlayKind, string> = {
+  hull: "#8b5cf6",
+  delaunay: "#0ea5e9",
+  voronoi: "#f97316",
+  rectangle: "#14b8a6",
+  circle: "#e11d48",
+};
+
+// Segment pairs for drei's <Line segments>, one draw call per overlay
+function segmentPoints(rings: Point2D[][]): LinePoints {
+  const segments: LinePoints = [];
+  for (const ring of rings) {
+    ring.forEach((p, i) => {
+      const q = ring[(i + 1) % ring.length];
+      segments.push([p.x, p.y, 0], [q.x, q.y, 0]);
+    });
+  }
+  return segments;
+}
+
+function VoronoiOverlay({ triangulation, store }: { triangulation: ReturnType<typeof delaunay>; store: ViewportStore }) {
+  const viewport = useViewport(store);
+  const segments = useMemo(() => {
+    if (!viewport) return [];
+    return segmentPoints(voronoiCells(triangulation, viewport).filter(cell => cell.length >= 3));
+  }, [triangulation, viewport]);
+  if (segments.length === 0) return null;
+  return <Line points={segments} segments color={overlayColors.voronoi} lineWidth={1} />;
+}
+
+interface PointSetOverlaysProps {
+  points: Point2D[];
+  overlays: Set<OverlayKind>;
+  // The Voronoi diagram is clipped to the visible area
+  viewportStore: ViewportStore;
+}
+
+// Hull, Delaunay, Voronoi and minimum bounding shapes of a point set. Each is
+// only computed while shown.
+export function PointSetOverlays({ points, overlays, viewportStore }: PointSetOverlaysProps) {
+  const showTriangulation = overlays.has("delaunay") || overlays.has("voronoi");
+  const triangulation = useMemo(() => (showTriangulation ? delaunay(points) : null), [points, showTriangulation]);
+  const hull = useMemo(() => (overlays.has("hull") ? convexHull(points) : null), [points, overlays]);
+  const rectangle = useMemo(() => (overlays.has("rectangle") ? minimumBoundingRectangle(points) : null), [points, overlays]);
+  const circle = useMemo(() => {
+    if (!overlays.has("circle")) return null;
+    const found = minimumEnclosingCircle(points);
+    return found ? circlePolygon(found, 128) : null;
+  }, [points, overlays]);
+  const triangleEdges = useMemo(() => {
+    if (!triangulation || !overlays.has("delaunay")) return [];
+    return triangulationEdges(triangulation).flatMap(([a, b]): LinePoints => {
+      const p = triangulation.points[a];
+      const q = triangulation.points[b];
+      return [[p.x, p.y, 0], [q.x, q.y, 0]];
+    });
+  }, [triangulation, overlays]);
+
+  return (
+    <group position={[0, 0, 0.4]}>
+      {triangleEdges.length > 0 && <Line points={triangleEdges} segments color={overlayColors.delaunay} lineWidth={1} />}
+      {triangulation && overlays.has("voronoi") && <VoronoiOverlay triangulation={triangulation} store={viewportStore} />}
+      {hull && hull.length >= 2 && <Line points={toLinePoints(hull, true)} color={overlayColors.hull} lineWidth={2} />}
+      {rectangle && rectangle.length >= 3 && (
+        <Line points={toLinePoints(rectangle, true)} color={overlayColors.rectangle} lineWidth={2} dashed dashSize={6} gapSize={4} />
+      )}
+      {circle && <Line points={toLinePoints(circle, true)} color={overlayColors.circle} lineWidth={2} />}
+    </group>
+  );
+}
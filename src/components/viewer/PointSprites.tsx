@@ -0,0 +1,155 @@
+import { useEffect, useLayoutEffect, useMemo, useRef } from "react";
+import { useThree, type ThreeEvent } from "@react-three/fiber";
+import * as THREE from "three";
+import type { Point2D } from "@/lib/geometry";
+import type { PointShape } from "@/lib/style";
+import { PointBuffer } from "./buffers";
+import type { PointHoverInfo } from "./types";
+
+const shapeCodes: Record<PointShape, number> = {
+  circle: 0,
+  square: 1,
+  diamond: 2,
+  triangle: 3,
+};
+
+const vertexShader = /* glsl */ `
+  uniform float size;
+
+  void main() {
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    // No size attenuation: sprites stay the same size on screen at any zoom
+    gl_PointSize = size;
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  uniform vec3 color;
+  uniform int shape;
+
+  void main() {
+    // Sprite coordinates in [-1, 1] with y pointing up
+    vec2 p = vec2(gl_PointCoord.x * 2.0 - 1.0, 1.0 - gl_PointCoord.y * 2.0);
+
+    if (shape == 0 && dot(p, p) > 1.0) discard;
+    if (shape == 1 && max(abs(p.x), abs(p.y)) > 0.7071) discard;
+    if (shape == 2 && abs(p.x) + abs(p.y) > 1.0) discard;
+    if (shape == 3 && (p.y < -0.5 || abs(p.x) > (1.0 - p.y) * 0.57735)) discard;
+
+    gl_FragColor = vec4(color, 1.0);
+    #include <colorspace_fragment>
+  }
+`;
+
+interface PointSpritesProps {
+  // Vertex rings of one shape; hover info reports the ring and index within it
+  rings: Point2D[][];
+  // Bumped when the rings were changed in place
+  version?: number;
+  color: string;
+  // Marker radius in screen pixels
+  radius: number;
+  shape: PointShape;
+  shapeIndex: number;
+  renderOrder?: number;
+  onPointHover?: (info: PointHoverInfo | null) => void;
+}
+
+// Draws every vertex of a shape as one THREE.Points draw call with
+// screen-sized sprites, so clouds of hundreds of thousands of points stay fast
+export function PointSprites({ rings, version, color, radius, shape, shapeIndex, renderOrder = 999, onPointHover }: PointSpritesProps) {
+  const pointsRef = useRef<THREE.Points>(null);
+  const { camera, gl } = useThree();
+  const buffer = useMemo(() => new PointBuffer(), []);
+
+  useEffect(() => () => buffer.dispose(), [buffer]);
+
+  // Only the changed range is re-uploaded; the geometry object is swapped
+  // when the buffer has to grow
+  useLayoutEffect(() => {
+    buffer.update(rings);
+    if (pointsRef.current) pointsRef.current.geometry = buffer.geometry;
+  }, [buffer, rings, version]);
+
+  // Offset in the flat buffer where each ring starts
+  const ringOffsets = useMemo(() => {
+    const offsets: number[] = [];
+    let offset = 0;
+    for (const ring of rings) {
+      offsets.push(offset);
+      offset += ring.length;
+    }
+    return offsets;
+  }, [rings, version]);
+
+  const material = useMemo(
+    () =>
+      new THREE.ShaderMaterial({
+        uniforms: {
+          color: { value: new THREE.Color() },
+          size: { value: 1 },
+          shape: { value: 0 },
+        },
+        vertexShader,
+        fragmentShader,
+      }),
+    []
+  );
+
+  useEffect(() => () => material.dispose(), [material]);
+
+  useLayoutEffect(() => {
+    material.uniforms.color.value.set(color);
+    material.uniforms.size.value = radius * 2 * gl.getPixelRatio();
+    material.uniforms.shape.value = shapeCodes[shape];
+  }, [material, color, radius, shape, gl]);
+
+  // Hit-test against the visible sprite: the pick threshold is the marker
+  // radius converted from pixels to world units at the current zoom
+  useLayoutEffect(() => {
+    const points = pointsRef.current;
+    if (!points) return;
+    points.raycast = (raycaster, intersects) => {
+      const previous = raycaster.params.Points.threshold;
+      const zoom = camera instanceof THREE.OrthographicCamera ? camera.zoom : 1;
+      raycaster.params.Points.threshold = radius / zoom;
+      const hits: THREE.Intersection[] = [];
+      THREE.Points.prototype.raycast.call(points, raycaster, hits);
+      raycaster.params.Points.threshold = previous;
+
+      // Report only the sprite closest to the cursor
+      let closest: THREE.Intersection | undefined;
+      for (const hit of hits) {
+        if (!closest || hit.distanceToRay! < closest.distanceToRay!) closest = hit;
+      }
+      if (closest) intersects.push(closest);
+    };
+  }, [camera, radius]);
+
+  const handleHover = (e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    if (!onPointHover || e.index === undefined) return;
+
+    // Map the flat buffer index back to its ring
+    let ring = ringOffsets.length - 1;
+    while (ring > 0 && ringOffsets[ring] > e.index) ring--;
+    const index = e.index - ringOffsets[ring];
+    onPointHover({ point: rings[ring][index], index, ring, mouse: [e.clientX, e.clientY], shapeIndex });
+  };
+
+  return (
+    <points
+      ref={pointsRef}
+      geometry={buffer.geometry}
+      material={material}
+      renderOrder={renderOrder}
+      // Without a hover callback the sprites don't take part in picking
+      onPointerOver={onPointHover && handleHover}
+      onPointerMove={onPointHover && handleHover}
+      onPointerOut={onPointHover && (e => {
+        e.stopPropagation();
+        onPointHover(null);
+      })}
+    />
+  );
+}
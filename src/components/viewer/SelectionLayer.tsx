@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { useThree } from "@react-three/fiber";
+import { Line } from "@react-three/drei";
+import type { GeometryShape, Point2D } from "@/lib/geometry";
+import { hitTestShapes, shapesInBox } from "@/lib/hitTest";
+import { selectionModeFromEvent, type SelectionMode } from "@/lib/selection";
+import { selectionStyle } from "@/lib/style";
+import { CLICK_TOLERANCE, useCanvasPointer } from "./pointer";
+
+// Screen distance within which a click hits an edge or point marker
+const HIT_PIXELS = 6;
+
+export interface SelectionLayerProps {
+  shapes: GeometryShape[];
+  onSelect: (ids: string[], mode: SelectionMode) => void;
+  enabled?: boolean;
+}
+
+// Click to select the shape under the cursor (clicking empty space clears the
+// selection), shift-drag to select every shape touching a box. Shift adds to
+// the selection and Ctrl/Cmd toggles; a box replaces it unless Ctrl/Cmd is held.
+export function SelectionLayer({ shapes, onSelect, enabled = true }: SelectionLayerProps) {
+  const camera = useThree(state => state.camera);
+  const [box, setBox] = useState<{ start: Point2D; end: Point2D } | null>(null);
+
+  useCanvasPointer({
+    onPointerDown: ({ point, event }) => {
+      if (event.button === 0 && event.shiftKey) setBox({ start: point, end: point });
+    },
+    onPointerMove: ({ point }) => {
+      if (box) setBox({ start: box.start, end: point });
+    },
+    onPointerUp: ({ point, event }) => {
+      if (!box) return;
+      setBox(null);
+      const { start } = box;
+      // A shift-click without dragging is handled as a click
+      if (Math.hypot(point.x - start.x, point.y - start.y) * camera.zoom <= CLICK_TOLERANCE) return;
+      const bounds = {
+        minX: Math.min(start.x, point.x),
+        minY: Math.min(start.y, point.y),
+        maxX: Math.max(start.x, point.x),
+        maxY: Math.max(start.y, point.y),
+      };
+      onSelect(shapesInBox(shapes, bounds).map(shape => shape.id), event.ctrlKey || event.metaKey ? "add" : "replace");
+    },
+    onClick: ({ point, event }) => {
+      const shape = hitTestShapes(shapes, point, HIT_PIXELS / camera.zoom);
+      const mode = selectionModeFromEvent(event);
+      if (shape) onSelect([shape.id], mode);
+      else if (mode === "replace") onSelect([], "replace");
+    },
+  }, enabled);
+
+  if (!box) return null;
+  const { start, end } = box;
+  return (
+    <Line
+      points={[
+        [start.x, start.y, 0],
+        [end.x, start.y, 0],
+        [end.x, end.y, 0],
+        [start.x, end.y, 0],
+        [start.x, start.y, 0],
+      ]}
+      color={selectionStyle.color}
+      lineWidth={1}
+      dashed
+      dashSize={4 / camera.zoom}
+      gapSize={4 / camera.zoom}
+      renderOrder={1000}
+    />
+  );
+}
@@ -0,0 +1,31 @@
+import { useMemo } from "react";
+import { Line } from "@react-three/drei";
+import type { GeometryShape } from "@/lib/geometry";
+import { toLinePoints } from "./lines";
+import { PointSprites } from "./PointSprites";
+
+const PREVIEW_COLOR = "#10b981";
+
+function PreviewShape({ shape }: { shape: GeometryShape }) {
+  const rings = useMemo(() => [shape.points, ...(shape.holes ?? [])], [shape.points, shape.holes]);
+  const closed = shape.type === "polygon";
+  return (
+    <group>
+      {rings.map((ring, i) =>
+        ring.length > 1 ? <Line key={i} points={toLinePoints(ring, closed)} color={PREVIEW_COLOR} lineWidth={2} /> : null
+      )}
+      <PointSprites rings={rings} color={PREVIEW_COLOR} radius={3} shape="circle" shapeIndex={-1} renderOrder={1000} />
+    </group>
+  );
+}
+
+// Simplified outlines and their vertices, drawn over the original shapes
+export function SimplifyPreview({ shapes }: { shapes: GeometryShape[] }) {
+  return (
+    <group position={[0, 0, 0.5]}>
+      {shapes.map(shape => (
+        <PreviewShape key={shape.id} shape={shape} />
+      ))}
+    </group>
+  );
+}
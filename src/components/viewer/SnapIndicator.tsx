@@ -0,0 +1,39 @@
+import { Html, Line } from "@react-three/drei";
+import type { SnapKind, SnapResult } from "@/lib/snapping";
+import { cn } from "@/lib/utils";
+import { toLinePoints } from "./lines";
+
+const SNAP_COLOR = "#db2777";
+
+// Marker shape per snap kind, so it's clear what the point locked onto
+const markerClasses: Record<SnapKind, string> = {
+  vertex: "h-3.5 w-3.5 border-2",
+  midpoint: "h-3 w-3 border-2 rotate-45",
+  edge: "h-3 w-3 border-2 rounded-full",
+  axis: "h-2 w-2 border-2 rounded-full",
+  grid: "h-2.5 w-2.5 border",
+};
+
+// Marker at the snapped position plus dashed guides for axis alignment
+export function SnapIndicator({ snap }: { snap: SnapResult | null }) {
+  if (!snap || !snap.kind) return null;
+  const { point, kind, guides } = snap;
+  return (
+    <group>
+      {guides.map((guide, i) => (
+        <Line
+          key={i}
+          points={toLinePoints([guide, point])}
+          color={SNAP_COLOR}
+          lineWidth={1}
+          transparent
+          opacity={0.6}
+          renderOrder={1000}
+        />
+      ))}
+      <Html position={[point.x, point.y, 0]} center style={{ pointerEvents: "none" }}>
+        <div className={cn("border-pink-600 bg-background/40", markerClasses[kind])} title={kind} />
+      </Html>
+    </group>
+  );
+}
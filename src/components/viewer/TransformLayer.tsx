@@ -0,0 +1,208 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useThree } from "@react-three/fiber";
+import { Line } from "@react-three/drei";
+import { getRings } from "@/lib/editing";
+import { getBounds, type Bounds, type GeometryShape, type Point2D } from "@/lib/geometry";
+import { selectionStyle } from "@/lib/style";
+import {
+  identityMatrix,
+  rotationMatrix,
+  scaleMatrix,
+  transformPoint,
+  transformShapes,
+  translationMatrix,
+  type Matrix3,
+} from "@/lib/transform";
+import { PointSprites } from "./PointSprites";
+import { toLinePoints } from "./lines";
+import { useCameraControls, useCanvasPointer } from "./pointer";
+
+// Screen distances for grabbing a handle, and from the box to the rotate handle
+const HANDLE_PIXELS = 8;
+const ROTATE_OFFSET = 28;
+const HANDLE_RADIUS = 5;
+// Shift snaps rotation to multiples of this many degrees
+const ROTATE_SNAP = 15;
+
+// Corners counter-clockwise from the bottom left, then edge midpoints
+// (bottom, right, top, left), as unit positions within the box
+const scaleHandles: Point2D[] = [
+  { x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 },
+  { x: 0.5, y: 0 }, { x: 1, y: 0.5 }, { x: 0.5, y: 1 }, { x: 0, y: 0.5 },
+];
+
+const handleCursors = ["nesw-resize", "nwse-resize", "nesw-resize", "nwse-resize", "ns-resize", "ew-resize", "ns-resize", "ew-resize"];
+
+type Handle = { kind: "move" } | { kind: "rotate" } | { kind: "scale"; index: number };
+
+interface Drag {
+  handle: Handle;
+  start: Point2D;
+  bounds: Bounds;
+  // Shapes as they were when the drag started
+  shapes: GeometryShape[];
+}
+
+function boxPoint(bounds: Bounds, unit: Point2D): Point2D {
+  return {
+    x: bounds.minX + (bounds.maxX - bounds.minX) * unit.x,
+    y: bounds.minY + (bounds.maxY - bounds.minY) * unit.y,
+  };
+}
+
+function boxCenter(bounds: Bounds): Point2D {
+  return boxPoint(bounds, { x: 0.5, y: 0.5 });
+}
+
+// Scale factor that takes `from` to `to` relative to `anchor`, or 1 when the
+// box has no extent along that axis
+function scaleFactor(anchor: number, from: number, to: number): number {
+  const extent = from - anchor;
+  return Math.abs(extent) < 1e-12 ? 1 : (to - anchor) / extent;
+}
+
+function dragMatrix(drag: Drag, point: Point2D, shiftKey: boolean): Matrix3 {
+  const { handle, start, bounds } = drag;
+  switch (handle.kind) {
+    case "move":
+      return translationMatrix(point.x - start.x, point.y - start.y);
+    case "rotate": {
+      const center = boxCenter(bounds);
+      let degrees = ((Math.atan2(point.y - center.y, point.x - center.x) - Math.atan2(start.y - center.y, start.x - center.x)) * 180) / Math.PI;
+      if (shiftKey) degrees = Math.round(degrees / ROTATE_SNAP) * ROTATE_SNAP;
+      return rotationMatrix(degrees, center);
+    }
+    case "scale": {
+      const unit = scaleHandles[handle.index];
+      // Scale about the opposite corner or edge
+      const anchor = boxPoint(bounds, { x: 1 - unit.x, y: 1 - unit.y });
+      const grabbed = boxPoint(bounds, unit);
+      let sx = unit.x === 0.5 ? 1 : scaleFactor(anchor.x, grabbed.x, point.x);
+      let sy = unit.y === 0.5 ? 1 : scaleFactor(anchor.y, grabbed.y, point.y);
+      // Shift keeps the proportions, following the axis dragged furthest
+      if (shiftKey) {
+        const uniform = unit.x === 0.5 ? sy : unit.y === 0.5 ? sx : Math.abs(sx - 1) > Math.abs(sy - 1) ? sx : sy;
+        sx = uniform;
+        sy = uniform;
+      }
+      // Flattening the shapes completely can't be undone by dragging back
+      if (Math.abs(sx) < 1e-6 || Math.abs(sy) < 1e-6) return identityMatrix;
+      return scaleMatrix(sx, sy, anchor);
+    }
+  }
+}
+
+export interface TransformLayerProps {
+  shapes: GeometryShape[];
+  selectedIds: string[];
+  // Called with the transformed shape list. `done` is false during a drag and
+  // true once it ends.
+  onEdit: (shapes: GeometryShape[], done: boolean) => void;
+}
+
+// A bounding box around the selected shapes: drag inside it to move them,
+// drag a corner or edge handle to scale (Shift keeps the proportions) and the
+// handle above the box to rotate about its centre (Shift snaps to 15°).
+export function TransformLayer({ shapes, selectedIds, onEdit }: TransformLayerProps) {
+  const { camera, gl } = useThree();
+  const controls = useCameraControls();
+  const drag = useRef<Drag | null>(null);
+  // Transform of the drag in progress, applied to the box it started from
+  const [matrix, setMatrix] = useState<Matrix3 | null>(null);
+
+  const bounds = useMemo(
+    () => getBounds(shapes.filter(shape => selectedIds.includes(shape.id)).flatMap(shape => getRings(shape))),
+    [shapes, selectedIds]
+  );
+  const box = drag.current && matrix ? drag.current.bounds : bounds;
+
+  const rotateHandle = (b: Bounds): Point2D => ({ x: (b.minX + b.maxX) / 2, y: b.maxY + ROTATE_OFFSET / camera.zoom });
+
+  const handleAt = (point: Point2D): Handle | null => {
+    if (!bounds) return null;
+    const tolerance = HANDLE_PIXELS / camera.zoom;
+    const near = (p: Point2D) => Math.hypot(p.x - point.x, p.y - point.y) <= tolerance;
+    if (near(rotateHandle(bounds))) return { kind: "rotate" };
+    const index = scaleHandles.findIndex(unit => near(boxPoint(bounds, unit)));
+    if (index >= 0) return { kind: "scale", index };
+    const inside =
+      point.x >= bounds.minX - tolerance && point.x <= bounds.maxX + tolerance &&
+      point.y >= bounds.minY - tolerance && point.y <= bounds.maxY + tolerance;
+    return inside ? { kind: "move" } : null;
+  };
+
+  const cursorFor = (handle: Handle | null) =>
+    !handle ? "" : handle.kind === "move" ? "move" : handle.kind === "rotate" ? "grab" : handleCursors[handle.index];
+
+  const endDrag = () => {
+    if (controls) controls.enabled = true;
+    const current = drag.current;
+    drag.current = null;
+    setMatrix(null);
+    if (current && matrix) onEdit(shapes, true);
+  };
+
+  // Restore the camera controls if the layer goes away mid-drag
+  useEffect(() => () => {
+    if (controls) controls.enabled = true;
+    gl.domElement.style.cursor = "";
+  }, [controls, gl]);
+
+  useCanvasPointer({
+    onPointerDown: ({ point, event }) => {
+      if (event.button !== 0 || event.shiftKey || !bounds) return;
+      const handle = handleAt(point);
+      if (!handle) return;
+      // Keep the camera still while the shapes follow the pointer
+      if (controls) controls.enabled = false;
+      drag.current = { handle, start: point, bounds, shapes };
+    },
+    onPointerMove: ({ point, event }) => {
+      const current = drag.current;
+      if (current) {
+        const m = dragMatrix(current, point, event.shiftKey);
+        setMatrix(m);
+        onEdit(transformShapes(current.shapes, selectedIds, m), false);
+        return;
+      }
+      gl.domElement.style.cursor = cursorFor(handleAt(point));
+    },
+    onPointerUp: () => {
+      if (drag.current) endDrag();
+    },
+    onPointerLeave: () => {
+      gl.domElement.style.cursor = "";
+    },
+  });
+
+  if (!box) return null;
+
+  // The box follows the drag transform, so it turns with a rotation
+  const m = drag.current && matrix ? matrix : identityMatrix;
+  const corners = scaleHandles.slice(0, 4).map(unit => transformPoint(m, boxPoint(box, unit)));
+  const topMiddle = transformPoint(m, boxPoint(box, { x: 0.5, y: 1 }));
+  const rotatePoint = transformPoint(m, rotateHandle(box));
+
+  return (
+    <group position={[0, 0, 0.8]}>
+      <Line points={toLinePoints(corners, true)} color={selectionStyle.color} lineWidth={1} dashed dashSize={4 / camera.zoom} gapSize={3 / camera.zoom} />
+      <Line points={toLinePoints([topMiddle, rotatePoint])} color={selectionStyle.color} lineWidth={1} />
+      <PointSprites
+        rings={[scaleHandles.map(unit => transformPoint(m, boxPoint(box, unit)))]}
+        color={selectionStyle.color}
+        radius={HANDLE_RADIUS}
+        shape="square"
+        shapeIndex={0}
+        renderOrder={1001}
+      />
+      <PointSprites
+        rings={[[rotatePoint]]}
+        color={selectionStyle.color}
+        radius={HANDLE_RADIUS + 1}
+        shape="circle"
+        shapeIndex={0}
+        renderOrder={1001}
+      />
+    </group>
+  );
+}
@@ -0,0 +1,154 @@
+import * as THREE from "three";
+import { Line2 } from "three/examples/jsm/lines/Line2.js";
+import { LineGeometry } from "three/examples/jsm/lines/LineGeometry.js";
+import { LineMaterial } from "three/examples/jsm/lines/LineMaterial.js";
+import type { Point2D } from "@/lib/geometry";
+
+// GPU buffers for shape geometry that are updated in place. Appending points
+// or editing a few vertices only re-uploads the changed range; buffers grow
+// geometrically, so a shape streaming in reallocates O(log n) times.
+
+const MIN_CAPACITY = 16;
+
+function nextCapacity(required: number, current: number): number {
+  return Math.max(required, current * 2, MIN_CAPACITY);
+}
+
+// Write `values` into `target`, returning the range that actually changed
+function writeChanged(target: Float32Array, values: ArrayLike<number>, count: number): { start: number; end: number } | null {
+  let start = -1;
+  let end = -1;
+  for (let i = 0; i < count; i++) {
+    const value = Math.fround(values[i]);
+    if (target[i] !== value) {
+      if (start < 0) start = i;
+      end = i;
+      target[i] = value;
+    }
+  }
+  return start < 0 ? null : { start, end: end + 1 };
+}
+
+// Flattened xyz positions of several point lists
+function flattenPositions(lists: Point2D[][]): Float32Array {
+  const count = lists.reduce((sum, list) => sum + list.length, 0);
+  const positions = new Float32Array(count * 3);
+  let i = 0;
+  for (const list of lists) {
+    for (const point of list) {
+      positions[i++] = point.x;
+      positions[i++] = point.y;
+      positions[i++] = 0;
+    }
+  }
+  return positions;
+}
+
+// Vertex positions for THREE.Points, one draw call for all rings of a shape
+export class PointBuffer {
+  geometry = new THREE.BufferGeometry();
+  private capacity = 0;
+  private count = 0;
+
+  // Returns true when the geometry object was replaced (the buffer grew)
+  update(rings: Point2D[][]): boolean {
+    const positions = flattenPositions(rings);
+    const count = positions.length / 3;
+    let replaced = false;
+
+    if (count > this.capacity) {
+      this.geometry.dispose();
+      this.capacity = nextCapacity(count, this.capacity);
+      this.geometry = new THREE.BufferGeometry();
+      const attribute = new THREE.BufferAttribute(new Float32Array(this.capacity * 3), 3);
+      attribute.setUsage(THREE.DynamicDrawUsage);
+      this.geometry.setAttribute("position", attribute);
+      replaced = true;
+    }
+
+    const attribute = this.geometry.getAttribute("position") as THREE.BufferAttribute;
+    const changed = writeChanged(attribute.array as Float32Array, positions, positions.length);
+    if (changed) {
+      attribute.clearUpdateRanges();
+      attribute.addUpdateRange(changed.start, changed.end - changed.start);
+      attribute.needsUpdate = true;
+    }
+    if (changed || count !== this.count) {
+      // Recomputed lazily by raycasting and frustum culling
+      this.geometry.boundingSphere = null;
+      this.geometry.boundingBox = null;
+    }
+
+    this.count = count;
+    this.geometry.setDrawRange(0, count);
+    return replaced;
+  }
+
+  dispose() {
+    this.geometry.dispose();
+  }
+}
+
+// Screen-space thick line (LineMaterial) whose segment buffer is updated in place
+export class OutlineBuffer {
+  readonly material = new LineMaterial();
+  readonly line = new Line2(new LineGeometry(), this.material);
+  private capacity = 0;
+  private dashed = false;
+
+  update(points: Point2D[]) {
+    const segmentCount = Math.max(points.length - 1, 0);
+    let geometry = this.line.geometry;
+
+    if (segmentCount > this.capacity) {
+      geometry.dispose();
+      this.capacity = nextCapacity(segmentCount, this.capacity);
+      geometry = new LineGeometry();
+      geometry.setPositions(new Float32Array(this.capacity * 6));
+      (geometry.getAttribute("instanceStart") as THREE.InterleavedBufferAttribute).data.setUsage(THREE.DynamicDrawUsage);
+      this.line.geometry = geometry;
+    }
+
+    // Segment i runs from point i to point i + 1: (xyz, xyz)
+    const segments = new Float32Array(segmentCount * 6);
+    for (let i = 0; i < segmentCount; i++) {
+      const a = points[i];
+      const b = points[i + 1];
+      segments.set([a.x, a.y, 0, b.x, b.y, 0], i * 6);
+    }
+
+    const buffer = (geometry.getAttribute("instanceStart") as THREE.InterleavedBufferAttribute).data;
+    const changed = writeChanged(buffer.array as Float32Array, segments, segments.length);
+    if (changed) {
+      buffer.clearUpdateRanges();
+      buffer.addUpdateRange(changed.start, changed.end - changed.start);
+      buffer.needsUpdate = true;
+      geometry.boundingSphere = null;
+      geometry.boundingBox = null;
+    }
+    geometry.instanceCount = segmentCount;
+    this.line.visible = segmentCount > 0;
+
+    // Dash distances depend on every preceding segment, so recompute them
+    if (this.dashed && changed) this.line.computeLineDistances();
+  }
+
+  setStyle(color: string, width: number, dash: [number, number] | undefined, opacity = 1) {
+    this.material.color.set(color);
+    this.material.linewidth = width;
+    this.material.opacity = opacity;
+    this.material.transparent = opacity < 1;
+    this.dashed = !!dash;
+    this.material.dashed = this.dashed;
+    if (dash) {
+      this.material.dashSize = dash[0];
+      this.material.gapSize = dash[1];
+      if (this.capacity > 0) this.line.computeLineDistances();
+    }
+  }
+
+  dispose() {
+    this.line.geometry.dispose();
+    this.material.dispose();
+  }
+}
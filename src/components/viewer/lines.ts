@@ -0,0 +1,10 @@
+import type { Point2D } from "@/lib/geometry";
+
+export type LinePoints = [number, number, number][];
+
+// Points for drei's <Line>, optionally closed back to the first point
+export function toLinePoints(points: Point2D[], closed = false): LinePoints {
+  const line = points.map((p): [number, number, number] => [p.x, p.y, 0]);
+  if (closed && line.length > 0) line.push(line[0]);
+  return line;
+}
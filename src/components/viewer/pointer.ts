@@ -0,0 +1,90 @@
+import { useEffect, useRef, type ComponentRef } from "react";
+import { useThree } from "@react-three/fiber";
+import type { OrbitControls } from "@react-three/drei";
+import * as THREE from "three";
+import type { Point2D } from "@/lib/geometry";
+
+// Pointer travel (px) beyond which a press is a drag rather than a click
+export const CLICK_TOLERANCE = 4;
+
+export interface CanvasPointerEvent {
+  // Position on the z = 0 plane in world units
+  point: Point2D;
+  event: PointerEvent | MouseEvent;
+}
+
+export interface CanvasPointerHandlers {
+  onPointerDown?: (e: CanvasPointerEvent) => void;
+  onPointerMove?: (e: CanvasPointerEvent) => void;
+  onPointerUp?: (e: CanvasPointerEvent) => void;
+  // A primary-button press and release without dragging
+  onClick?: (e: CanvasPointerEvent) => void;
+  onDoubleClick?: (e: CanvasPointerEvent) => void;
+  onContextMenu?: (e: CanvasPointerEvent) => void;
+  onPointerLeave?: () => void;
+}
+
+// Listens to pointer events on the canvas element itself rather than on
+// scene objects, so tools see every move and click even where vertex sprites
+// stop propagation for their hover tooltips. Render inside the Canvas.
+export function useCanvasPointer(handlers: CanvasPointerHandlers, enabled = true) {
+  const { camera, gl } = useThree();
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const element = gl.domElement;
+    const vector = new THREE.Vector3();
+    let pressedAt: { x: number; y: number } | null = null;
+
+    const toEvent = (event: PointerEvent | MouseEvent): CanvasPointerEvent => {
+      const rect = element.getBoundingClientRect();
+      vector.set(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1,
+        0
+      );
+      vector.unproject(camera);
+      return { point: { x: vector.x, y: vector.y }, event };
+    };
+
+    const handleDown = (event: PointerEvent) => {
+      pressedAt = event.button === 0 ? { x: event.clientX, y: event.clientY } : null;
+      handlersRef.current.onPointerDown?.(toEvent(event));
+    };
+    const handleMove = (event: PointerEvent) => handlersRef.current.onPointerMove?.(toEvent(event));
+    const handleUp = (event: PointerEvent) => {
+      const canvasEvent = toEvent(event);
+      handlersRef.current.onPointerUp?.(canvasEvent);
+      if (pressedAt && Math.hypot(event.clientX - pressedAt.x, event.clientY - pressedAt.y) <= CLICK_TOLERANCE) {
+        handlersRef.current.onClick?.(canvasEvent);
+      }
+      pressedAt = null;
+    };
+    const handleDoubleClick = (event: MouseEvent) => handlersRef.current.onDoubleClick?.(toEvent(event));
+    const handleContextMenu = (event: MouseEvent) => handlersRef.current.onContextMenu?.(toEvent(event));
+    const handleLeave = () => handlersRef.current.onPointerLeave?.();
+
+    element.addEventListener("pointerdown", handleDown);
+    element.addEventListener("pointermove", handleMove);
+    element.addEventListener("pointerup", handleUp);
+    element.addEventListener("dblclick", handleDoubleClick);
+    element.addEventListener("contextmenu", handleContextMenu);
+    element.addEventListener("pointerleave", handleLeave);
+    return () => {
+      element.removeEventListener("pointerdown", handleDown);
+      element.removeEventListener("pointermove", handleMove);
+      element.removeEventListener("pointerup", handleUp);
+      element.removeEventListener("dblclick", handleDoubleClick);
+      element.removeEventListener("contextmenu", handleContextMenu);
+      element.removeEventListener("pointerleave", handleLeave);
+    };
+  }, [enabled, camera, gl]);
+}
+
+// The viewer's default camera controls (OrbitControls), which tools switch
+// off while they drag geometry
+export function useCameraControls(): ComponentRef<typeof OrbitControls> | null {
+  return useThree(state => state.controls as ComponentRef<typeof OrbitControls> | null);
+}
@@ -0,0 +1,10 @@
+import type { Point2D } from "@/lib/geometry";
+
+// Hovered vertex; ring 0 is the outer ring (or the only line), ring n is hole n
+export interface PointHoverInfo {
+  point: Point2D;
+  index: number;
+  ring: number;
+  mouse: [number, number];
+  shapeIndex: number;
+}
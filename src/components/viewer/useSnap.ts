@@ -0,0 +1,21 @@
+import { useThree } from "@react-three/fiber";
+import type { GeometryShape, Point2D } from "@/lib/geometry";
+import { gridSpacing } from "@/lib/grid";
+import { snapPoint, type SnapOptions, type SnapResult, type SnapSettings } from "@/lib/snapping";
+
+// Snap radius in screen pixels
+const SNAP_PIXELS = 10;
+
+// Snaps pointer positions against `shapes` at the current zoom; grid snapping
+// uses the minor spacing of the visible grid, in ground metres when
+// `unitsPerMeter` is given as for the grid
+export function useSnap(shapes: GeometryShape[], settings: SnapSettings, unitsPerMeter = 1) {
+  const camera = useThree(state => state.camera);
+  return (point: Point2D, options?: Pick<SnapOptions, "exclude" | "extraVertices">): SnapResult =>
+    snapPoint(point, shapes, {
+      settings,
+      tolerance: SNAP_PIXELS / camera.zoom,
+      gridStep: gridSpacing(1 / camera.zoom / unitsPerMeter).minor * unitsPerMeter,
+      ...options,
+    });
+}
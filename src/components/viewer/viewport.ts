@@ -0,0 +1,71 @@
+import { useSyncExternalStore } from "react";
+import * as THREE from "three";
+import { useFrame } from "@react-three/fiber";
+
+// The world-space rectangle visible through the orthographic camera, plus
+// the canvas size in CSS pixels
+export interface Viewport {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  width: number;
+  height: number;
+}
+
+export function computeViewport(camera: THREE.Camera, width: number, height: number): Viewport | null {
+  if (!(camera instanceof THREE.OrthographicCamera) || width <= 0 || height <= 0) return null;
+  const { position, zoom } = camera;
+  return {
+    minX: position.x + camera.left / zoom,
+    maxX: position.x + camera.right / zoom,
+    minY: position.y + camera.bottom / zoom,
+    maxY: position.y + camera.top / zoom,
+    width,
+    height,
+  };
+}
+
+export function worldPerPixel(viewport: Viewport): number {
+  return (viewport.maxX - viewport.minX) / viewport.width;
+}
+
+function sameViewport(a: Viewport | null, b: Viewport | null): boolean {
+  if (!a || !b) return a === b;
+  return a.minX === b.minX && a.minY === b.minY && a.maxX === b.maxX && a.maxY === b.maxY
+    && a.width === b.width && a.height === b.height;
+}
+
+// Holds the current viewport outside React state so DOM overlays can follow
+// the camera without re-rendering the whole viewer every frame
+export class ViewportStore {
+  private viewport: Viewport | null = null;
+  private listeners = new Set<() => void>();
+
+  get = (): Viewport | null => this.viewport;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  set(viewport: Viewport | null) {
+    if (sameViewport(this.viewport, viewport)) return;
+    this.viewport = viewport;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export function useViewport(store: ViewportStore): Viewport | null {
+  return useSyncExternalStore(store.subscribe, store.get);
+}
+
+// Publishes the camera's viewport to a store; render inside the Canvas
+export function ViewportTracker({ store }: { store: ViewportStore }) {
+  useFrame(({ camera, size }) => {
+    store.set(computeViewport(camera, size.width, size.height));
+  });
+  return null;
+}
@@ -0,0 +1,51 @@
+import { useCallback, useRef, useState } from "react";
+
+// Undo/redo stacks of snapshots. The caller owns the current value: `push`
+// records the value being replaced, `undo` and `redo` take the current value
+// and return the one to restore.
+export function useHistory<T>(limit = 100) {
+  const past = useRef<T[]>([]);
+  const future = useRef<T[]>([]);
+  // Bumped so canUndo/canRedo re-render
+  const [, setRevision] = useState(0);
+  const changed = () => setRevision(revision => revision + 1);
+
+  const push = useCallback((previous: T) => {
+    past.current = [...past.current.slice(-(limit - 1)), previous];
+    future.current = [];
+    changed();
+  }, [limit]);
+
+  const undo = useCallback((current: T): T | undefined => {
+    const previous = past.current[past.current.length - 1];
+    if (previous === undefined) return undefined;
+    past.current = past.current.slice(0, -1);
+    future.current = [...future.current, current];
+    changed();
+    return previous;
+  }, []);
+
+  const redo = useCallback((current: T): T | undefined => {
+    const next = future.current[future.current.length - 1];
+    if (next === undefined) return undefined;
+    future.current = future.current.slice(0, -1);
+    past.current = [...past.current, current];
+    changed();
+    return next;
+  }, []);
+
+  const clear = useCallback(() => {
+    past.current = [];
+    future.current = [];
+    changed();
+  }, []);
+
+  return {
+    push,
+    undo,
+    redo,
+    clear,
+    canUndo: past.current.length > 0,
+    canRedo: future.current.length > 0,
+  };
+}
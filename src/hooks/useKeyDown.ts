@@ -0,0 +1,15 @@
+import { useEffect, useRef } from "react";
+
+// Window keydown listener that always calls the latest `handler`, so it is
+// added once rather than on every render
+export function useKeyDown(handler: (event: KeyboardEvent) => void, enabled = true) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => handlerRef.current(event);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [enabled]);
+}
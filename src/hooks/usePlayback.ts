@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState } from "react";
+import type { TimeRange } from "@/lib/timeline";
+
+// Times are unitless (timestamps or frame indices), so speed is relative to
+// the range: at 1× the whole timeline plays in this many seconds
+export const PLAYBACK_SECONDS = 10;
+
+export const playbackSpeeds = [0.25, 0.5, 1, 2, 4, 8];
+
+// Current time and transport state for a timeline. The time stays within
+// `range`, starting at its beginning; null while there is no range.
+export function usePlayback(range: TimeRange | null) {
+  const [time, setTime] = useState<number | null>(range?.start ?? null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [loop, setLoop] = useState(true);
+  const timeRef = useRef(time);
+  timeRef.current = time;
+
+  const start = range?.start;
+  const end = range?.end;
+
+  // Keep the time inside the range as shapes come and go
+  useEffect(() => {
+    if (start === undefined || end === undefined) {
+      setTime(null);
+      setPlaying(false);
+      return;
+    }
+    setTime(current => (current === null ? start : Math.min(Math.max(current, start), end)));
+  }, [start, end]);
+
+  useEffect(() => {
+    if (!playing || start === undefined || end === undefined) return;
+    const span = end - start;
+    if (span <= 0) {
+      setPlaying(false);
+      return;
+    }
+    let last = performance.now();
+    let frame = requestAnimationFrame(function tick(now) {
+      const elapsed = (now - last) / 1000;
+      last = now;
+      let next = (timeRef.current ?? start) + (elapsed * speed * span) / PLAYBACK_SECONDS;
+      if (next > end) {
+        if (loop) {
+          next = start + ((next - start) % span);
+        } else {
+          next = end;
+          setPlaying(false);
+        }
+      }
+      timeRef.current = next;
+      setTime(next);
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, loop, start, end]);
+
+  const togglePlaying = () => {
+    // Playing from the end starts over
+    if (!playing && start !== undefined && end !== undefined && time !== null && time >= end) setTime(start);
+    setPlaying(!playing);
+  };
+
+  return { time, setTime, playing, togglePlaying, speed, setSpeed, loop, setLoop };
+}
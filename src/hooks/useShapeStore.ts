@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { GeometryShape } from "@/lib/geometry";
+import { applyShapeEvent, type ShapeEvent } from "@/lib/events";
+import * as api from "@/lib/api";
+import { useShapeStream } from "./useShapeStream";
+
+// Keeps a local copy of the server-side shape store. While the live socket is
+// open, server events are applied incrementally; otherwise every mutation
+// refetches the full list.
+export function useShapeStore() {
+  const [shapes, setShapes] = useState<GeometryShape[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const shapesRef = useRef(shapes);
+  shapesRef.current = shapes;
+
+  const handleEvent = useCallback((event: ShapeEvent) => {
+    setShapes(current => applyShapeEvent(current, event));
+    if (event.type === "snapshot") setLoading(false);
+  }, []);
+
+  const status = useShapeStream(handleEvent);
+  const statusRef = useRef(status);
+  statusRef.current = status;
+
+  // Resolves to whether the action succeeded; a failure is kept in `error`
+  const run = useCallback(async (action?: () => Promise<unknown>): Promise<boolean> => {
+    setLoading(true);
+    try {
+      if (action) await action();
+      if (!action || statusRef.current !== "open") {
+        setShapes(await api.fetchShapes());
+      }
+      setError(null);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    run();
+  }, [run]);
+
+  const refresh = useCallback(() => run(), [run]);
+
+  const upsert = useCallback(
+    (next: GeometryShape | GeometryShape[]) => run(() => api.upsertShapes(next)),
+    [run]
+  );
+
+  const remove = useCallback((id: string) => run(() => api.deleteShape(id)), [run]);
+
+  const clear = useCallback(() => run(() => api.clearShapes()), [run]);
+
+  const importGeoJSON = useCallback((geojson: unknown) => run(() => api.importGeoJSON(geojson)), [run]);
+
+  // Replace the whole store contents, e.g. when loading a sample preset
+  const replace = useCallback(
+    (next: GeometryShape[]) =>
+      run(async () => {
+        await api.clearShapes();
+        if (next.length > 0) await api.upsertShapes(next);
+      }),
+    [run]
+  );
+
+  // Save an edited shape list: shapes that changed are upserted and shapes that
+  // are gone are deleted. The edit is applied locally straight away.
+  const save = useCallback(
+    (next: GeometryShape[]) => {
+      const previous = shapesRef.current;
+      const previousById = new Map(previous.map(shape => [shape.id, shape]));
+      const nextIds = new Set(next.map(shape => shape.id));
+      const changed = next.filter(shape => previousById.get(shape.id) !== shape);
+      const removed = previous.filter(shape => !nextIds.has(shape.id));
+      setShapes(next);
+      return run(async () => {
+        if (changed.length > 0) await api.upsertShapes(changed);
+        await Promise.all(removed.map(shape => api.deleteShape(shape.id)));
+      });
+    },
+    [run]
+  );
+
+  return { shapes, status, loading, error, refresh, upsert, remove, clear, replace, importGeoJSON, save };
+}
@@ -0,0 +1,63 @@
+import { useEffect, useRef, useState } from "react";
+import type { ConnectionStatus, ShapeEvent } from "@/lib/events";
+
+const INITIAL_RETRY_MS = 500;
+const MAX_RETRY_MS = 10_000;
+
+function socketUrl(path: string): string {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.host}${path}`;
+}
+
+// Subscribes to the server's shape events and reconnects with exponential
+// backoff whenever the socket drops.
+export function useShapeStream(onEvent: (event: ShapeEvent) => void, path = "/api/ws"): ConnectionStatus {
+  const [status, setStatus] = useState<ConnectionStatus>("connecting");
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let retryDelay = INITIAL_RETRY_MS;
+    let disposed = false;
+
+    const connect = () => {
+      setStatus("connecting");
+      socket = new WebSocket(socketUrl(path));
+
+      socket.onopen = () => {
+        retryDelay = INITIAL_RETRY_MS;
+        setStatus("open");
+      };
+
+      socket.onmessage = message => {
+        let event: ShapeEvent;
+        try {
+          event = JSON.parse(message.data) as ShapeEvent;
+        } catch {
+          // Messages that aren't JSON are dropped
+          return;
+        }
+        onEventRef.current(event);
+      };
+
+      socket.onclose = () => {
+        if (disposed) return;
+        setStatus("closed");
+        retryTimer = setTimeout(connect, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, MAX_RETRY_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }, [path]);
+
+  return status;
+}
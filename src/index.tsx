@@ -1,35 +1,180 @@
 import { serve } from "bun";
 import index from "./index.html";
+import bench from "./bench.html";
+import { ShapeStore } from "./server/shapeStore";
+import { parseBooleanPayload, parsePointsPayload, parseShapesPayload } from "./lib/schema";
+import type { ShapeEvent } from "./lib/events";
+import { exportGeoJSON, GeoJSONError, importGeoJSON } from "./lib/geojson";
+import { booleanResultShapes, booleanShapes } from "./lib/boolean";
+import type { GeometryShape } from "./lib/geometry";
+
+// Pub/sub topic every viewer socket subscribes to
+const SHAPES_TOPIC = "shapes";
+
+const store = new ShapeStore();
+
+function jsonError(message: string, status = 400): Response {
+  return Response.json({ error: message }, { status });
+}
+
+// Parse a JSON request body, or return an error response
+async function readJson(req: Request): Promise<{ body: unknown } | Response> {
+  try {
+    return { body: await req.json() };
+  } catch {
+    return jsonError("Request body must be valid JSON");
+  }
+}
+
+// Shapes of a boolean operand, looked up in the store when given by id
+function resolveOperand(operand: string[] | GeometryShape[]): { shapes: GeometryShape[] } | Response {
+  const shapes: GeometryShape[] = [];
+  for (const item of operand) {
+    if (typeof item !== "string") {
+      shapes.push(item);
+      continue;
+    }
+    const shape = store.get(item);
+    if (!shape) return jsonError(`Shape "${item}" not found`, 404);
+    shapes.push(shape);
+  }
+  return { shapes };
+}
 
 const server = serve({
   routes: {
     // Serve index.html for all unmatched routes.
     "/*": index,
 
-    "/api/hello": {
+    // Point rendering benchmark
+    "/bench": bench,
+
+    // Live updates: viewers get a snapshot on connect, then every change
+    "/api/ws": (req, server) => {
+      if (server.upgrade(req)) return;
+      return new Response("Expected a WebSocket upgrade", { status: 426 });
+    },
+
+    "/api/shapes": {
+      async GET() {
+        return Response.json(store.list());
+      },
+      // Add shapes, or replace the ones whose id already exists
+      async POST(req) {
+        const json = await readJson(req);
+        if (json instanceof Response) return json;
+
+        const parsed = parseShapesPayload(json.body);
+        if (parsed.error !== undefined) {
+          return jsonError(parsed.error);
+        }
+
+        return Response.json(store.upsert(parsed.value));
+      },
+      async DELETE() {
+        return Response.json({ removed: store.clear() });
+      },
+    },
+
+    "/api/shapes/:id": {
       async GET(req) {
-        return Response.json({
-          message: "Hello, world!",
-          method: "GET",
-        });
+        const shape = store.get(req.params.id);
+        if (!shape) {
+          return jsonError(`Shape "${req.params.id}" not found`, 404);
+        }
+        return Response.json(shape);
+      },
+      async DELETE(req) {
+        if (!store.remove(req.params.id)) {
+          return jsonError(`Shape "${req.params.id}" not found`, 404);
+        }
+        return Response.json({ removed: 1 });
+      },
+    },
+
+    // Stream vertices into an existing shape without resending it
+    "/api/shapes/:id/points": {
+      async POST(req) {
+        const json = await readJson(req);
+        if (json instanceof Response) return json;
+
+        const parsed = parsePointsPayload(json.body);
+        if (parsed.error !== undefined) {
+          return jsonError(parsed.error);
+        }
+
+        const shape = store.append(req.params.id, parsed.value);
+        if (!shape) {
+          return jsonError(`Shape "${req.params.id}" not found`, 404);
+        }
+        return Response.json({ id: shape.id, version: shape.version, count: shape.points.length });
+      },
+    },
+
+    // Union, intersection, difference or XOR of polygon shapes
+    "/api/boolean": {
+      async POST(req) {
+        const json = await readJson(req);
+        if (json instanceof Response) return json;
+
+        const parsed = parseBooleanPayload(json.body);
+        if (parsed.error !== undefined) {
+          return jsonError(parsed.error);
+        }
+
+        const { operation, add } = parsed.value;
+        const a = resolveOperand(parsed.value.a);
+        if (a instanceof Response) return a;
+        const b = resolveOperand(parsed.value.b);
+        if (b instanceof Response) return b;
+
+        const result = booleanShapes(operation, a.shapes, b.shapes);
+        const shapes = booleanResultShapes(result, store.list());
+        if (add) store.upsert(shapes);
+        return Response.json({ operation, area: result.area, overlapArea: result.overlapArea, shapes });
       },
-      async PUT(req) {
-        return Response.json({
-          message: "Hello, world!",
-          method: "PUT",
-        });
+    },
+
+    "/api/geojson": {
+      // Export the store as a FeatureCollection
+      async GET() {
+        return Response.json(exportGeoJSON(store.list()));
+      },
+      // Import a FeatureCollection, Feature or geometry into the store
+      async POST(req) {
+        const json = await readJson(req);
+        if (json instanceof Response) return json;
+
+        try {
+          // A fresh prefix per import so id-less features don't replace earlier ones
+          return Response.json(store.upsert(importGeoJSON(json.body, `geojson-${crypto.randomUUID()}`)));
+        } catch (err) {
+          if (err instanceof GeoJSONError) return jsonError(err.message);
+          throw err;
+        }
       },
     },
+  },
 
-    "/api/hello/:name": async (req) => {
-      const name = req.params.name;
-      return Response.json({
-        message: `Hello, ${name}!`,
-      });
+  websocket: {
+    open(ws) {
+      ws.subscribe(SHAPES_TOPIC);
+      const snapshot: ShapeEvent = { type: "snapshot", shapes: store.list() };
+      ws.send(JSON.stringify(snapshot));
+    },
+    message() {
+      // Viewers only listen; changes come in through the REST routes
+    },
+    close(ws) {
+      ws.unsubscribe(SHAPES_TOPIC);
     },
   },
 
   development: process.env.NODE_ENV !== "production",
 });
 
+store.subscribe(event => {
+  server.publish(SHAPES_TOPIC, JSON.stringify(event));
+});
+
 console.log(`🚀 Server running at ${server.url}`);
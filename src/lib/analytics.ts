@@ -0,0 +1,237 @@
+import { dedupeConsecutive } from "./drawing";
+import { getBounds, type Bounds, type GeometryShape, type Point2D, type ShapeType } from "./geometry";
+import { distance, pathLength, polygonArea, ringArea, ringCentroid, type MeasureFunction } from "./measure";
+
+export type Winding = "counter-clockwise" | "clockwise";
+
+export interface ShapeMetrics {
+  id: string;
+  name: string;
+  type: ShapeType;
+  // Net polygon area (holes subtracted), signed by the outer ring's winding;
+  // 0 for polylines and points
+  signedArea: number;
+  area: number;
+  // Perimeter of all rings for polygons, length for polylines
+  perimeter: number;
+  centroid: Point2D | null;
+  bounds: Bounds | null;
+  vertexCount: number;
+  // Outer ring winding; null for non-polygons and degenerate rings
+  winding: Winding | null;
+  // Whether the edges cross themselves; null for point shapes
+  simple: boolean | null;
+  selfIntersections: Point2D[];
+}
+
+// Drop the repeated first point of a closed ring
+export function openRing(ring: Point2D[]): Point2D[] {
+  if (ring.length < 2) return ring;
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return first.x === last.x && first.y === last.y ? ring.slice(0, -1) : ring;
+}
+
+function cross(o: Point2D, a: Point2D, b: Point2D): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+function onSegment(p: Point2D, a: Point2D, b: Point2D): boolean {
+  return Math.min(a.x, b.x) <= p.x && p.x <= Math.max(a.x, b.x) && Math.min(a.y, b.y) <= p.y && p.y <= Math.max(a.y, b.y);
+}
+
+// Where segments ab and cd meet, or null. Collinear overlaps report one
+// endpoint of the overlap.
+export function segmentIntersection(a: Point2D, b: Point2D, c: Point2D, d: Point2D): Point2D | null {
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) {
+    const t = d1 / (d1 - d2);
+    return { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) };
+  }
+  if (d1 === 0 && onSegment(a, c, d)) return a;
+  if (d2 === 0 && onSegment(b, c, d)) return b;
+  if (d3 === 0 && onSegment(c, a, b)) return c;
+  if (d4 === 0 && onSegment(d, a, b)) return d;
+  return null;
+}
+
+interface Segment {
+  a: Point2D;
+  b: Point2D;
+  ring: number;
+  index: number;
+  // Number of segments in the ring, used to recognise the closing neighbour
+  ringSize: number;
+  closed: boolean;
+  minX: number;
+  maxX: number;
+}
+
+function adjacent(s: Segment, t: Segment): boolean {
+  if (s.ring !== t.ring) return false;
+  const gap = Math.abs(s.index - t.index);
+  return gap === 1 || (s.closed && gap === s.ringSize - 1);
+}
+
+// Points where the rings' edges cross each other or themselves. Neighbouring
+// edges of a ring share a vertex and don't count, and repeated vertices are
+// dropped first so their zero-length edges don't either. Segments are swept
+// in x order so only those with overlapping x ranges are compared.
+export function findSelfIntersections(rings: Point2D[][], closed: boolean): Point2D[] {
+  const segments: Segment[] = [];
+  rings.forEach((ring, ringIndex) => {
+    const deduped = dedupeConsecutive(ring);
+    const points = closed ? openRing(deduped) : deduped;
+    const count = closed ? (points.length >= 3 ? points.length : 0) : Math.max(points.length - 1, 0);
+    for (let i = 0; i < count; i++) {
+      const a = points[i];
+      const b = points[(i + 1) % points.length];
+      segments.push({ a, b, ring: ringIndex, index: i, ringSize: count, closed, minX: Math.min(a.x, b.x), maxX: Math.max(a.x, b.x) });
+    }
+  });
+  segments.sort((s, t) => s.minX - t.minX);
+
+  const intersections: Point2D[] = [];
+  for (let i = 0; i < segments.length; i++) {
+    const s = segments[i];
+    for (let j = i + 1; j < segments.length && segments[j].minX <= s.maxX; j++) {
+      const t = segments[j];
+      if (adjacent(s, t)) continue;
+      const point = segmentIntersection(s.a, s.b, t.a, t.b);
+      if (point) intersections.push(point);
+    }
+  }
+  return intersections;
+}
+
+// Area-weighted centroid of a polygon, with holes taken out whatever their winding
+function polygonCentroid(rings: Point2D[][]): Point2D | null {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  rings.forEach((ring, ringIndex) => {
+    const weight = Math.abs(ringArea(ring)) * (ringIndex === 0 ? 1 : -1);
+    const centroid = ringCentroid(ring);
+    area += weight;
+    cx += centroid.x * weight;
+    cy += centroid.y * weight;
+  });
+  return Math.abs(area) < 1e-12 ? null : { x: cx / area, y: cy / area };
+}
+
+// Length-weighted centroid of a polyline
+function lineCentroid(points: Point2D[]): Point2D | null {
+  let length = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 1; i < points.length; i++) {
+    const l = distance(points[i - 1], points[i]);
+    length += l;
+    cx += ((points[i - 1].x + points[i].x) / 2) * l;
+    cy += ((points[i - 1].y + points[i].y) / 2) * l;
+  }
+  return length > 0 ? { x: cx / length, y: cy / length } : null;
+}
+
+function meanPoint(points: Point2D[]): Point2D | null {
+  if (points.length === 0) return null;
+  let x = 0;
+  let y = 0;
+  for (const point of points) {
+    x += point.x;
+    y += point.y;
+  }
+  return { x: x / points.length, y: y / points.length };
+}
+
+export function computeShapeMetrics(shape: GeometryShape): ShapeMetrics {
+  const rings = [shape.points, ...(shape.holes ?? [])];
+  const base = {
+    id: shape.id,
+    name: shape.name,
+    type: shape.type,
+    bounds: getBounds(rings),
+    vertexCount: rings.reduce((sum, ring) => sum + ring.length, 0),
+  };
+
+  switch (shape.type) {
+    case "polygon": {
+      const openRings = rings.map(openRing);
+      const outer = ringArea(openRings[0]);
+      const area = polygonArea({ points: openRings[0], holes: openRings.slice(1) });
+      const selfIntersections = findSelfIntersections(openRings, true);
+      return {
+        ...base,
+        signedArea: outer < 0 ? -area : area,
+        area,
+        perimeter: openRings.reduce((sum, ring) => sum + (ring.length > 1 ? pathLength([...ring, ring[0]]) : 0), 0),
+        centroid: polygonCentroid(openRings) ?? meanPoint(shape.points),
+        winding: outer > 0 ? "counter-clockwise" : outer < 0 ? "clockwise" : null,
+        simple: selfIntersections.length === 0,
+        selfIntersections,
+      };
+    }
+    case "polyline": {
+      const selfIntersections = findSelfIntersections([shape.points], false);
+      return {
+        ...base,
+        signedArea: 0,
+        area: 0,
+        perimeter: pathLength(shape.points),
+        centroid: lineCentroid(shape.points) ?? meanPoint(shape.points),
+        winding: null,
+        simple: selfIntersections.length === 0,
+        selfIntersections,
+      };
+    }
+    case "points":
+      return {
+        ...base,
+        signedArea: 0,
+        area: 0,
+        perimeter: 0,
+        centroid: meanPoint(shape.points),
+        winding: null,
+        simple: null,
+        selfIntersections: [],
+      };
+  }
+}
+
+// Metrics with areas and lengths taken by `measure` instead, e.g. geodesic
+// ones for projected geographic data. Everything else is read off the shape.
+export function measuredShapeMetrics(shape: GeometryShape, measure: MeasureFunction): ShapeMetrics {
+  const metrics = getShapeMetrics(shape);
+  switch (shape.type) {
+    case "polygon": {
+      const [outer, ...holes] = [shape.points, ...(shape.holes ?? [])].map(openRing);
+      const area = measure("area", outer, holes);
+      return {
+        ...metrics,
+        signedArea: metrics.winding === "clockwise" ? -area : area,
+        area,
+        perimeter: [outer, ...holes].reduce((sum, ring) => sum + (ring.length > 1 ? measure("path", [...ring, ring[0]]) : 0), 0),
+      };
+    }
+    case "polyline":
+      return { ...metrics, perimeter: measure("path", shape.points) };
+    case "points":
+      return metrics;
+  }
+}
+
+// Shapes keep their identity until they change, so metrics are cached per object
+const metricsCache = new WeakMap<GeometryShape, ShapeMetrics>();
+
+export function getShapeMetrics(shape: GeometryShape): ShapeMetrics {
+  let metrics = metricsCache.get(shape);
+  if (!metrics) {
+    metrics = computeShapeMetrics(shape);
+    metricsCache.set(shape, metrics);
+  }
+  return metrics;
+}
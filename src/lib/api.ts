@@ -0,0 +1,47 @@
+import type { GeometryShape, Point2D } from "./geometry";
+import type { GeoJSONFeatureCollection } from "./geojson";
+
+// Thin client for the shape store served from src/index.tsx
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(path, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body?.error ?? `Request to ${path} failed with status ${response.status}`);
+  }
+  return body as T;
+}
+
+export function fetchShapes(): Promise<GeometryShape[]> {
+  return request("/api/shapes");
+}
+
+export function fetchShape(id: string): Promise<GeometryShape> {
+  return request(`/api/shapes/${encodeURIComponent(id)}`);
+}
+
+export function upsertShapes(shapes: GeometryShape | GeometryShape[]): Promise<GeometryShape[]> {
+  return request("/api/shapes", { method: "POST", body: JSON.stringify(shapes) });
+}
+
+export function appendPoints(id: string, points: Point2D | Point2D[]): Promise<{ id: string; version: number; count: number }> {
+  return request(`/api/shapes/${encodeURIComponent(id)}/points`, { method: "POST", body: JSON.stringify(points) });
+}
+
+export function deleteShape(id: string): Promise<{ removed: number }> {
+  return request(`/api/shapes/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
+
+export function clearShapes(): Promise<{ removed: number }> {
+  return request("/api/shapes", { method: "DELETE" });
+}
+
+export function importGeoJSON(geojson: unknown): Promise<GeometryShape[]> {
+  return request("/api/geojson", { method: "POST", body: JSON.stringify(geojson) });
+}
+
+export function fetchGeoJSON(): Promise<GeoJSONFeatureCollection> {
+  return request("/api/geojson");
+}
@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import type { GeometryShape, Point2D } from "./geometry";
+import { booleanPolygons, booleanResultShapes, booleanShapes, polygonsArea, type Polygon } from "./boolean";
+import { ringArea } from "./measure";
+
+function square(x: number, y: number, size: number): Point2D[] {
+  return [{ x, y }, { x: x + size, y }, { x: x + size, y: y + size }, { x, y: y + size }];
+}
+
+function polygonShape(id: string, ...rings: Point2D[][]): GeometryShape {
+  const [points, ...holes] = rings;
+  return holes.length > 0 ? { id, name: id, type: "polygon", points, holes } : { id, name: id, type: "polygon", points };
+}
+
+// Two 2 × 2 squares overlapping in a 1 × 1 square
+const a: Polygon[] = [[square(0, 0, 2)]];
+const b: Polygon[] = [[square(1, 1, 2)]];
+
+describe("booleanPolygons", () => {
+  test.each([
+    ["union", 1, 7],
+    ["intersection", 1, 1],
+    ["difference", 1, 3],
+    ["xor", 2, 6],
+  ] as const)("%s of overlapping squares", (operation, count, area) => {
+    const result = booleanPolygons(operation, a, b);
+    expect(result).toHaveLength(count);
+    expect(polygonsArea(result)).toBeCloseTo(area, 9);
+  });
+
+  test("winds shells counter-clockwise and holes clockwise", () => {
+    const [[shell, hole]] = booleanPolygons("difference", [[square(0, 0, 4)]], [[square(1, 1, 2)]]);
+    expect(ringArea(shell)).toBeCloseTo(16, 9);
+    expect(ringArea(hole)).toBeCloseTo(-4, 9);
+  });
+
+  test("keeps the holes of an operand", () => {
+    const withHole: Polygon = [square(0, 0, 4), [...square(1, 1, 2)].reverse()];
+    expect(polygonsArea(booleanPolygons("union", [withHole], []))).toBeCloseTo(12, 9);
+    expect(polygonsArea(booleanPolygons("intersection", [withHole], [[square(0, 0, 2)]]))).toBeCloseTo(3, 9);
+  });
+
+  test("merges squares sharing an edge", () => {
+    const result = booleanPolygons("union", [[square(0, 0, 1)]], [[square(1, 0, 1)]]);
+    expect(result).toHaveLength(1);
+    expect(polygonsArea(result)).toBeCloseTo(2, 9);
+  });
+
+  test("leaves disjoint operands apart", () => {
+    expect(booleanPolygons("intersection", [[square(0, 0, 1)]], [[square(5, 5, 1)]])).toEqual([]);
+    expect(booleanPolygons("union", [[square(0, 0, 1)]], [[square(5, 5, 1)]])).toHaveLength(2);
+  });
+});
+
+describe("booleanShapes", () => {
+  test("reports the result and overlap areas", () => {
+    const result = booleanShapes("union", [polygonShape("a", square(0, 0, 2))], [polygonShape("b", square(1, 1, 2))]);
+    expect(result.area).toBeCloseTo(7, 9);
+    expect(result.overlapArea).toBeCloseTo(1, 9);
+  });
+
+  test("ignores shapes that aren't polygons", () => {
+    const line: GeometryShape = { id: "l", name: "l", type: "polyline", points: square(0, 0, 5) };
+    expect(booleanShapes("union", [polygonShape("a", square(0, 0, 2))], [line]).area).toBeCloseTo(4, 9);
+  });
+
+  test("numbers result shapes past existing ones", () => {
+    const result = booleanShapes("xor", [polygonShape("a", square(0, 0, 2))], [polygonShape("b", square(1, 1, 2))]);
+    const existing = [polygonShape("xor-1", square(9, 9, 1))];
+    expect(booleanResultShapes(result, existing).map(shape => [shape.id, shape.name, shape.featureId])).toEqual([
+      ["xor-2-1", "XOR 2 (1)", "xor-2"],
+      ["xor-2-2", "XOR 2 (2)", "xor-2"],
+    ]);
+  });
+});
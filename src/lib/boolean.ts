@@ -0,0 +1,323 @@
+import { getBounds, resultShapes, type Bounds, type GeometryShape, type Point2D, type ResultPart } from "./geometry";
+import { openRing } from "./analytics";
+import { pointInRing, ringArea } from "./measure";
+
+export type BooleanOperation = "union" | "intersection" | "difference" | "xor";
+
+// A polygon as its outer ring followed by its holes, all open
+export type Polygon = Point2D[][];
+
+export const booleanOperationLabels: Record<BooleanOperation, string> = {
+  union: "Union",
+  intersection: "Intersection",
+  difference: "Difference",
+  xor: "XOR",
+};
+
+// Whether a point belongs to the result given its membership of each operand
+const keepInside: Record<BooleanOperation, (inA: boolean, inB: boolean) => boolean> = {
+  union: (inA, inB) => inA || inB,
+  intersection: (inA, inB) => inA && inB,
+  difference: (inA, inB) => inA && !inB,
+  xor: (inA, inB) => inA !== inB,
+};
+
+interface Edge {
+  a: Point2D;
+  b: Point2D;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+  // Points where other edges meet this one, with their position along it
+  splits: { t: number; point: Point2D }[];
+}
+
+// Directed boundary piece of the result, interior on its left
+interface DirectedEdge {
+  from: string;
+  to: string;
+  a: Point2D;
+  angle: number;
+  used: boolean;
+}
+
+function polygonEdges(polygons: Polygon[]): Edge[] {
+  const edges: Edge[] = [];
+  for (const rings of polygons) {
+    for (const ring of rings) {
+      const points = openRing(ring);
+      if (points.length < 3) continue;
+      points.forEach((a, i) => {
+        const b = points[(i + 1) % points.length];
+        if (a.x === b.x && a.y === b.y) return;
+        edges.push({
+          a,
+          b,
+          minX: Math.min(a.x, b.x),
+          maxX: Math.max(a.x, b.x),
+          minY: Math.min(a.y, b.y),
+          maxY: Math.max(a.y, b.y),
+          splits: [],
+        });
+      });
+    }
+  }
+  return edges;
+}
+
+// Position of `p` along the edge, when it lies on it within `tolerance`
+function paramOnEdge(p: Point2D, edge: Edge, tolerance: number): number | null {
+  const dx = edge.b.x - edge.a.x;
+  const dy = edge.b.y - edge.a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = ((p.x - edge.a.x) * dx + (p.y - edge.a.y) * dy) / lengthSq;
+  if (t <= 0 || t >= 1) return null;
+  const offset = Math.abs((p.x - edge.a.x) * dy - (p.y - edge.a.y) * dx) / Math.sqrt(lengthSq);
+  return offset <= tolerance ? t : null;
+}
+
+// Record where two edges cross, touch or overlap on both of them
+function splitPair(s: Edge, e: Edge, tolerance: number) {
+  const rx = s.b.x - s.a.x;
+  const ry = s.b.y - s.a.y;
+  const qx = e.b.x - e.a.x;
+  const qy = e.b.y - e.a.y;
+  const denominator = rx * qy - ry * qx;
+  const lengths = Math.hypot(rx, ry) * Math.hypot(qx, qy);
+
+  if (Math.abs(denominator) > 1e-12 * lengths) {
+    const t = ((e.a.x - s.a.x) * qy - (e.a.y - s.a.y) * qx) / denominator;
+    const u = ((e.a.x - s.a.x) * ry - (e.a.y - s.a.y) * rx) / denominator;
+    if (t < 0 || t > 1 || u < 0 || u > 1) return;
+    const point = { x: s.a.x + t * rx, y: s.a.y + t * ry };
+    if (t > 0 && t < 1) s.splits.push({ t, point });
+    if (u > 0 && u < 1) e.splits.push({ t: u, point });
+    return;
+  }
+
+  // Parallel: only collinear overlaps matter, split each at the other's ends
+  for (const p of [e.a, e.b]) {
+    const t = paramOnEdge(p, s, tolerance);
+    if (t !== null) s.splits.push({ t, point: p });
+  }
+  for (const p of [s.a, s.b]) {
+    const t = paramOnEdge(p, e, tolerance);
+    if (t !== null) e.splits.push({ t, point: p });
+  }
+}
+
+// An operand's polygons with their bounds, to skip most ring tests
+interface Operand {
+  polygons: Polygon[];
+  bounds: (Bounds | null)[];
+}
+
+function toOperand(polygons: Polygon[]): Operand {
+  return { polygons, bounds: polygons.map(rings => getBounds(rings)) };
+}
+
+// Points inside the operand: inside any of its polygons, each even-odd over its rings
+function insideOperand(point: Point2D, { polygons, bounds }: Operand): boolean {
+  return polygons.some((rings, i) => {
+    const box = bounds[i];
+    if (!box || point.x < box.minX || point.x > box.maxX || point.y < box.minY || point.y > box.maxY) return false;
+    return rings.reduce((inside, ring) => (pointInRing(point, ring) ? !inside : inside), false);
+  });
+}
+
+// How far beside a piece to test which side is inside. Small relative to the
+// piece so thin slivers between nearly parallel edges are still resolved,
+// but well above rounding error at the data's scale.
+function sampleOffset(length: number, scale: number): number {
+  return Math.max(length * 1e-6, scale * 1e-12);
+}
+
+// Drop vertices that sit on a straight line between their neighbours
+function removeCollinear(ring: Point2D[], tolerance: number): Point2D[] {
+  let points = ring;
+  let changed = true;
+  while (changed && points.length > 3) {
+    changed = false;
+    const kept = points.filter((p, i) => {
+      const prev = points[(i - 1 + points.length) % points.length];
+      const next = points[(i + 1) % points.length];
+      const cross = (p.x - prev.x) * (next.y - prev.y) - (p.y - prev.y) * (next.x - prev.x);
+      const length = Math.hypot(next.x - prev.x, next.y - prev.y);
+      return Math.abs(cross) > tolerance * length;
+    });
+    if (kept.length < points.length && kept.length >= 3) {
+      points = kept;
+      changed = true;
+    }
+  }
+  return points;
+}
+
+// Boolean operation on two sets of polygons. Polygons within an operand are
+// unioned. All edges are split where they meet into an arrangement; a piece
+// is kept when the result differs on its two sides, and the kept pieces are
+// chained into rings. Outer rings come back counter-clockwise and holes
+// clockwise, each hole assigned to the smallest outer ring around it.
+export function booleanPolygons(operation: BooleanOperation, a: Polygon[], b: Polygon[]): Polygon[] {
+  const aEdges = polygonEdges(a);
+  const bEdges = polygonEdges(b);
+  const edges = [...aEdges, ...bEdges];
+  const bounds = getBounds(edges.map(edge => [edge.a, edge.b]));
+  if (!bounds) return [];
+  const scale = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY, Math.abs(bounds.minX), Math.abs(bounds.minY), 1e-12);
+  const tolerance = scale * 1e-10;
+
+  // Sweep in x so only edges with overlapping extents are compared
+  const sorted = [...edges].sort((s, t) => s.minX - t.minX);
+  for (let i = 0; i < sorted.length; i++) {
+    const s = sorted[i];
+    for (let j = i + 1; j < sorted.length && sorted[j].minX <= s.maxX + tolerance; j++) {
+      const e = sorted[j];
+      if (e.minY > s.maxY + tolerance || e.maxY < s.minY - tolerance) continue;
+      splitPair(s, e, tolerance);
+    }
+  }
+
+  // Merge vertices closer than the snapping grid so pieces share endpoints
+  const quantum = scale * 1e-9;
+  const vertices = new Map<string, Point2D>();
+  const vertexKey = (p: Point2D) => `${Math.round(p.x / quantum)},${Math.round(p.y / quantum)}`;
+  const snap = (p: Point2D): [string, Point2D] => {
+    const key = vertexKey(p);
+    const existing = vertices.get(key);
+    if (existing) return [key, existing];
+    vertices.set(key, p);
+    return [key, p];
+  };
+
+  // Split edges into pieces, dropping duplicates shared by both operands
+  const pieces = new Map<string, [string, Point2D, string, Point2D]>();
+  for (const edge of edges) {
+    const stops = [{ t: 0, point: edge.a }, ...edge.splits.sort((s, t) => s.t - t.t), { t: 1, point: edge.b }];
+    for (let i = 1; i < stops.length; i++) {
+      const [fromKey, from] = snap(stops[i - 1].point);
+      const [toKey, to] = snap(stops[i].point);
+      if (fromKey === toKey) continue;
+      const key = fromKey < toKey ? `${fromKey}|${toKey}` : `${toKey}|${fromKey}`;
+      if (!pieces.has(key)) pieces.set(key, [fromKey, from, toKey, to]);
+    }
+  }
+
+  // Keep pieces with the result on exactly one side, oriented with it on the left
+  const keep = keepInside[operation];
+  const aOperand = toOperand(a);
+  const bOperand = toOperand(b);
+  const outgoing = new Map<string, DirectedEdge[]>();
+  pieces.forEach(([fromKey, from, toKey, to]) => {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const length = Math.hypot(dx, dy);
+    const offset = sampleOffset(length, scale);
+    const mid = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+    const left = { x: mid.x - (dy / length) * offset, y: mid.y + (dx / length) * offset };
+    const right = { x: mid.x + (dy / length) * offset, y: mid.y - (dx / length) * offset };
+    const leftIn = keep(insideOperand(left, aOperand), insideOperand(left, bOperand));
+    const rightIn = keep(insideOperand(right, aOperand), insideOperand(right, bOperand));
+    if (leftIn === rightIn) return;
+
+    const edge: DirectedEdge = leftIn
+      ? { from: fromKey, to: toKey, a: from, angle: Math.atan2(dy, dx), used: false }
+      : { from: toKey, to: fromKey, a: to, angle: Math.atan2(-dy, -dx), used: false };
+    const list = outgoing.get(edge.from);
+    if (list) list.push(edge);
+    else outgoing.set(edge.from, [edge]);
+  });
+
+  // Walk each boundary, at shared vertices taking the first edge clockwise
+  // from the one we arrived on so touching rings stay separate
+  const rings: Point2D[][] = [];
+  outgoing.forEach(list => {
+    for (const start of list) {
+      if (start.used) continue;
+      const ring: Point2D[] = [];
+      let edge: DirectedEdge | undefined = start;
+      while (edge && !edge.used) {
+        edge.used = true;
+        ring.push(edge.a);
+        const back: number = edge.angle + Math.PI;
+        let next: DirectedEdge | undefined;
+        let best = Infinity;
+        for (const candidate of outgoing.get(edge.to) ?? []) {
+          if (candidate.used && candidate !== start) continue;
+          let turn = (back - candidate.angle) % (2 * Math.PI);
+          if (turn <= 1e-12) turn += 2 * Math.PI;
+          if (turn < best) {
+            best = turn;
+            next = candidate;
+          }
+        }
+        edge = next;
+      }
+      const cleaned = removeCollinear(ring, tolerance);
+      if (cleaned.length >= 3 && Math.abs(ringArea(cleaned)) > tolerance * scale) rings.push(cleaned);
+    }
+  });
+
+  const shells = rings.filter(ring => ringArea(ring) > 0).map(ring => ({ ring, area: ringArea(ring), holes: [] as Point2D[][] }));
+  for (const hole of rings.filter(ring => ringArea(ring) < 0)) {
+    // A point just inside the result next to the hole's first edge
+    const [p, q] = hole;
+    const length = Math.hypot(q.x - p.x, q.y - p.y);
+    const offset = sampleOffset(length, scale);
+    const probe = { x: (p.x + q.x) / 2 - ((q.y - p.y) / length) * offset, y: (p.y + q.y) / 2 + ((q.x - p.x) / length) * offset };
+    let owner: (typeof shells)[number] | undefined;
+    for (const shell of shells) {
+      if ((!owner || shell.area < owner.area) && pointInRing(probe, shell.ring)) owner = shell;
+    }
+    owner?.holes.push(hole);
+  }
+
+  return shells.map(shell => [shell.ring, ...shell.holes]);
+}
+
+// Net area of polygons with holes
+export function polygonsArea(polygons: Polygon[]): number {
+  return polygons.reduce(
+    (sum, [shell, ...holes]) => sum + Math.abs(ringArea(shell)) - holes.reduce((holeSum, hole) => holeSum + Math.abs(ringArea(hole)), 0),
+    0
+  );
+}
+
+// Polygon shapes as boolean operands; other shapes are ignored
+export function shapePolygons(shapes: GeometryShape[]): Polygon[] {
+  return shapes
+    .filter(shape => shape.type === "polygon" && openRing(shape.points).length >= 3)
+    .map(shape => [openRing(shape.points), ...(shape.holes ?? []).map(openRing)]);
+}
+
+export interface BooleanResult {
+  operation: BooleanOperation;
+  polygons: Polygon[];
+  // Area of the result, and of the region covered by both operands
+  area: number;
+  overlapArea: number;
+}
+
+// `measureArea` computes the reported areas, e.g. in ground metres for
+// projected geographic data
+export function booleanShapes(
+  operation: BooleanOperation,
+  a: GeometryShape[],
+  b: GeometryShape[],
+  measureArea: (polygons: Polygon[]) => number = polygonsArea
+): BooleanResult {
+  const aPolygons = shapePolygons(a);
+  const bPolygons = shapePolygons(b);
+  const polygons = booleanPolygons(operation, aPolygons, bPolygons);
+  const overlap = operation === "intersection" ? polygons : booleanPolygons("intersection", aPolygons, bPolygons);
+  return { operation, polygons, area: measureArea(polygons), overlapArea: measureArea(overlap) };
+}
+
+// Shapes for a result, with ids like "union-2" numbered past any in
+// `existing`. Multi-part results get one shape per part sharing a `featureId`.
+export function booleanResultShapes(result: BooleanResult, existing: GeometryShape[]): GeometryShape[] {
+  const { operation, polygons } = result;
+  const parts = polygons.map(([points, ...holes]): ResultPart => (holes.length > 0 ? { type: "polygon", points, holes } : { type: "polygon", points }));
+  return resultShapes(operation, n => `${booleanOperationLabels[operation]} ${n}`, parts, existing);
+}
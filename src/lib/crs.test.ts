@@ -0,0 +1,120 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createProjection,
+  geodesicDistance,
+  geodesicMeasurementValue,
+  geodesicPathLength,
+  geodesicRingArea,
+  projectionOrigin,
+  ShapeProjector,
+  withSourceCrs,
+  type GeographicProjection,
+} from "./crs";
+import type { GeometryShape } from "./geometry";
+
+const kinds: GeographicProjection[] = ["web-mercator", "local"];
+
+// One degree square at the equator
+const square = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+];
+
+describe("createProjection", () => {
+  test.each(kinds)("%s puts the origin at zero", kind => {
+    expect(createProjection(kind, { x: 10, y: 50 }).forward({ x: 10, y: 50 })).toEqual({ x: 0, y: 0 });
+  });
+
+  test.each(kinds)("%s inverts its forward projection", kind => {
+    const projection = createProjection(kind, { x: 10, y: 50 });
+    const back = projection.inverse(projection.forward({ x: 11, y: 51 }));
+    expect(back.x).toBeCloseTo(11, 9);
+    expect(back.y).toBeCloseTo(51, 9);
+  });
+
+  test("offsets Web Mercator by the origin's EPSG:3857 coordinates", () => {
+    const projection = createProjection("web-mercator", { x: 10, y: 50 });
+    expect(projection.offset.x).toBeCloseTo(1113194.908, 3);
+    expect(projection.offset.y).toBeCloseTo(6446275.841, 3);
+    expect(projection.scaleAt(0)).toBeCloseTo(1 / Math.cos((50 * Math.PI) / 180), 12);
+  });
+
+  test("measures the local plane in ground metres", () => {
+    const projection = createProjection("local", { x: 0, y: 0 });
+    expect(projection.forward({ x: 0.01, y: 0 }).x).toBeCloseTo(geodesicDistance({ x: 0, y: 0 }, { x: 0.01, y: 0 }), 1);
+    expect(projection.scaleAt(1000)).toBe(1);
+  });
+});
+
+describe("projectionOrigin", () => {
+  test("centres on the bounds, short of the poles", () => {
+    const shapes: GeometryShape[] = [{ id: "a", name: "A", type: "points", points: [{ x: 0, y: 89 }, { x: 10, y: 89.5 }] }];
+    expect(projectionOrigin(shapes)).toEqual({ x: 5, y: 85.0511287798 });
+    expect(projectionOrigin([])).toEqual({ x: 0, y: 0 });
+  });
+});
+
+describe("geodesic measures", () => {
+  test("match known WGS84 distances", () => {
+    expect(geodesicDistance({ x: 0, y: 0 }, { x: 1, y: 0 })).toBeCloseTo(111319.491, 3);
+    expect(geodesicDistance({ x: 0, y: 0 }, { x: 0, y: 1 })).toBeCloseTo(110574.389, 3);
+    expect(geodesicDistance({ x: 0, y: 0 }, { x: 180, y: 0 })).toBeCloseTo(20015114.442, 3);
+    expect(geodesicDistance({ x: 5, y: 5 }, { x: 5, y: 5 })).toBe(0);
+  });
+
+  test("measure a one degree square at the equator", () => {
+    expect(geodesicRingArea(square) / 1e6).toBeCloseTo(12363.712, 3);
+    expect(geodesicPathLength([...square, square[0]]) / 1e3).toBeCloseTo(443.771, 3);
+  });
+
+  test("measure projected points on the ground", () => {
+    const projection = createProjection("local", { x: 0.5, y: 0.5 });
+    const projected = square.map(projection.forward);
+    expect(geodesicMeasurementValue(projection, "area", projected)).toBeCloseTo(geodesicRingArea(square), 0);
+    expect(geodesicMeasurementValue(projection, "path", projected)).toBeCloseTo(geodesicPathLength(square), 3);
+  });
+});
+
+describe("ShapeProjector", () => {
+  const projection = createProjection("web-mercator", { x: 0, y: 0 });
+  const lonLat: GeometryShape = { id: "a", name: "A", type: "polygon", points: square, crs: "wgs84" };
+  const plain: GeometryShape = { id: "b", name: "B", type: "polygon", points: square };
+
+  test("projects only the shapes in longitude and latitude", () => {
+    const projector = new ShapeProjector(projection, "cartesian");
+    const [a, b] = projector.project([lonLat, plain]);
+    expect(a.points[1].x).toBeCloseTo(111319.491, 3);
+    expect(b).toBe(plain);
+    expect(projector.project([lonLat])[0]).toBe(a);
+  });
+
+  test("projects untagged shapes by the fallback", () => {
+    const projector = new ShapeProjector(projection, "wgs84");
+    expect(projector.project([plain])[0]).not.toBe(plain);
+    expect(projector.project([{ ...plain, crs: "cartesian" }])[0].points).toBe(square);
+  });
+
+  test("returns the source of unchanged shapes and unprojects edited ones", () => {
+    const projector = new ShapeProjector(projection, "cartesian");
+    const [projected] = projector.project([lonLat]);
+    expect(projector.unproject([projected])[0]).toBe(lonLat);
+    const moved = { ...projected, points: projected.points.map(p => ({ x: p.x + 111319.491, y: p.y })) };
+    const [source] = projector.unproject([moved]);
+    expect(source.points[0].x).toBeCloseTo(1, 6);
+    expect(source.points[0].y).toBeCloseTo(0, 9);
+    expect(projector.project([source])[0]).toBe(moved);
+  });
+});
+
+describe("withSourceCrs", () => {
+  const result: GeometryShape = { id: "r", name: "R", type: "polygon", points: square };
+
+  test("tags results with a crs every source shares", () => {
+    const source: GeometryShape = { ...result, crs: "wgs84" };
+    expect(withSourceCrs([result], [source, source])[0].crs).toBe("wgs84");
+    expect(withSourceCrs([result], [source, { ...source, crs: undefined }])[0]).toBe(result);
+    expect(withSourceCrs([result], [])[0]).toBe(result);
+  });
+});
@@ -0,0 +1,308 @@
+import { getBounds, type GeometryShape, type Point2D } from "./geometry";
+import { angleBetween, type MeasureTool } from "./measure";
+
+// Coordinate reference system of a dataset. WGS84 data holds longitude in
+// `x` and latitude in `y`, in degrees.
+export type CoordinateSystem = "cartesian" | "wgs84";
+
+export const coordinateSystemLabels: Record<CoordinateSystem, string> = {
+  cartesian: "Cartesian",
+  wgs84: "WGS84 lon/lat",
+};
+
+// How WGS84 data is flattened for display
+export type GeographicProjection = "web-mercator" | "local";
+
+export const projectionLabels: Record<GeographicProjection, string> = {
+  "web-mercator": "Web Mercator",
+  local: "Local tangent plane",
+};
+
+// WGS84 ellipsoid
+const A = 6378137;
+const F = 1 / 298.257223563;
+const B = A * (1 - F);
+const E2 = F * (2 - F);
+// Radius of the sphere with the ellipsoid's surface area, used for areas
+const AUTHALIC_RADIUS = 6371007.2;
+// Web Mercator stops short of the poles, where y runs off to infinity
+const MAX_MERCATOR_LATITUDE = 85.0511287798;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+export interface Projection {
+  kind: GeographicProjection;
+  // Longitude and latitude that project to (0, 0)
+  origin: Point2D;
+  // Projected coordinates of the origin: EPSG:3857 metres for Web Mercator,
+  // (0, 0) for the local plane. Shapes are drawn relative to the origin so
+  // coordinates stay small enough for the GPU's 32-bit floats.
+  offset: Point2D;
+  forward(lonLat: Point2D): Point2D;
+  inverse(point: Point2D): Point2D;
+  // Projected units per ground metre around projected height `y`
+  scaleAt(y: number): number;
+}
+
+function mercator(lonLat: Point2D): Point2D {
+  const latitude = Math.max(-MAX_MERCATOR_LATITUDE, Math.min(MAX_MERCATOR_LATITUDE, lonLat.y));
+  return { x: A * toRadians(lonLat.x), y: A * Math.log(Math.tan(Math.PI / 4 + toRadians(latitude) / 2)) };
+}
+
+function mercatorLatitude(y: number): number {
+  return toDegrees(2 * Math.atan(Math.exp(y / A)) - Math.PI / 2);
+}
+
+function webMercator(origin: Point2D): Projection {
+  const offset = mercator(origin);
+  return {
+    kind: "web-mercator",
+    origin,
+    offset,
+    forward: lonLat => {
+      const p = mercator(lonLat);
+      return { ...lonLat, x: p.x - offset.x, y: p.y - offset.y };
+    },
+    inverse: point => ({
+      ...point,
+      x: toDegrees((point.x + offset.x) / A),
+      y: mercatorLatitude(point.y + offset.y),
+    }),
+    scaleAt: y => 1 / Math.cos(toRadians(mercatorLatitude(y + offset.y))),
+  };
+}
+
+type Vector3 = [number, number, number];
+
+function toEcef(longitude: number, latitude: number, height = 0): Vector3 {
+  const lambda = toRadians(longitude);
+  const phi = toRadians(latitude);
+  const n = A / Math.sqrt(1 - E2 * Math.sin(phi) ** 2);
+  return [
+    (n + height) * Math.cos(phi) * Math.cos(lambda),
+    (n + height) * Math.cos(phi) * Math.sin(lambda),
+    (n * (1 - E2) + height) * Math.sin(phi),
+  ];
+}
+
+// Longitude, latitude and height above the ellipsoid of an ECEF position
+function fromEcef([x, y, z]: Vector3): { longitude: number; latitude: number; height: number } {
+  const p = Math.hypot(x, y);
+  let phi = Math.atan2(z, p * (1 - E2));
+  let height = 0;
+  for (let i = 0; i < 5; i++) {
+    const n = A / Math.sqrt(1 - E2 * Math.sin(phi) ** 2);
+    height = p / Math.cos(phi) - n;
+    phi = Math.atan2(z, p * (1 - (E2 * n) / (n + height)));
+  }
+  return { longitude: toDegrees(Math.atan2(y, x)), latitude: toDegrees(phi), height };
+}
+
+// East/north/up axes at the origin, as ECEF unit vectors
+function localAxes(origin: Point2D): [Vector3, Vector3, Vector3] {
+  const lambda = toRadians(origin.x);
+  const phi = toRadians(origin.y);
+  return [
+    [-Math.sin(lambda), Math.cos(lambda), 0],
+    [-Math.sin(phi) * Math.cos(lambda), -Math.sin(phi) * Math.sin(lambda), Math.cos(phi)],
+    [Math.cos(phi) * Math.cos(lambda), Math.cos(phi) * Math.sin(lambda), Math.sin(phi)],
+  ];
+}
+
+const dot = (a: Vector3, b: Vector3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+// East and north metres on the plane touching the ellipsoid at the origin
+function localTangentPlane(origin: Point2D): Projection {
+  const center = toEcef(origin.x, origin.y);
+  const [east, north, up] = localAxes(origin);
+  const fromLocal = (e: number, n: number, u: number): Vector3 => [
+    center[0] + e * east[0] + n * north[0] + u * up[0],
+    center[1] + e * east[1] + n * north[1] + u * up[1],
+    center[2] + e * east[2] + n * north[2] + u * up[2],
+  ];
+
+  return {
+    kind: "local",
+    origin,
+    offset: { x: 0, y: 0 },
+    forward: lonLat => {
+      const p = toEcef(lonLat.x, lonLat.y);
+      const d: Vector3 = [p[0] - center[0], p[1] - center[1], p[2] - center[2]];
+      return { ...lonLat, x: dot(d, east), y: dot(d, north) };
+    },
+    // The surface point straight below or above (e, n): lower the up
+    // coordinate until the height above the ellipsoid is zero
+    inverse: point => {
+      let u = 0;
+      let geodetic = fromEcef(fromLocal(point.x, point.y, u));
+      for (let i = 0; i < 10 && Math.abs(geodetic.height) > 1e-6; i++) {
+        u -= geodetic.height;
+        geodetic = fromEcef(fromLocal(point.x, point.y, u));
+      }
+      return { ...point, x: geodetic.longitude, y: geodetic.latitude };
+    },
+    scaleAt: () => 1,
+  };
+}
+
+export function createProjection(kind: GeographicProjection, origin: Point2D): Projection {
+  return kind === "web-mercator" ? webMercator(origin) : localTangentPlane(origin);
+}
+
+// Centre of the shapes' longitude/latitude bounds, used as the projection origin
+export function projectionOrigin(shapes: GeometryShape[]): Point2D {
+  const bounds = getBounds(shapes.flatMap(shape => [shape.points, ...(shape.holes ?? [])]));
+  if (!bounds) return { x: 0, y: 0 };
+  return {
+    x: (bounds.minX + bounds.maxX) / 2,
+    y: Math.max(-MAX_MERCATOR_LATITUDE, Math.min(MAX_MERCATOR_LATITUDE, (bounds.minY + bounds.maxY) / 2)),
+  };
+}
+
+// Vincenty's inverse formula on the WGS84 ellipsoid, in metres. Nearly
+// antipodal points where it fails to converge fall back to a great circle.
+export function geodesicDistance(a: Point2D, b: Point2D): number {
+  const L = toRadians(b.x - a.x);
+  const U1 = Math.atan((1 - F) * Math.tan(toRadians(a.y)));
+  const U2 = Math.atan((1 - F) * Math.tan(toRadians(b.y)));
+  const sinU1 = Math.sin(U1);
+  const cosU1 = Math.cos(U1);
+  const sinU2 = Math.sin(U2);
+  const cosU2 = Math.cos(U2);
+
+  let lambda = L;
+  for (let i = 0; i < 200; i++) {
+    const sinLambda = Math.sin(lambda);
+    const cosLambda = Math.cos(lambda);
+    const sinSigma = Math.hypot(cosU2 * sinLambda, cosU1 * sinU2 - sinU1 * cosU2 * cosLambda);
+    if (sinSigma === 0) return 0;
+    const cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    const sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+    const cos2Alpha = 1 - sinAlpha * sinAlpha;
+    // Both points on the equator
+    const cos2SigmaM = cos2Alpha !== 0 ? cosSigma - (2 * sinU1 * sinU2) / cos2Alpha : 0;
+    const C = (F / 16) * cos2Alpha * (4 + F * (4 - 3 * cos2Alpha));
+    const previous = lambda;
+    lambda = L + (1 - C) * F * sinAlpha * (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM ** 2)));
+
+    if (Math.abs(lambda - previous) < 1e-12) {
+      const uSq = (cos2Alpha * (A * A - B * B)) / (B * B);
+      const bigA = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+      const bigB = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+      const deltaSigma = bigB * sinSigma * (cos2SigmaM + (bigB / 4) * (cosSigma * (-1 + 2 * cos2SigmaM ** 2)
+        - (bigB / 6) * cos2SigmaM * (-3 + 4 * sinSigma ** 2) * (-3 + 4 * cos2SigmaM ** 2)));
+      return B * bigA * (sigma - deltaSigma);
+    }
+  }
+
+  // Haversine on the mean sphere
+  const dPhi = toRadians(b.y - a.y);
+  const h = Math.sin(dPhi / 2) ** 2 + Math.cos(toRadians(a.y)) * Math.cos(toRadians(b.y)) * Math.sin(L / 2) ** 2;
+  return 2 * 6371008.8 * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function geodesicPathLength(points: Point2D[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) length += geodesicDistance(points[i - 1], points[i]);
+  return length;
+}
+
+// Unsigned area of a longitude/latitude ring on the authalic sphere, in m²
+export function geodesicRingArea(ring: Point2D[]): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i];
+    const b = ring[(i + 1) % ring.length];
+    sum += toRadians(b.x - a.x) * (2 + Math.sin(toRadians(a.y)) + Math.sin(toRadians(b.y)));
+  }
+  return Math.abs((sum * AUTHALIC_RADIUS * AUTHALIC_RADIUS) / 2);
+}
+
+// Measurement of projected points in ground metres (or m²). Angles are read
+// off the projected points; Web Mercator keeps them true.
+export function geodesicMeasurementValue(projection: Projection, tool: MeasureTool, points: Point2D[], holes?: Point2D[][]): number {
+  if (tool === "angle") return points.length === 3 ? angleBetween(points[0], points[1], points[2]) : 0;
+  const lonLat = points.map(projection.inverse);
+  if (tool !== "area") return geodesicPathLength(lonLat);
+  const holeArea = (holes ?? []).reduce((sum, hole) => sum + geodesicRingArea(hole.map(projection.inverse)), 0);
+  return geodesicRingArea(lonLat) - holeArea;
+}
+
+function projectRing(ring: Point2D[], projection: Projection): Point2D[] {
+  return ring.map(projection.forward);
+}
+
+// Whether a shape holds longitude/latitude: its own `crs`, or `fallback`
+// for shapes that don't set one
+export function isGeographic(shape: GeometryShape, fallback: CoordinateSystem): boolean {
+  return (shape.crs ?? fallback) === "wgs84";
+}
+
+// Shapes derived from `sources`, e.g. a boolean result, tagged with the
+// sources' `crs` when they all share one
+export function withSourceCrs(results: GeometryShape[], sources: GeometryShape[]): GeometryShape[] {
+  const crs = sources[0]?.crs;
+  return crs && sources.every(source => source.crs === crs) ? results.map(shape => ({ ...shape, crs })) : results;
+}
+
+// Maps geographic shapes between their source longitude/latitude and the
+// projected coordinates the viewer draws and edits; Cartesian shapes pass
+// through as they are. Projected copies are cached per source shape, so
+// unchanged shapes keep their identity across renders.
+export class ShapeProjector {
+  private projected = new WeakMap<GeometryShape, GeometryShape>();
+  private sources = new WeakMap<GeometryShape, GeometryShape>();
+
+  // `fallback` is the coordinate system of shapes without a `crs`
+  constructor(readonly projection: Projection, readonly fallback: CoordinateSystem = "wgs84") {}
+
+  isGeographic(shape: GeometryShape): boolean {
+    return isGeographic(shape, this.fallback);
+  }
+
+  project(shapes: GeometryShape[]): GeometryShape[] {
+    return shapes.map(shape => {
+      if (!this.isGeographic(shape)) return shape;
+      let copy = this.projected.get(shape);
+      if (!copy) {
+        copy = { ...shape, points: projectRing(shape.points, this.projection) };
+        if (shape.holes) copy.holes = shape.holes.map(hole => projectRing(hole, this.projection));
+        if (shape.keyframes) {
+          copy.keyframes = shape.keyframes.map(keyframe => ({
+            ...keyframe,
+            points: projectRing(keyframe.points, this.projection),
+            holes: keyframe.holes?.map(hole => projectRing(hole, this.projection)),
+          }));
+        }
+        this.projected.set(shape, copy);
+        this.sources.set(copy, shape);
+      }
+      return copy;
+    });
+  }
+
+  // Source shapes for projected ones: the original where a shape is
+  // unchanged, otherwise its points are unprojected
+  unproject(shapes: GeometryShape[]): GeometryShape[] {
+    return shapes.map(shape => {
+      const source = this.sources.get(shape);
+      if (source) return source;
+      if (!this.isGeographic(shape)) return shape;
+      const inverse = this.projection.inverse;
+      const original: GeometryShape = { ...shape, points: shape.points.map(inverse) };
+      if (shape.holes) original.holes = shape.holes.map(hole => hole.map(inverse));
+      if (shape.keyframes) {
+        original.keyframes = shape.keyframes.map(keyframe => ({
+          ...keyframe,
+          points: keyframe.points.map(inverse),
+          holes: keyframe.holes?.map(hole => hole.map(inverse)),
+        }));
+      }
+      this.projected.set(original, shape);
+      this.sources.set(shape, original);
+      return original;
+    });
+  }
+}
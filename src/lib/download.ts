@@ -0,0 +1,9 @@
+// Save text content as a file through a temporary object URL
+export function downloadText(filename: string, contents: string, type = "text/plain") {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
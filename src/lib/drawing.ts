@@ -0,0 +1,28 @@
+import type { GeometryShape, Point2D, ShapeType } from "./geometry";
+
+// Vertices needed before a drawn shape can be finished
+export const minimumDrawnVertices: Record<ShapeType, number> = {
+  polygon: 3,
+  polyline: 2,
+  points: 1,
+};
+
+const shapeLabels: Record<ShapeType, string> = {
+  polygon: "Polygon",
+  polyline: "Polyline",
+  points: "Points",
+};
+
+// Drop points that repeat the one before, e.g. the second click of a double click
+export function dedupeConsecutive(points: Point2D[]): Point2D[] {
+  return points.filter((p, i) => i === 0 || p.x !== points[i - 1].x || p.y !== points[i - 1].y);
+}
+
+// A new shape with an id like "polygon-3" and a matching name, numbered past
+// any shapes of the same kind already in `existing`
+export function createDrawnShape(type: ShapeType, points: Point2D[], existing: GeometryShape[]): GeometryShape {
+  const ids = new Set(existing.map(shape => shape.id));
+  let n = existing.filter(shape => shape.type === type).length + 1;
+  while (ids.has(`${type}-${n}`)) n++;
+  return { id: `${type}-${n}`, name: `${shapeLabels[type]} ${n}`, type, points };
+}
@@ -0,0 +1,124 @@
+import type { GeometryShape, Point2D } from "./geometry";
+import { closestPointOnSegment } from "./hitTest";
+
+// A vertex of a shape; ring 0 is the outer ring (or the only point list),
+// ring n is hole n
+export interface VertexRef {
+  shapeId: string;
+  ring: number;
+  index: number;
+}
+
+export function getRing(shape: GeometryShape, ring: number): Point2D[] {
+  return ring === 0 ? shape.points : shape.holes?.[ring - 1] ?? [];
+}
+
+export function getRings(shape: GeometryShape): Point2D[][] {
+  return shape.type === "polygon" ? [shape.points, ...(shape.holes ?? [])] : [shape.points];
+}
+
+// Copy of the shape with one ring replaced
+export function withRing(shape: GeometryShape, ring: number, points: Point2D[]): GeometryShape {
+  if (ring === 0) return { ...shape, points };
+  const holes = [...(shape.holes ?? [])];
+  holes[ring - 1] = points;
+  return { ...shape, holes };
+}
+
+export function replaceShape(shapes: GeometryShape[], shape: GeometryShape): GeometryShape[] {
+  return shapes.map(existing => (existing.id === shape.id ? shape : existing));
+}
+
+// Rings may repeat their first point at the end; edits keep both in step
+function isClosedRing(points: Point2D[]): boolean {
+  if (points.length < 2) return false;
+  const first = points[0];
+  const last = points[points.length - 1];
+  return first.x === last.x && first.y === last.y;
+}
+
+function minimumVertices(shape: GeometryShape): number {
+  return shape.type === "polygon" ? 3 : shape.type === "polyline" ? 2 : 1;
+}
+
+// Keep any z/m ordinates of the vertex being moved
+function movedPoint(original: Point2D, to: Point2D): Point2D {
+  return { ...original, x: to.x, y: to.y };
+}
+
+export function moveVertex(shape: GeometryShape, ring: number, index: number, to: Point2D): GeometryShape {
+  const points = [...getRing(shape, ring)];
+  const closed = shape.type === "polygon" && isClosedRing(points);
+  points[index] = movedPoint(points[index], to);
+  if (closed && index === 0) points[points.length - 1] = movedPoint(points[points.length - 1], to);
+  if (closed && index === points.length - 1) points[0] = movedPoint(points[0], to);
+  return withRing(shape, ring, points);
+}
+
+// Insert `point` so it becomes vertex `index` of the ring
+export function insertVertex(shape: GeometryShape, ring: number, index: number, point: Point2D): GeometryShape {
+  const points = [...getRing(shape, ring)];
+  points.splice(index, 0, point);
+  return withRing(shape, ring, points);
+}
+
+// Remove a vertex, or return null when the ring would become degenerate
+export function deleteVertex(shape: GeometryShape, ring: number, index: number): GeometryShape | null {
+  const points = [...getRing(shape, ring)];
+  const closed = shape.type === "polygon" && isClosedRing(points);
+  const uniqueCount = closed ? points.length - 1 : points.length;
+  if (uniqueCount <= minimumVertices(shape)) return null;
+
+  if (closed && (index === 0 || index === points.length - 1)) {
+    points.shift();
+    points[points.length - 1] = points[0];
+  } else {
+    points.splice(index, 1);
+  }
+  return withRing(shape, ring, points);
+}
+
+// Closest vertex of the shape within `tolerance`
+export function findVertexAt(shape: GeometryShape, point: Point2D, tolerance: number): { ring: number; index: number } | null {
+  let best: { ring: number; index: number } | null = null;
+  let bestDistance = tolerance;
+  getRings(shape).forEach((ring, ringIndex) => {
+    ring.forEach((vertex, index) => {
+      const d = Math.hypot(vertex.x - point.x, vertex.y - point.y);
+      if (d <= bestDistance) {
+        best = { ring: ringIndex, index };
+        bestDistance = d;
+      }
+    });
+  });
+  return best;
+}
+
+// Closest edge within `tolerance`: `index` is where a vertex inserted on it
+// goes and `point` the nearest position on the edge
+export function findEdgeAt(
+  shape: GeometryShape,
+  point: Point2D,
+  tolerance: number
+): { ring: number; index: number; point: Point2D } | null {
+  if (shape.type === "points") return null;
+  let best: { ring: number; index: number; point: Point2D } | null = null;
+  let bestDistance = tolerance;
+
+  getRings(shape).forEach((ring, ringIndex) => {
+    // Open polygon rings have an implicit closing edge
+    const closing = shape.type === "polygon" && !isClosedRing(ring) && ring.length > 2;
+    const count = ring.length - 1 + (closing ? 1 : 0);
+    for (let i = 0; i < count; i++) {
+      const a = ring[i];
+      const b = ring[(i + 1) % ring.length];
+      const closest = closestPointOnSegment(point, a, b);
+      const d = Math.hypot(point.x - closest.x, point.y - closest.y);
+      if (d <= bestDistance) {
+        best = { ring: ringIndex, index: i + 1, point: closest };
+        bestDistance = d;
+      }
+    }
+  });
+  return best;
+}
@@ -0,0 +1,43 @@
+import type { GeometryShape, Point2D } from "./geometry";
+
+// Messages pushed from the server to viewers over /api/ws
+export type ShapeEvent =
+  | { type: "snapshot"; shapes: GeometryShape[] }
+  | { type: "add"; shapes: GeometryShape[] }
+  | { type: "update"; shapes: GeometryShape[] }
+  | { type: "append"; id: string; points: Point2D[]; version: number }
+  | { type: "remove"; ids: string[] }
+  | { type: "clear" };
+
+export type ConnectionStatus = "connecting" | "open" | "closed";
+
+// Apply a server event to a local shape list. Shapes that the event does not
+// touch keep their identity, so memoized rendering is not invalidated.
+export function applyShapeEvent(shapes: GeometryShape[], event: ShapeEvent): GeometryShape[] {
+  switch (event.type) {
+    case "snapshot":
+      return event.shapes;
+    case "add":
+    case "update": {
+      const incoming = new Map(event.shapes.map(shape => [shape.id, shape]));
+      const next = shapes.map(shape => {
+        const replacement = incoming.get(shape.id);
+        if (replacement) incoming.delete(shape.id);
+        return replacement ?? shape;
+      });
+      return [...next, ...Array.from(incoming.values())];
+    }
+    case "append":
+      return shapes.map(shape =>
+        shape.id === event.id ? { ...shape, points: [...shape.points, ...event.points], version: event.version } : shape
+      );
+    case "remove": {
+      const ids = new Set(event.ids);
+      return shapes.filter(shape => !ids.has(shape.id));
+    }
+    case "clear":
+      return [];
+    default:
+      return shapes;
+  }
+}
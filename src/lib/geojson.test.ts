@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import { exportGeoJSON, GeoJSONError, importGeoJSON, type GeoJSONFeatureCollection } from "./geojson";
+
+const collection: GeoJSONFeatureCollection = {
+  type: "FeatureCollection",
+  features: [
+    {
+      type: "Feature",
+      id: "m",
+      properties: { name: "X", group: "parcels" },
+      geometry: {
+        type: "MultiPolygon",
+        coordinates: [
+          [[[0, 0], [4, 0], [4, 4], [0, 0]], [[1, 1], [2, 1], [2, 2], [1, 1]]],
+          [[[5, 5], [6, 5], [6, 6], [5, 5]]],
+        ],
+      },
+    },
+    { type: "Feature", properties: { kind: "road" }, geometry: { type: "LineString", coordinates: [[0, 0, 1], [1, 1, 2]] } },
+    { type: "Feature", properties: {}, geometry: null },
+    {
+      type: "Feature",
+      id: 7,
+      properties: {},
+      geometry: {
+        type: "GeometryCollection",
+        geometries: [{ type: "Point", coordinates: [1, 2] }, { type: "LineString", coordinates: [[0, 0], [1, 1]] }],
+      },
+    },
+  ],
+};
+
+describe("importGeoJSON", () => {
+  test("makes a shape per part, linked by featureId", () => {
+    const shapes = importGeoJSON(collection, "import");
+    expect(shapes.map(shape => [shape.id, shape.name, shape.type, shape.featureId])).toEqual([
+      ["m-1", "X (1)", "polygon", "m"],
+      ["m-2", "X (2)", "polygon", "m"],
+      ["import-2", "LineString 2", "polyline", "import-2"],
+      ["7-1", "GeometryCollection 4 (1)", "points", 7],
+      ["7-2", "GeometryCollection 4 (2)", "polyline", 7],
+    ]);
+  });
+
+  test("keeps holes, heights, properties and the layer", () => {
+    const [first, , line] = importGeoJSON(collection);
+    expect(first.holes).toEqual([[{ x: 1, y: 1 }, { x: 2, y: 1 }, { x: 2, y: 2 }, { x: 1, y: 1 }]]);
+    expect(first.properties).toEqual({ name: "X", group: "parcels" });
+    expect(first.layer).toBe("parcels");
+    expect(first.crs).toBe("wgs84");
+    expect(line.points).toEqual([{ x: 0, y: 0, z: 1 }, { x: 1, y: 1, z: 2 }]);
+  });
+
+  test("accepts a bare geometry", () => {
+    const shapes = importGeoJSON({ type: "Point", coordinates: [3, 4] });
+    expect(shapes.map(shape => [shape.id, shape.points])).toEqual([["feature-1", [{ x: 3, y: 4 }]]]);
+  });
+
+  test.each([
+    [null, "GeoJSON input must be an object"],
+    [{ type: "Point", coordinates: [1] }, "feature.geometry.coordinates: expected a position like [x, y]"],
+    [{ type: "FeatureCollection", features: [null] }, "features[0]: expected a Feature object"],
+    [{ type: "FeatureCollection", features: {} }, "features: expected an array"],
+    [{ type: "Circle" }, 'feature.geometry: unsupported geometry type "Circle"'],
+  ])("rejects %j", (input, message) => {
+    expect(() => importGeoJSON(input)).toThrow(new GeoJSONError(message));
+  });
+});
+
+describe("exportGeoJSON", () => {
+  test("round-trips features and their properties", () => {
+    const exported = exportGeoJSON(importGeoJSON(collection, "import"));
+    expect(exported.features).toEqual([
+      collection.features[0],
+      { ...collection.features[1], id: "import-2" },
+      collection.features[3],
+    ]);
+  });
+
+  test("writes back a renamed shape and a moved layer", () => {
+    const shapes = importGeoJSON(collection);
+    shapes[0] = { ...shapes[0], layer: "lots" };
+    shapes[2] = { ...shapes[2], name: "High street" };
+    const [multi, line] = exportGeoJSON(shapes).features;
+    expect(multi.properties).toEqual({ name: "X", group: "parcels", layer: "lots" });
+    expect(line.properties).toEqual({ kind: "road", name: "High street" });
+  });
+
+  test("names shapes that weren't imported", () => {
+    const [feature] = exportGeoJSON([{ id: "a", name: "Drawn", type: "points", points: [{ x: 1, y: 2 }] }]).features;
+    expect(feature).toEqual({ type: "Feature", id: "a", geometry: { type: "Point", coordinates: [1, 2] }, properties: { name: "Drawn" } });
+  });
+});
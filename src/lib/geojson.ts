@@ -0,0 +1,226 @@
+import { groupShapesByFeature, type GeometryShape, type Point2D, type ShapeType } from "./geometry";
+
+// Minimal GeoJSON (RFC 7946) types covering what the viewer imports and exports
+export type Position = number[];
+
+export type GeoJSONGeometry =
+  | { type: "Point"; coordinates: Position }
+  | { type: "MultiPoint"; coordinates: Position[] }
+  | { type: "LineString"; coordinates: Position[] }
+  | { type: "MultiLineString"; coordinates: Position[][] }
+  | { type: "Polygon"; coordinates: Position[][] }
+  | { type: "MultiPolygon"; coordinates: Position[][][] }
+  | { type: "GeometryCollection"; geometries: GeoJSONGeometry[] };
+
+export interface GeoJSONFeature {
+  type: "Feature";
+  id?: string | number;
+  geometry: GeoJSONGeometry | null;
+  properties: Record<string, unknown> | null;
+}
+
+export interface GeoJSONFeatureCollection {
+  type: "FeatureCollection";
+  features: GeoJSONFeature[];
+}
+
+export class GeoJSONError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GeoJSONError";
+  }
+}
+
+function toPoint(position: Position, path: string): Point2D {
+  if (!Array.isArray(position) || position.length < 2 || typeof position[0] !== "number" || typeof position[1] !== "number") {
+    throw new GeoJSONError(`${path}: expected a position like [x, y]`);
+  }
+  const point: Point2D = { x: position[0], y: position[1] };
+  if (typeof position[2] === "number") point.z = position[2];
+  return point;
+}
+
+function toPoints(positions: Position[], path: string): Point2D[] {
+  if (!Array.isArray(positions)) {
+    throw new GeoJSONError(`${path}: expected an array of positions`);
+  }
+  return positions.map((position, i) => toPoint(position, `${path}[${i}]`));
+}
+
+function expectArray<T>(value: T[], path: string): T[] {
+  if (!Array.isArray(value)) {
+    throw new GeoJSONError(`${path}: expected an array`);
+  }
+  return value;
+}
+
+// Flatten a geometry into single-part pieces, one per future shape
+type ShapePart = { type: ShapeType; points: Point2D[]; holes?: Point2D[][] };
+
+// A polygon's first ring is the shell, the rest are holes
+function polygonPart(rings: Position[][], path: string): ShapePart {
+  const [shell = [], ...holes] = expectArray(rings, path);
+  const part: ShapePart = { type: "polygon", points: toPoints(shell, `${path}[0]`) };
+  if (holes.length > 0) part.holes = holes.map((hole, i) => toPoints(hole, `${path}[${i + 1}]`));
+  return part;
+}
+
+function geometryParts(geometry: GeoJSONGeometry, path: string): ShapePart[] {
+  if (!geometry || typeof geometry !== "object") {
+    throw new GeoJSONError(`${path}: expected a geometry object`);
+  }
+  switch (geometry.type) {
+    case "Point":
+      return [{ type: "points", points: [toPoint(geometry.coordinates, `${path}.coordinates`)] }];
+    case "MultiPoint":
+      return [{ type: "points", points: toPoints(geometry.coordinates, `${path}.coordinates`) }];
+    case "LineString":
+      return [{ type: "polyline", points: toPoints(geometry.coordinates, `${path}.coordinates`) }];
+    case "MultiLineString":
+      return expectArray(geometry.coordinates, `${path}.coordinates`).map((line, i) => ({
+        type: "polyline",
+        points: toPoints(line, `${path}.coordinates[${i}]`),
+      }));
+    case "Polygon":
+      return [polygonPart(geometry.coordinates, `${path}.coordinates`)];
+    case "MultiPolygon":
+      return expectArray(geometry.coordinates, `${path}.coordinates`).map((polygon, i) =>
+        polygonPart(polygon, `${path}.coordinates[${i}]`)
+      );
+    case "GeometryCollection":
+      return expectArray(geometry.geometries, `${path}.geometries`).flatMap((child, i) =>
+        geometryParts(child, `${path}.geometries[${i}]`)
+      );
+    default:
+      throw new GeoJSONError(`${path}: unsupported geometry type "${(geometry as { type?: unknown }).type}"`);
+  }
+}
+
+function featureToShapes(feature: GeoJSONFeature, index: number, path: string, prefix: string): GeometryShape[] {
+  if (!feature || typeof feature !== "object") {
+    throw new GeoJSONError(`${path}: expected a Feature object`);
+  }
+  if (!feature.geometry) return [];
+
+  const featureId = feature.id ?? `${prefix}-${index + 1}`;
+  const properties = feature.properties ?? {};
+  const baseName = typeof properties.name === "string" ? properties.name : `${feature.geometry.type} ${index + 1}`;
+  const parts = geometryParts(feature.geometry, `${path}.geometry`);
+
+  // A string `layer` (or `group`) property puts the shapes in that layer
+  const layerName = typeof properties.layer === "string" ? properties.layer : properties.group;
+  const layer = typeof layerName === "string" ? { layer: layerName } : {};
+
+  return parts.map((part, partIndex) => ({
+    ...part,
+    id: parts.length > 1 ? `${featureId}-${partIndex + 1}` : String(featureId),
+    name: parts.length > 1 ? `${baseName} (${partIndex + 1})` : baseName,
+    properties,
+    featureId,
+    ...layer,
+    // RFC 7946 positions are always WGS84 longitude/latitude
+    crs: "wgs84",
+  }));
+}
+
+// Convert a FeatureCollection, Feature or bare geometry into shapes. Multi*
+// geometries become one shape per part, linked through `featureId`.
+// Features without an `id` are numbered after `prefix`; pass a fresh one per
+// import so a second file doesn't replace the first one's shapes.
+export function importGeoJSON(input: unknown, prefix = "feature"): GeometryShape[] {
+  if (!input || typeof input !== "object") {
+    throw new GeoJSONError("GeoJSON input must be an object");
+  }
+
+  const object = input as { type?: unknown };
+  switch (object.type) {
+    case "FeatureCollection": {
+      const features = expectArray((input as GeoJSONFeatureCollection).features, "features");
+      return features.flatMap((feature, i) => featureToShapes(feature, i, `features[${i}]`, prefix));
+    }
+    case "Feature":
+      return featureToShapes(input as GeoJSONFeature, 0, "feature", prefix);
+    default:
+      return featureToShapes({ type: "Feature", geometry: input as GeoJSONGeometry, properties: null }, 0, "feature", prefix);
+  }
+}
+
+function toPosition(point: Point2D): Position {
+  return point.z !== undefined ? [point.x, point.y, point.z] : [point.x, point.y];
+}
+
+// GeoJSON requires polygon rings to repeat their first position at the end
+function closeRing(points: Point2D[]): Position[] {
+  const ring = points.map(toPosition);
+  if (ring.length > 0) {
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    if (first[0] !== last[0] || first[1] !== last[1]) ring.push([...first]);
+  }
+  return ring;
+}
+
+function polygonRings(shape: GeometryShape): Position[][] {
+  return [shape.points, ...(shape.holes ?? [])].map(closeRing);
+}
+
+function shapesToGeometry(shapes: GeometryShape[]): GeoJSONGeometry {
+  const types = new Set(shapes.map(shape => shape.type));
+  if (types.size > 1) {
+    return { type: "GeometryCollection", geometries: shapes.map(shape => shapesToGeometry([shape])) };
+  }
+
+  switch (shapes[0].type) {
+    case "points": {
+      const points = shapes.flatMap(shape => shape.points).map(toPosition);
+      return points.length === 1 ? { type: "Point", coordinates: points[0] } : { type: "MultiPoint", coordinates: points };
+    }
+    case "polyline":
+      return shapes.length === 1
+        ? { type: "LineString", coordinates: shapes[0].points.map(toPosition) }
+        : { type: "MultiLineString", coordinates: shapes.map(shape => shape.points.map(toPosition)) };
+    case "polygon":
+      return shapes.length === 1
+        ? { type: "Polygon", coordinates: polygonRings(shapes[0]) }
+        : { type: "MultiPolygon", coordinates: shapes.map(polygonRings) };
+  }
+}
+
+// Whether the shape still has the name the import gave it: the feature's
+// `name` property, or its geometry type and number, plus a part number for
+// the parts of a Multi* geometry
+function hasImportedName(shape: GeometryShape, properties: Record<string, unknown>): boolean {
+  const base = shape.name.replace(/ \(\d+\)$/, "");
+  return typeof properties.name === "string"
+    ? shape.name === properties.name || base === properties.name
+    : /^[A-Za-z]+ \d+$/.test(base);
+}
+
+// The stored properties, with the shape's name and layer written over them
+// only where they were changed since the import. Shapes that weren't
+// imported carry just their name and layer.
+function featureProperties(shape: GeometryShape): Record<string, unknown> {
+  if (!shape.properties) return { name: shape.name, ...(shape.layer ? { layer: shape.layer } : {}) };
+
+  const properties = { ...shape.properties };
+  if (!hasImportedName(shape, properties)) properties.name = shape.name;
+  const storedLayer = typeof properties.layer === "string" ? properties.layer : properties.group;
+  if (shape.layer !== storedLayer) {
+    if (shape.layer) properties.layer = shape.layer;
+    else delete properties.layer;
+  }
+  return properties;
+}
+
+// Convert shapes back into a FeatureCollection. Shapes sharing a `featureId`
+// are recombined into one Multi* feature.
+export function exportGeoJSON(shapes: GeometryShape[]): GeoJSONFeatureCollection {
+  const features = groupShapesByFeature(shapes).map(({ id, shapes: group }): GeoJSONFeature => ({
+    type: "Feature",
+    id,
+    geometry: shapesToGeometry(group),
+    properties: featureProperties(group[0]),
+  }));
+
+  return { type: "FeatureCollection", features };
+}
@@ -0,0 +1,111 @@
+import type { CoordinateSystem } from "./crs";
+import type { ShapeStyle } from "./style";
+
+// Geometry types shared by the viewer, the client API and the server store
+export interface Point2D {
+  x: number;
+  y: number;
+  // Optional elevation and measure, kept when importing Z/M geometry
+  z?: number;
+  m?: number;
+}
+
+export type ShapeType = "polygon" | "polyline" | "points";
+
+// The shape's geometry at one moment of a timeline
+export interface Keyframe {
+  time: number;
+  points: Point2D[];
+  holes?: Point2D[][];
+}
+
+export interface GeometryShape {
+  id: string;
+  name: string;
+  type: ShapeType;
+  // The outer ring for polygons, the vertices for polylines and point sets
+  points: Point2D[];
+  // Interior rings (holes) of a polygon, each wound like `points`
+  holes?: Point2D[][];
+  style?: ShapeStyle;
+  // Arbitrary attributes, e.g. the properties of an imported GeoJSON Feature
+  properties?: Record<string, unknown>;
+  // Id of the source feature; parts of a Multi* geometry share it
+  featureId?: string | number;
+  // Name of the layer the shape is grouped under in the layers panel
+  layer?: string;
+  // Revision counter, bumped by the server store on every change to the shape
+  version?: number;
+  // Timestamp or frame index the shape appears at. Timed shapes sharing a
+  // `featureId` are snapshots of one feature, each shown until the next.
+  time?: number;
+  // Geometry over time, in time order; replaces `points` and `holes` while
+  // a timeline is shown
+  keyframes?: Keyframe[];
+  // Coordinate system of the points; shapes without one follow the viewer's
+  crs?: CoordinateSystem;
+}
+
+// Group shapes by their source feature, keeping first-seen order. Shapes
+// without a `featureId` form a group of their own.
+export function groupShapesByFeature(shapes: GeometryShape[]): { id: string | number; shapes: GeometryShape[] }[] {
+  const groups = new Map<string | number, GeometryShape[]>();
+  for (const shape of shapes) {
+    const key = shape.featureId ?? shape.id;
+    const group = groups.get(key);
+    if (group) group.push(shape);
+    else groups.set(key, [shape]);
+  }
+  return Array.from(groups, ([id, groupShapes]) => ({ id, shapes: groupShapes }));
+}
+
+// One part of a shape derived from others, e.g. a boolean or offset result
+export type ResultPart = Omit<GeometryShape, "id" | "name" | "featureId" | "version">;
+
+// Shapes for a derived result, with ids like "union-2" numbered past any in
+// `existing` and named by `label(n)`. Multi-part results get one shape per
+// part, suffixed "-1", "-2"…, sharing the numbered id as their `featureId`.
+export function resultShapes(base: string, label: (n: number) => string, parts: ResultPart[], existing: GeometryShape[]): GeometryShape[] {
+  const ids = new Set(existing.map(shape => shape.id));
+  let n = 1;
+  while (ids.has(`${base}-${n}`) || ids.has(`${base}-${n}-1`)) n++;
+
+  const featureId = `${base}-${n}`;
+  const name = label(n);
+  return parts.map((part, index) => {
+    const multi = parts.length > 1;
+    return {
+      ...part,
+      id: multi ? `${featureId}-${index + 1}` : featureId,
+      name: multi ? `${name} (${index + 1})` : name,
+      featureId,
+    };
+  });
+}
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Bounding box of several point lists, or null when there are no points.
+// Points with NaN or infinite coordinates are skipped. Loops instead of
+// Math.min(...xs) so very large point clouds don't overflow the stack.
+export function getBounds(pointLists: Point2D[][]): Bounds | null {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const points of pointLists) {
+    for (const { x, y } of points) {
+      if (!Number.isFinite(x) || !Number.isFinite(y)) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  return minX === Infinity ? null : { minX, minY, maxX, maxY };
+}
@@ -0,0 +1,21 @@
+import type { GeometryShape } from "./geometry";
+import { parseWKB } from "./wkb";
+import { parseWKT } from "./wkt";
+
+export type GeometryTextFormat = "wkt" | "wkb";
+
+// Hex WKB starts with a 00/01 byte order marker (optionally after a bytea
+// "\x" prefix); WKT always starts with a letter
+const WKB_START = /^\s*(?:\\x)?0[01]/i;
+
+export function detectGeometryFormat(text: string): GeometryTextFormat {
+  return WKB_START.test(text) && !text.includes("(") ? "wkb" : "wkt";
+}
+
+// Parse pasted WKT or hex WKB, whichever the text looks like. Throws
+// GeometryParseError with the line and column of the first problem.
+export function parseGeometryText(text: string, idPrefix?: string): { format: GeometryTextFormat; shapes: GeometryShape[] } {
+  const format = detectGeometryFormat(text);
+  const shapes = format === "wkb" ? parseWKB(text, idPrefix) : parseWKT(text, idPrefix);
+  return { format, shapes };
+}
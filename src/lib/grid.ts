@@ -0,0 +1,49 @@
+// Grid spacing helpers shared by the grid lines and their labels
+
+// Smallest 1, 2 or 5 × 10ⁿ that is at least `minimum`
+export function niceStep(minimum: number): number {
+  if (!(minimum > 0) || !Number.isFinite(minimum)) return 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(minimum)));
+  for (const factor of [1, 2, 5, 10]) {
+    const step = factor * magnitude;
+    if (step >= minimum * (1 - 1e-9)) return step;
+  }
+  return 10 * magnitude;
+}
+
+export interface GridSpacing {
+  major: number;
+  minor: number;
+}
+
+// Major lines at least `minMajorPixels` apart on screen. A 1 or 5 step is
+// split into fifths, a 2 step into quarters, so minor lines stay on the
+// 1/2/5 sequence as well.
+export function gridSpacing(worldPerPixel: number, minMajorPixels = 100): GridSpacing {
+  const major = niceStep(worldPerPixel * minMajorPixels);
+  const mantissa = Math.round(major / Math.pow(10, Math.floor(Math.log10(major) + 1e-9)));
+  return { major, minor: major / (mantissa === 2 ? 4 : 5) };
+}
+
+// Multiples of `step` within [min, max]
+export function gridValues(min: number, max: number, step: number): number[] {
+  const values: number[] = [];
+  const first = Math.ceil(min / step);
+  const last = Math.floor(max / step);
+  for (let i = first; i <= last; i++) values.push(i * step);
+  return values;
+}
+
+// Format a tick value with just enough decimals for the step
+export function formatGridValue(value: number, step: number): string {
+  const decimals = Math.max(0, -Math.floor(Math.log10(step) + 1e-9));
+  const text = value.toFixed(Math.min(decimals, 20));
+  return /^-0(\.0*)?$/.test(text) ? text.slice(1) : text;
+}
+
+// Format a distance in metres for a grid step also in metres, switching to
+// kilometres once the step reaches 1 km
+export function formatGridDistance(meters: number, step: number): string {
+  if (step >= 1000) return `${formatGridValue(meters / 1000, step / 1000)} km`;
+  return `${formatGridValue(meters, step)} m`;
+}
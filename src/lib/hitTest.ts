@@ -0,0 +1,92 @@
+import { getBounds, type Bounds, type GeometryShape, type Point2D } from "./geometry";
+import { pointInPolygon } from "./measure";
+import { segmentIntersection } from "./analytics";
+
+// Nearest position to `point` on the segment ab
+export function closestPointOnSegment(point: Point2D, a: Point2D, b: Point2D): Point2D {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+  return { x: a.x + t * dx, y: a.y + t * dy };
+}
+
+export function distanceToSegment(point: Point2D, a: Point2D, b: Point2D): number {
+  const closest = closestPointOnSegment(point, a, b);
+  return Math.hypot(point.x - closest.x, point.y - closest.y);
+}
+
+// Rings drawn as lines: polygon rings are closed, polylines open, points have none
+function edgeRings(shape: GeometryShape): { ring: Point2D[]; closed: boolean }[] {
+  if (shape.type === "points") return [];
+  if (shape.type === "polyline") return [{ ring: shape.points, closed: false }];
+  return [shape.points, ...(shape.holes ?? [])].map(ring => ({ ring, closed: true }));
+}
+
+function nearEdge(shape: GeometryShape, point: Point2D, tolerance: number): boolean {
+  return edgeRings(shape).some(({ ring, closed }) => {
+    const count = closed ? ring.length : ring.length - 1;
+    for (let i = 0; i < count; i++) {
+      if (distanceToSegment(point, ring[i], ring[(i + 1) % ring.length]) <= tolerance) return true;
+    }
+    return false;
+  });
+}
+
+function nearVertex(shape: GeometryShape, point: Point2D, tolerance: number): boolean {
+  return shape.points.some(p => Math.hypot(p.x - point.x, p.y - point.y) <= tolerance);
+}
+
+// The shape under `point`: edges and point markers win over fills, and later
+// (top-most) shapes win over earlier ones. `tolerance` is in world units.
+export function hitTestShapes(shapes: GeometryShape[], point: Point2D, tolerance: number): GeometryShape | undefined {
+  for (let i = shapes.length - 1; i >= 0; i--) {
+    const shape = shapes[i];
+    const hit = shape.type === "points" ? nearVertex(shape, point, tolerance) : nearEdge(shape, point, tolerance);
+    if (hit) return shape;
+  }
+  for (let i = shapes.length - 1; i >= 0; i--) {
+    const shape = shapes[i];
+    if (shape.type === "polygon" && pointInPolygon(point, shape)) return shape;
+  }
+  return undefined;
+}
+
+function inBox(point: Point2D, box: Bounds): boolean {
+  return point.x >= box.minX && point.x <= box.maxX && point.y >= box.minY && point.y <= box.maxY;
+}
+
+// Whether any part of the shape (vertex, edge or fill) lies inside the box
+export function shapeIntersectsBox(shape: GeometryShape, box: Bounds): boolean {
+  const bounds = getBounds([shape.points]);
+  if (!bounds || bounds.maxX < box.minX || bounds.minX > box.maxX || bounds.maxY < box.minY || bounds.minY > box.maxY) {
+    return false;
+  }
+  if (shape.points.some(point => inBox(point, box))) return true;
+
+  const corners = [
+    { x: box.minX, y: box.minY },
+    { x: box.maxX, y: box.minY },
+    { x: box.maxX, y: box.maxY },
+    { x: box.minX, y: box.maxY },
+  ];
+  const crossesBox = edgeRings(shape).some(({ ring, closed }) => {
+    const count = closed ? ring.length : ring.length - 1;
+    for (let i = 0; i < count; i++) {
+      const a = ring[i];
+      const b = ring[(i + 1) % ring.length];
+      for (let j = 0; j < 4; j++) {
+        if (segmentIntersection(a, b, corners[j], corners[(j + 1) % 4])) return true;
+      }
+    }
+    return false;
+  });
+  if (crossesBox) return true;
+
+  // A box entirely inside a polygon's fill
+  return shape.type === "polygon" && pointInPolygon(corners[0], shape);
+}
+
+export function shapesInBox(shapes: GeometryShape[], box: Bounds): GeometryShape[] {
+  return shapes.filter(shape => shapeIntersectsBox(shape, box));
+}
@@ -0,0 +1,54 @@
+import type { GeometryShape } from "./geometry";
+
+// An entry in the layers panel: a shape on its own, or a named layer of shapes
+export type LayerEntry =
+  | { kind: "shape"; shape: GeometryShape }
+  | { kind: "layer"; name: string; shapes: GeometryShape[] };
+
+// Shapes in draw order (first drawn first). Ids missing from `order`, e.g.
+// shapes added since it was last changed, keep their relative order on top.
+export function orderShapes(shapes: GeometryShape[], order: string[]): GeometryShape[] {
+  if (order.length === 0) return shapes;
+  const rank = new Map(order.map((id, index) => [id, index]));
+  return shapes
+    .map((shape, index) => ({ shape, key: rank.get(shape.id) ?? order.length + index }))
+    .sort((a, b) => a.key - b.key)
+    .map(entry => entry.shape);
+}
+
+// Move `ids` so they sit directly above `targetId` in draw order (or on top
+// when `targetId` is null), keeping their relative order
+export function moveInDrawOrder(order: string[], ids: string[], targetId: string | null): string[] {
+  const moving = order.filter(id => ids.includes(id));
+  const rest = order.filter(id => !ids.includes(id));
+  const index = targetId === null ? rest.length : rest.indexOf(targetId) + 1;
+  return [...rest.slice(0, index), ...moving, ...rest.slice(index)];
+}
+
+// Panel entries from top (drawn last) to bottom. A layer appears where its
+// top-most shape is, and lists its shapes top first too.
+export function buildLayerEntries(orderedShapes: GeometryShape[]): LayerEntry[] {
+  const entries: LayerEntry[] = [];
+  const layers = new Map<string, GeometryShape[]>();
+  for (let i = orderedShapes.length - 1; i >= 0; i--) {
+    const shape = orderedShapes[i];
+    if (!shape.layer) {
+      entries.push({ kind: "shape", shape });
+      continue;
+    }
+    const members = layers.get(shape.layer);
+    if (members) {
+      members.push(shape);
+    } else {
+      const created = [shape];
+      layers.set(shape.layer, created);
+      entries.push({ kind: "layer", name: shape.layer, shapes: created });
+    }
+  }
+  return entries;
+}
+
+// Shapes that are drawn: not hidden, and soloed when anything is soloed
+export function visibleShapes(shapes: GeometryShape[], hidden: Set<string>, solo: Set<string>): GeometryShape[] {
+  return shapes.filter(shape => !hidden.has(shape.id) && (solo.size === 0 || solo.has(shape.id)));
+}
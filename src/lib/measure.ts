@@ -0,0 +1,157 @@
+import type { GeometryShape, Point2D } from "./geometry";
+
+export type MeasureTool = "distance" | "path" | "angle" | "area";
+
+// A finished measurement. `points` are the clicked (or snapped) positions;
+// for an area they are the measured polygon's outer ring.
+export interface Measurement {
+  id: string;
+  tool: MeasureTool;
+  points: Point2D[];
+  holes?: Point2D[][];
+  value: number;
+}
+
+// Clicks needed to finish a measurement; a path is finished explicitly
+export const measureToolClicks: Record<MeasureTool, number | null> = {
+  distance: 2,
+  path: null,
+  angle: 3,
+  area: 1,
+};
+
+export function distance(a: Point2D, b: Point2D): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+export function pathLength(points: Point2D[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) length += distance(points[i - 1], points[i]);
+  return length;
+}
+
+// Angle at `vertex` between the rays to `a` and `b`, in degrees (0–180)
+export function angleBetween(a: Point2D, vertex: Point2D, b: Point2D): number {
+  const angle = Math.abs(
+    Math.atan2(b.y - vertex.y, b.x - vertex.x) - Math.atan2(a.y - vertex.y, a.x - vertex.x)
+  );
+  return ((angle > Math.PI ? 2 * Math.PI - angle : angle) * 180) / Math.PI;
+}
+
+// Shoelace area; positive for counter-clockwise rings. The ring may be open or closed.
+export function ringArea(ring: Point2D[]): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i];
+    const b = ring[(i + 1) % ring.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return sum / 2;
+}
+
+// Area of a polygon shape, with its holes subtracted
+export function polygonArea(shape: Pick<GeometryShape, "points" | "holes">): number {
+  const holes = (shape.holes ?? []).reduce((sum, hole) => sum + Math.abs(ringArea(hole)), 0);
+  return Math.abs(ringArea(shape.points)) - holes;
+}
+
+// Area-weighted centroid of a ring, falling back to the vertex average for degenerate rings
+export function ringCentroid(ring: Point2D[]): Point2D {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i];
+    const b = ring[(i + 1) % ring.length];
+    const cross = a.x * b.y - b.x * a.y;
+    area += cross;
+    cx += (a.x + b.x) * cross;
+    cy += (a.y + b.y) * cross;
+  }
+  if (Math.abs(area) < 1e-12) {
+    const n = Math.max(ring.length, 1);
+    return {
+      x: ring.reduce((sum, p) => sum + p.x, 0) / n,
+      y: ring.reduce((sum, p) => sum + p.y, 0) / n,
+    };
+  }
+  return { x: cx / (3 * area), y: cy / (3 * area) };
+}
+
+// Even-odd ray casting test
+export function pointInRing(point: Point2D, ring: Point2D[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function pointInPolygon(point: Point2D, shape: Pick<GeometryShape, "points" | "holes">): boolean {
+  return pointInRing(point, shape.points) && !(shape.holes ?? []).some(hole => pointInRing(point, hole));
+}
+
+// The top-most (last drawn) polygon containing `point`
+export function findPolygonAt(shapes: GeometryShape[], point: Point2D): GeometryShape | undefined {
+  for (let i = shapes.length - 1; i >= 0; i--) {
+    const shape = shapes[i];
+    if (shape.type === "polygon" && pointInPolygon(point, shape)) return shape;
+  }
+  return undefined;
+}
+
+// Closest vertex of any shape within `maxDistance` of `point`
+export function nearestVertex(shapes: GeometryShape[], point: Point2D, maxDistance: number): Point2D | null {
+  let best: Point2D | null = null;
+  let bestDistance = maxDistance;
+  for (const shape of shapes) {
+    for (const ring of [shape.points, ...(shape.holes ?? [])]) {
+      for (const vertex of ring) {
+        const d = distance(point, vertex);
+        if (d <= bestDistance) {
+          best = vertex;
+          bestDistance = d;
+        }
+      }
+    }
+  }
+  return best;
+}
+
+// Computes a measurement's value from its points
+export type MeasureFunction = (tool: MeasureTool, points: Point2D[], holes?: Point2D[][]) => number;
+
+export function measurementValue(tool: MeasureTool, points: Point2D[], holes?: Point2D[][]): number {
+  switch (tool) {
+    case "distance":
+    case "path":
+      return pathLength(points);
+    case "angle":
+      return points.length === 3 ? angleBetween(points[0], points[1], points[2]) : 0;
+    case "area":
+      return polygonArea({ points, holes });
+  }
+}
+
+export interface MeasureFormat {
+  units: string;
+  precision: number;
+}
+
+export function formatNumber(value: number, precision: number): string {
+  return value.toLocaleString(undefined, {
+    minimumFractionDigits: precision,
+    maximumFractionDigits: precision,
+  });
+}
+
+export function formatMeasurement(tool: MeasureTool, value: number, { units, precision }: MeasureFormat): string {
+  const number = formatNumber(value, precision);
+  if (tool === "angle") return `${number}°`;
+  if (!units) return number;
+  return tool === "area" ? `${number} ${units}²` : `${number} ${units}`;
+}
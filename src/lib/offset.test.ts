@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import { polygonsArea } from "./boolean";
+import type { GeometryShape } from "./geometry";
+import { offsetResultShapes, offsetShape, type OffsetOptions } from "./offset";
+
+const square: GeometryShape = {
+  id: "square",
+  name: "Square",
+  type: "polygon",
+  points: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }],
+};
+
+const line: GeometryShape = { id: "line", name: "Line", type: "polyline", points: [{ x: 0, y: 0 }, { x: 10, y: 0 }] };
+
+function options(overrides: Partial<OffsetOptions>): OffsetOptions {
+  return { distance: 1, join: "miter", cap: "flat", miterLimit: 4, ...overrides };
+}
+
+describe("offsetShape", () => {
+  test("grows a square by the distance with each join", () => {
+    expect(polygonsArea(offsetShape(square, options({ join: "miter" })))).toBeCloseTo(144, 9);
+    // Square joins cut a triangle √2 − 1 deep off each corner; round ones
+    // are close to a quarter circle
+    expect(polygonsArea(offsetShape(square, options({ join: "square" })))).toBeCloseTo(144 - 4 * (Math.SQRT2 - 1) ** 2, 9);
+    expect(polygonsArea(offsetShape(square, options({ join: "round" })))).toBeCloseTo(140 + Math.PI, 1);
+  });
+
+  test("shrinks with a negative distance until nothing is left", () => {
+    expect(polygonsArea(offsetShape(square, options({ distance: -1 })))).toBeCloseTo(64, 9);
+    expect(offsetShape(square, options({ distance: -6 }))).toEqual([]);
+  });
+
+  test("shrinks holes as the outline grows", () => {
+    const framed: GeometryShape = { ...square, holes: [[{ x: 3, y: 3 }, { x: 3, y: 7 }, { x: 7, y: 7 }, { x: 7, y: 3 }]] };
+    expect(polygonsArea(offsetShape(framed, options({})))).toBeCloseTo(144 - 4, 9);
+  });
+
+  test("squares off sharp miters past the limit", () => {
+    const sliver: GeometryShape = { ...square, points: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 0, y: 1 }] };
+    const limited = polygonsArea(offsetShape(sliver, options({ miterLimit: 2 })));
+    const unlimited = polygonsArea(offsetShape(sliver, options({ miterLimit: 100 })));
+    expect(limited).toBeLessThan(unlimited);
+  });
+
+  test.each([
+    ["flat", 20],
+    ["square", 24],
+    ["round", 20 + Math.PI],
+  ] as const)("buffers a polyline with %s caps", (cap, area) => {
+    expect(polygonsArea(offsetShape(line, options({ cap })))).toBeCloseTo(area, 1);
+  });
+
+  test("buffers a polyline by the size of a negative distance", () => {
+    expect(polygonsArea(offsetShape(line, options({ distance: -1 })))).toBeCloseTo(20, 9);
+  });
+});
+
+describe("offsetResultShapes", () => {
+  test("names results after the source and keeps its layer and crs", () => {
+    const source: GeometryShape = { ...square, layer: "parcels", crs: "wgs84" };
+    const [result] = offsetResultShapes(offsetShape(source, options({})), source, options({}), [source]);
+    expect(result).toMatchObject({ id: "square-offset-1", name: "Square offset 1", layer: "parcels", crs: "wgs84" });
+  });
+});
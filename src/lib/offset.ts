@@ -0,0 +1,175 @@
+import { resultShapes, type GeometryShape, type Point2D, type ResultPart } from "./geometry";
+import { openRing } from "./analytics";
+import { booleanPolygons, shapePolygons, type Polygon } from "./boolean";
+import { dedupeConsecutive } from "./drawing";
+
+export type JoinStyle = "round" | "miter" | "square";
+export type CapStyle = "round" | "square" | "flat";
+
+export const joinStyleLabels: Record<JoinStyle, string> = {
+  round: "Round",
+  miter: "Miter",
+  square: "Square",
+};
+
+export const capStyleLabels: Record<CapStyle, string> = {
+  round: "Round",
+  square: "Square",
+  flat: "Flat",
+};
+
+export interface OffsetOptions {
+  // Positive grows polygons, negative shrinks them; polylines use its size
+  distance: number;
+  join: JoinStyle;
+  cap: CapStyle;
+  // Longest miter, as a multiple of the distance, before it is squared off
+  miterLimit?: number;
+}
+
+export const defaultOffsetOptions: OffsetOptions = { distance: 1, join: "round", cap: "round", miterLimit: 4 };
+
+// Segments used for a full circle in round joins and caps
+const ROUND_SEGMENTS = 32;
+
+type Vector = { x: number; y: number };
+
+function add(p: Point2D, v: Vector, scale = 1): Point2D {
+  return { x: p.x + v.x * scale, y: p.y + v.y * scale };
+}
+
+function direction(a: Point2D, b: Point2D): Vector {
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  return { x: (b.x - a.x) / length, y: (b.y - a.y) / length };
+}
+
+function leftNormal(v: Vector): Vector {
+  return { x: -v.y, y: v.x };
+}
+
+// Points on the arc around `center` from normal `from` to `to`, turning
+// counter-clockwise when `sweep` is positive
+function arc(center: Point2D, radius: number, from: Vector, sweep: number): Point2D[] {
+  const start = Math.atan2(from.y, from.x);
+  const steps = Math.max(1, Math.ceil((Math.abs(sweep) / (2 * Math.PI)) * ROUND_SEGMENTS));
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const angle = start + (sweep * i) / steps;
+    return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+  });
+}
+
+// The area swept by a segment: a rectangle `distance` either side of it
+function segmentPiece(a: Point2D, b: Point2D, distance: number): Polygon {
+  const normal = leftNormal(direction(a, b));
+  return [[add(a, normal, -distance), add(b, normal, -distance), add(b, normal, distance), add(a, normal, distance)]];
+}
+
+// Fills the gap on the outside of the turn at `p` between a segment arriving
+// along `d1` and one leaving along `d2`. The inside of the turn is already
+// covered by the overlapping segment pieces.
+function joinPiece(p: Point2D, d1: Vector, d2: Vector, distance: number, options: OffsetOptions): Polygon | null {
+  const turn = d1.x * d2.y - d1.y * d2.x;
+  const dot = d1.x * d2.x + d1.y * d2.y;
+  if (Math.abs(turn) < 1e-12 && dot > 0) return null;
+
+  // Normals on the outer side: the right for left turns and vice versa
+  const side = turn > 0 ? -1 : 1;
+  const n1 = { x: leftNormal(d1).x * side, y: leftNormal(d1).y * side };
+  const n2 = { x: leftNormal(d2).x * side, y: leftNormal(d2).y * side };
+  const start = add(p, n1, distance);
+  const end = add(p, n2, distance);
+
+  if (options.join === "round") {
+    // A full reversal sweeps half a circle around the end of the segment
+    const sweep = Math.abs(turn) < 1e-12 ? -side * Math.PI : Math.atan2(n1.x * n2.y - n1.y * n2.x, n1.x * n2.x + n1.y * n2.y);
+    return [[p, ...arc(p, distance, n1, sweep)]];
+  }
+
+  // Bisector of the two normals, pointing away from the corner; a full
+  // reversal has none, so use the arriving direction
+  const bisectorLength = Math.hypot(n1.x + n2.x, n1.y + n2.y);
+  const bisector = bisectorLength > 1e-9 ? { x: (n1.x + n2.x) / bisectorLength, y: (n1.y + n2.y) / bisectorLength } : d1;
+  const cosHalf = n1.x * bisector.x + n1.y * bisector.y;
+  const miterLength = cosHalf > 1e-9 ? distance / cosHalf : Infinity;
+
+  if (options.join === "miter" && miterLength <= distance * (options.miterLimit ?? defaultOffsetOptions.miterLimit!)) {
+    return [[p, start, add(p, bisector, miterLength), end]];
+  }
+
+  // Square: cut the corner off `distance` from the vertex along the bisector
+  const along1 = d1.x * bisector.x + d1.y * bisector.y;
+  const along2 = d2.x * bisector.x + d2.y * bisector.y;
+  const reach = distance - distance * cosHalf;
+  const cut1 = Math.abs(along1) > 1e-9 ? add(start, d1, reach / along1) : add(start, bisector, reach);
+  const cut2 = Math.abs(along2) > 1e-9 ? add(end, d2, reach / along2) : add(end, bisector, reach);
+  return [[p, start, cut1, cut2, end]];
+}
+
+// Cap at `p`, the end of a line pointing out along `outward`
+function capPiece(p: Point2D, outward: Vector, distance: number, cap: CapStyle): Polygon | null {
+  const normal = leftNormal(outward);
+  if (cap === "round") return [[p, ...arc(p, distance, { x: -normal.x, y: -normal.y }, Math.PI)]];
+  if (cap === "square") return segmentPiece(p, add(p, outward, distance), distance);
+  return null;
+}
+
+// Pieces whose union is the area within `distance` of a path
+function pathPieces(points: Point2D[], closed: boolean, distance: number, options: OffsetOptions): Polygon[] {
+  const path = dedupeConsecutive(closed ? openRing(points) : points);
+  if (closed && path.length > 1 && path[0].x === path[path.length - 1].x && path[0].y === path[path.length - 1].y) path.pop();
+  const count = closed ? path.length : path.length - 1;
+  if (count < 1) return [];
+
+  const pieces: Polygon[] = [];
+  for (let i = 0; i < count; i++) {
+    pieces.push(segmentPiece(path[i], path[(i + 1) % path.length], distance));
+  }
+
+  // Joins at the interior vertices, and at every vertex of a closed ring
+  const first = closed ? 0 : 1;
+  const last = closed ? path.length : path.length - 1;
+  for (let i = first; i < last; i++) {
+    const prev = path[(i - 1 + path.length) % path.length];
+    const next = path[(i + 1) % path.length];
+    const join = joinPiece(path[i], direction(prev, path[i]), direction(path[i], next), distance, options);
+    if (join) pieces.push(join);
+  }
+
+  if (!closed) {
+    const start = capPiece(path[0], direction(path[1], path[0]), distance, options.cap);
+    const end = capPiece(path[path.length - 1], direction(path[path.length - 2], path[path.length - 1]), distance, options.cap);
+    if (start) pieces.push(start);
+    if (end) pieces.push(end);
+  }
+  return pieces;
+}
+
+// Offset a polygon outward (positive distance) or inward (negative), or
+// buffer a polyline into a corridor. The area within the distance of the
+// outline is built as a union of segment, join and cap pieces, then added to
+// or cut from the polygon.
+export function offsetShape(shape: GeometryShape, options: OffsetOptions): Polygon[] {
+  const distance = Math.abs(options.distance);
+  if (distance === 0 || shape.type === "points") return [];
+
+  if (shape.type === "polyline") {
+    return booleanPolygons("union", pathPieces(shape.points, false, distance, options), []);
+  }
+
+  const polygons = shapePolygons([shape]);
+  const outline = polygons.flat().flatMap(ring => pathPieces(ring, true, distance, options));
+  return booleanPolygons(options.distance > 0 ? "union" : "difference", polygons, outline);
+}
+
+// Shapes for an offset of `source`, with ids like "triangle-offset-2"
+// numbered past any in `existing`. Multi-part results share a `featureId`.
+export function offsetResultShapes(polygons: Polygon[], source: GeometryShape, options: OffsetOptions, existing: GeometryShape[]): GeometryShape[] {
+  const parts = polygons.map(([points, ...holes]): ResultPart => {
+    const part: ResultPart = { type: "polygon", points };
+    if (holes.length > 0) part.holes = holes;
+    if (source.layer) part.layer = source.layer;
+    if (source.crs) part.crs = source.crs;
+    return part;
+  });
+  return resultShapes(`${source.id}-offset`, () => `${source.name} offset ${options.distance}`, parts, existing);
+}
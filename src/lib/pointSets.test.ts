@@ -0,0 +1,45 @@
+import { describe, expect, test } from "bun:test";
+import type { Point2D } from "./geometry";
+import { convexHull, delaunay } from "./pointSets";
+
+// Deterministic points in a 100 × 100 square
+function randomPoints(count: number, seed: number): Point2D[] {
+  let state = seed;
+  const next = () => (state = (state * 16807) % 2147483647) / 2147483647;
+  return Array.from({ length: count }, () => ({ x: next() * 100, y: next() * 100 }));
+}
+
+function polygonArea(points: Point2D[]): number {
+  let area = 0;
+  points.forEach((p, i) => {
+    const q = points[(i + 1) % points.length];
+    area += p.x * q.y - q.x * p.y;
+  });
+  return area / 2;
+}
+
+describe("delaunay", () => {
+  test("covers the convex hull of a random cloud", () => {
+    const { points, triangles } = delaunay(randomPoints(3000, 1));
+    const hull = convexHull(points);
+    // A triangulation of n points with h on the hull has 2n - h - 2 triangles
+    expect(triangles.length / 3).toBe(2 * points.length - hull.length - 2);
+
+    let area = 0;
+    for (let i = 0; i < triangles.length; i += 3) {
+      const triangleArea = polygonArea([points[triangles[i]], points[triangles[i + 1]], points[triangles[i + 2]]]);
+      expect(triangleArea).toBeGreaterThan(0);
+      area += triangleArea;
+    }
+    expect(area).toBeCloseTo(polygonArea(hull), 6);
+  });
+
+  test("keeps hull triangles of a flat cloud", () => {
+    const { points, triangles } = delaunay(randomPoints(300, 7).map(p => ({ x: p.x * 1e4, y: p.y / 100 })));
+    expect(triangles.length / 3).toBe(2 * points.length - convexHull(points).length - 2);
+  });
+
+  test("gives no triangles for collinear points", () => {
+    expect(delaunay([{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 2 }]).triangles).toEqual([]);
+  });
+});
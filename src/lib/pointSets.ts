@@ -0,0 +1,392 @@
+import { resultShapes, type Bounds, type GeometryShape, type Point2D, type ResultPart } from "./geometry";
+
+export type OverlayKind = "hull" | "delaunay" | "voronoi" | "rectangle" | "circle";
+
+export const overlayLabels: Record<OverlayKind, string> = {
+  hull: "Hull",
+  delaunay: "Delaunay",
+  voronoi: "Voronoi",
+  rectangle: "Min Rectangle",
+  circle: "Min Circle",
+};
+
+export interface Circle {
+  center: Point2D;
+  radius: number;
+}
+
+function cross(o: Point2D, a: Point2D, b: Point2D): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+// Points with exact duplicates removed, sorted by x then y
+export function uniquePoints(points: Point2D[]): Point2D[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  return sorted.filter((p, i) => i === 0 || p.x !== sorted[i - 1].x || p.y !== sorted[i - 1].y);
+}
+
+// Convex hull by Andrew's monotone chain, counter-clockwise without collinear
+// points. Fewer than three distinct points (or all collinear) give what's left.
+export function convexHull(points: Point2D[]): Point2D[] {
+  const sorted = uniquePoints(points);
+  if (sorted.length <= 2) return sorted;
+  const lower: Point2D[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: Point2D[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
+
+// Whether d lies inside the circumcircle of the counter-clockwise triangle abc
+function inCircumcircle(a: Point2D, b: Point2D, c: Point2D, d: Point2D): boolean {
+  const ax = a.x - d.x;
+  const ay = a.y - d.y;
+  const bx = b.x - d.x;
+  const by = b.y - d.y;
+  const cx = c.x - d.x;
+  const cy = c.y - d.y;
+  return (ax * ax + ay * ay) * (bx * cy - cx * by) - (bx * bx + by * by) * (ax * cy - cx * ay) + (cx * cx + cy * cy) * (ax * by - bx * ay) > 0;
+}
+
+export interface Triangulation {
+  // The distinct input points the triangles index into
+  points: Point2D[];
+  // Counter-clockwise vertex indices, three per triangle
+  triangles: number[];
+}
+
+// The super triangle's vertices n, n+1, n+2 are treated as points infinitely
+// far out in these directions, counter-clockwise, rather than at a finite
+// distance where their circumcircles would swallow triangles along the hull
+const superDirections: Point2D[] = [{ x: -1, y: -1 }, { x: 1, y: -1 }, { x: 0, y: 1 }];
+
+// Seen from a point, the circle through it and two of the super vertices
+// grows into a half-plane facing the centre of the circle through the origin
+// and their directions. Indexed by the super vertex left out.
+const superCentres: Point2D[] = superDirections.map((_, k) => {
+  const [d1, d2] = superDirections.filter((__, i) => i !== k);
+  const r1 = (d1.x * d1.x + d1.y * d1.y) / 2;
+  const r2 = (d2.x * d2.x + d2.y * d2.y) / 2;
+  const det = d1.x * d2.y - d1.y * d2.x;
+  return { x: (r1 * d2.y - r2 * d1.y) / det, y: (d1.x * r2 - d2.x * r1) / det };
+});
+
+// Delaunay triangulation by Bowyer–Watson insertion. Points are inserted in
+// x order, each located by walking from the previous insertion, and the
+// cavity of triangles whose circumcircle contains it is found through
+// neighbour links, so it stays fast for clouds of thousands of points.
+export function delaunay(input: Point2D[]): Triangulation {
+  const points = uniquePoints(input);
+  const n = points.length;
+  if (n < 3) return { points, triangles: [] };
+
+  // Positive when p is left of the edge from vertex i to vertex j. An edge
+  // to a super vertex runs parallel to its direction, and edges between super
+  // vertices have everything on their inner side.
+  const side = (i: number, j: number, p: Point2D): number => {
+    if (i < n && j < n) return cross(points[i], points[j], p);
+    if (i >= n && j >= n) return 1;
+    const a = points[i < n ? i : j];
+    const d = superDirections[(i < n ? j : i) - n];
+    const s = d.x * (p.y - a.y) - d.y * (p.x - a.x);
+    return i < n ? s : -s;
+  };
+
+  // Triangle t has vertices v[3t..3t+2]; adjacent[3t+i] is the triangle across
+  // the edge from vertex i to vertex i+1, or -1
+  const v: number[] = [n, n + 1, n + 2];
+  const adjacent: number[] = [-1, -1, -1];
+  const alive: boolean[] = [true];
+  let last = 0;
+
+  // Whether p lies inside the circumcircle of triangle t. With one super
+  // vertex the circle becomes the half-plane beyond the real edge, which
+  // still holds points on the edge itself.
+  const inCircle = (t: number, p: Point2D): boolean => {
+    const [a, b, c] = [v[3 * t], v[3 * t + 1], v[3 * t + 2]];
+    const far = (a >= n ? 1 : 0) + (b >= n ? 1 : 0) + (c >= n ? 1 : 0);
+    if (far === 0) return inCircumcircle(points[a], points[b], points[c], p);
+    if (far === 3) return true;
+    if (far === 1) {
+      const [i, j] = a >= n ? [b, c] : b >= n ? [c, a] : [a, b];
+      const s = cross(points[i], points[j], p);
+      if (s !== 0) return s > 0;
+      const [pi, pj] = [points[i], points[j]];
+      return (p.x - pi.x) * (pj.x - pi.x) + (p.y - pi.y) * (pj.y - pi.y) > 0 &&
+        (p.x - pj.x) * (pi.x - pj.x) + (p.y - pj.y) * (pi.y - pj.y) > 0;
+    }
+    const real = a < n ? a : b < n ? b : c;
+    const m = superCentres[3 * n + 3 - (a + b + c - real) - n];
+    return (p.x - points[real].x) * m.x + (p.y - points[real].y) * m.y > 0;
+  };
+
+  const locate = (p: Point2D): number => {
+    let t = last;
+    for (let steps = 0; steps < v.length; steps++) {
+      let moved = false;
+      for (let i = 0; i < 3; i++) {
+        if (side(v[3 * t + i], v[3 * t + ((i + 1) % 3)], p) < 0 && adjacent[3 * t + i] >= 0) {
+          t = adjacent[3 * t + i];
+          moved = true;
+          break;
+        }
+      }
+      if (!moved) return t;
+    }
+    // The walk can cycle on degenerate input; fall back to a scan
+    for (let t = 0; t < alive.length; t++) {
+      if (!alive[t]) continue;
+      if ([0, 1, 2].every(i => side(v[3 * t + i], v[3 * t + ((i + 1) % 3)], p) >= 0)) return t;
+    }
+    return last;
+  };
+
+  for (let index = 0; index < n; index++) {
+    const p = points[index];
+    const start = locate(p);
+
+    // Flood out from the containing triangle to every triangle whose circumcircle holds p
+    const cavity = new Set<number>([start]);
+    const queue = [start];
+    while (queue.length > 0) {
+      const t = queue.pop()!;
+      for (let i = 0; i < 3; i++) {
+        const u = adjacent[3 * t + i];
+        if (u < 0 || cavity.has(u)) continue;
+        if (inCircle(u, p)) {
+          cavity.add(u);
+          queue.push(u);
+        }
+      }
+    }
+
+    // Fan new triangles from p to each edge on the cavity's boundary
+    const byStart = new Map<number, number>();
+    const created: number[] = [];
+    cavity.forEach(t => {
+      alive[t] = false;
+      for (let i = 0; i < 3; i++) {
+        const outside = adjacent[3 * t + i];
+        if (outside >= 0 && cavity.has(outside)) continue;
+        const a = v[3 * t + i];
+        const b = v[3 * t + ((i + 1) % 3)];
+        const fresh = alive.length;
+        v.push(a, b, index);
+        adjacent.push(outside, -1, -1);
+        alive.push(true);
+        if (outside >= 0) {
+          for (let j = 0; j < 3; j++) if (adjacent[3 * outside + j] === t) adjacent[3 * outside + j] = fresh;
+        }
+        byStart.set(a, fresh);
+        created.push(fresh);
+      }
+    });
+    // Edge b→p of (a, b, p) borders the new triangle starting at b
+    for (const t of created) {
+      const next = byStart.get(v[3 * t + 1])!;
+      adjacent[3 * t + 1] = next;
+      adjacent[3 * next + 2] = t;
+    }
+    last = created[created.length - 1];
+  }
+
+  const triangles: number[] = [];
+  for (let t = 0; t < alive.length; t++) {
+    if (!alive[t] || v[3 * t] >= n || v[3 * t + 1] >= n || v[3 * t + 2] >= n) continue;
+    triangles.push(v[3 * t], v[3 * t + 1], v[3 * t + 2]);
+  }
+  return { points, triangles };
+}
+
+// Unique triangulation edges as point index pairs
+export function triangulationEdges({ triangles }: Triangulation): [number, number][] {
+  const seen = new Set<string>();
+  const edges: [number, number][] = [];
+  for (let t = 0; t < triangles.length; t += 3) {
+    for (let i = 0; i < 3; i++) {
+      const a = triangles[t + i];
+      const b = triangles[t + ((i + 1) % 3)];
+      const key = a < b ? `${a},${b}` : `${b},${a}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      edges.push([a, b]);
+    }
+  }
+  return edges;
+}
+
+// Keep the part of a convex polygon closer to `site` than to `other`
+function clipToBisector(polygon: Point2D[], site: Point2D, other: Point2D): Point2D[] {
+  const nx = other.x - site.x;
+  const ny = other.y - site.y;
+  const limit = (other.x * other.x + other.y * other.y - site.x * site.x - site.y * site.y) / 2;
+  const side = (p: Point2D) => limit - (p.x * nx + p.y * ny);
+  const result: Point2D[] = [];
+  polygon.forEach((p, i) => {
+    const q = polygon[(i + 1) % polygon.length];
+    const sp = side(p);
+    const sq = side(q);
+    if (sp >= 0) result.push(p);
+    if ((sp >= 0) !== (sq >= 0)) {
+      const t = sp / (sp - sq);
+      result.push({ x: p.x + t * (q.x - p.x), y: p.y + t * (q.y - p.y) });
+    }
+  });
+  return result;
+}
+
+// Voronoi cells clipped to `bounds`, one per distinct point in the
+// triangulation's order. Each cell is the bounds cut by the bisectors with
+// the site's Delaunay neighbours; cells entirely outside come back empty.
+export function voronoiCells(triangulation: Triangulation, bounds: Bounds): Point2D[][] {
+  const { points, triangles } = triangulation;
+  const neighbours = points.map(() => new Set<number>());
+  for (const [a, b] of triangulationEdges(triangulation)) {
+    neighbours[a].add(b);
+    neighbours[b].add(a);
+  }
+  // Collinear input has no triangles; neighbours along the line are enough
+  if (triangles.length === 0) {
+    for (let i = 1; i < points.length; i++) {
+      neighbours[i - 1].add(i);
+      neighbours[i].add(i - 1);
+    }
+  }
+
+  const box: Point2D[] = [
+    { x: bounds.minX, y: bounds.minY },
+    { x: bounds.maxX, y: bounds.minY },
+    { x: bounds.maxX, y: bounds.maxY },
+    { x: bounds.minX, y: bounds.maxY },
+  ];
+  return points.map((site, i) => {
+    let cell = box;
+    neighbours[i].forEach(j => {
+      if (cell.length > 0) cell = clipToBisector(cell, site, points[j]);
+    });
+    return cell;
+  });
+}
+
+// Minimum-area enclosing rectangle, counter-clockwise. One side of the
+// optimal rectangle lies along a hull edge, so each edge direction is tried.
+export function minimumBoundingRectangle(points: Point2D[]): Point2D[] {
+  const hull = convexHull(points);
+  if (hull.length < 3) return hull;
+
+  let best: { area: number; corners: Point2D[] } | null = null;
+  hull.forEach((a, i) => {
+    const b = hull[(i + 1) % hull.length];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    const ux = (b.x - a.x) / length;
+    const uy = (b.y - a.y) / length;
+    let minU = Infinity, maxU = -Infinity, minV = Infinity, maxV = -Infinity;
+    for (const p of hull) {
+      const u = p.x * ux + p.y * uy;
+      const v = -p.x * uy + p.y * ux;
+      minU = Math.min(minU, u);
+      maxU = Math.max(maxU, u);
+      minV = Math.min(minV, v);
+      maxV = Math.max(maxV, v);
+    }
+    const area = (maxU - minU) * (maxV - minV);
+    if (best && area >= best.area) return;
+    const corner = (u: number, v: number): Point2D => ({ x: u * ux - v * uy, y: u * uy + v * ux });
+    best = { area, corners: [corner(minU, minV), corner(maxU, minV), corner(maxU, maxV), corner(minU, maxV)] };
+  });
+  return best!.corners;
+}
+
+function circleFrom2(a: Point2D, b: Point2D): Circle {
+  const center = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  return { center, radius: Math.hypot(a.x - center.x, a.y - center.y) };
+}
+
+function circleFrom3(a: Point2D, b: Point2D, c: Point2D): Circle | null {
+  const d = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+  if (Math.abs(d) < 1e-12) return null;
+  const a2 = a.x * a.x + a.y * a.y;
+  const b2 = b.x * b.x + b.y * b.y;
+  const c2 = c.x * c.x + c.y * c.y;
+  const center = {
+    x: (a2 * (b.y - c.y) + b2 * (c.y - a.y) + c2 * (a.y - b.y)) / d,
+    y: (a2 * (c.x - b.x) + b2 * (a.x - c.x) + c2 * (b.x - a.x)) / d,
+  };
+  return { center, radius: Math.hypot(a.x - center.x, a.y - center.y) };
+}
+
+// Smallest enclosing circle (Welzl's algorithm, iterative). Running it on the
+// hull gives the same circle with far fewer points.
+export function minimumEnclosingCircle(points: Point2D[]): Circle | null {
+  const hull = convexHull(points);
+  if (hull.length === 0) return null;
+  const contains = (circle: Circle, p: Point2D) => Math.hypot(p.x - circle.center.x, p.y - circle.center.y) <= circle.radius * (1 + 1e-12) + 1e-12;
+
+  let circle: Circle = { center: hull[0], radius: 0 };
+  for (let i = 1; i < hull.length; i++) {
+    if (contains(circle, hull[i])) continue;
+    circle = { center: hull[i], radius: 0 };
+    for (let j = 0; j < i; j++) {
+      if (contains(circle, hull[j])) continue;
+      circle = circleFrom2(hull[i], hull[j]);
+      for (let k = 0; k < j; k++) {
+        if (contains(circle, hull[k])) continue;
+        circle = circleFrom3(hull[i], hull[j], hull[k]) ?? circle;
+      }
+    }
+  }
+  return circle;
+}
+
+// Polygon approximating a circle
+export function circlePolygon({ center, radius }: Circle, segments = 64): Point2D[] {
+  return Array.from({ length: segments }, (_, i) => {
+    const angle = (2 * Math.PI * i) / segments;
+    return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+  });
+}
+
+// Shapes for an overlay of `points`, with ids like "hull-2" numbered past any
+// in `existing`. Triangles and Voronoi cells become one polygon each sharing a
+// `featureId`; the Voronoi diagram is clipped to `view`.
+export function overlayShapes(kind: OverlayKind, points: Point2D[], view: Bounds, existing: GeometryShape[]): GeometryShape[] {
+  let polygons: Point2D[][] = [];
+  let properties: Record<string, unknown> | undefined;
+  switch (kind) {
+    case "hull":
+      polygons = [convexHull(points)];
+      break;
+    case "delaunay": {
+      const triangulation = delaunay(points);
+      for (let t = 0; t < triangulation.triangles.length; t += 3) {
+        polygons.push([0, 1, 2].map(i => triangulation.points[triangulation.triangles[t + i]]));
+      }
+      break;
+    }
+    case "voronoi":
+      polygons = voronoiCells(delaunay(points), view);
+      break;
+    case "rectangle":
+      polygons = [minimumBoundingRectangle(points)];
+      break;
+    case "circle": {
+      const circle = minimumEnclosingCircle(points);
+      if (circle) {
+        polygons = [circlePolygon(circle)];
+        properties = { center: circle.center, radius: circle.radius };
+      }
+      break;
+    }
+  }
+  polygons = polygons.filter(polygon => polygon.length >= 3);
+
+  const parts = polygons.map((points): ResultPart => (properties ? { type: "polygon", points, properties } : { type: "polygon", points }));
+  return resultShapes(kind, n => `${overlayLabels[kind]} ${n}`, parts, existing);
+}
@@ -0,0 +1,266 @@
+import type { GeometryShape, Point2D } from "./geometry";
+import type { TraceStep } from "./trace";
+
+// Sample data for different shapes
+export const sampleShapes: Record<string, GeometryShape> = {
+  triangle: {
+    id: "triangle",
+    name: "Triangle",
+    type: "polygon",
+    points: [
+      { x: 0, y: 0 },
+      { x: 4, y: 0 },
+      { x: 2, y: 3 },
+      { x: 0, y: 0 }, // Close the polygon
+    ],
+  },
+  square: {
+    id: "square",
+    name: "Square",
+    type: "polygon",
+    points: [
+      { x: 1, y: 1 },
+      { x: 4, y: 1 },
+      { x: 4, y: 4 },
+      { x: 1, y: 4 },
+      { x: 1, y: 1 }, // Close the polygon
+    ],
+  },
+  pentagon: {
+    id: "pentagon",
+    name: "Pentagon",
+    type: "polygon",
+    points: [
+      { x: 3, y: 0 },
+      { x: 5.85, y: 1.76 },
+      { x: 4.88, y: 4.76 },
+      { x: 1.12, y: 4.76 },
+      { x: 0.15, y: 1.76 },
+      { x: 3, y: 0 }, // Close the polygon
+    ],
+  },
+  star: {
+    id: "star",
+    name: "Star",
+    type: "polygon",
+    points: [
+      { x: 3, y: 0 },
+      { x: 3.5, y: 2 },
+      { x: 6, y: 2 },
+      { x: 4.25, y: 3.5 },
+      { x: 5, y: 6 },
+      { x: 3, y: 4.5 },
+      { x: 1, y: 6 },
+      { x: 1.75, y: 3.5 },
+      { x: 0, y: 2 },
+      { x: 2.5, y: 2 },
+      { x: 3, y: 0 }, // Close the polygon
+    ],
+  },
+  hexagon: {
+    id: "hexagon",
+    name: "Hexagon",
+    type: "polygon",
+    points: [
+      { x: 4, y: 0 },
+      { x: 6, y: 2 },
+      { x: 6, y: 4 },
+      { x: 4, y: 6 },
+      { x: 2, y: 4 },
+      { x: 2, y: 2 },
+      { x: 4, y: 0 }, // Close the polygon
+    ],
+  },
+  zigzag: {
+    id: "zigzag",
+    name: "Zigzag Line",
+    type: "polyline",
+    style: { strokeWidth: 3, dash: [10, 6] },
+    points: [
+      { x: 0, y: 2 },
+      { x: 1, y: 4 },
+      { x: 2, y: 1 },
+      { x: 3, y: 5 },
+      { x: 4, y: 0 },
+      { x: 5, y: 3 },
+    ],
+  },
+  sine: {
+    id: "sine",
+    name: "Sine Wave",
+    type: "polyline",
+    points: Array.from({ length: 25 }, (_, i) => ({
+      x: i * 0.25,
+      y: 3 + 2 * Math.sin(i * 0.25 * Math.PI),
+    })),
+  },
+  spiral: {
+    id: "spiral",
+    name: "Spiral",
+    type: "polyline",
+    points: Array.from({ length: 50 }, (_, i) => {
+      const angle = i * 0.3;
+      const radius = i * 0.1;
+      return {
+        x: 3 + radius * Math.cos(angle),
+        y: 3 + radius * Math.sin(angle),
+      };
+    }),
+  },
+  // Large test shape for testing auto-framing
+  largeBuilding: {
+    id: "largeBuilding",
+    name: "Large Building",
+    type: "polygon",
+    points: [
+      { x: -50, y: -30 },
+      { x: 50, y: -30 },
+      { x: 50, y: -20 },
+      { x: 40, y: -20 },
+      { x: 40, y: 20 },
+      { x: 50, y: 20 },
+      { x: 50, y: 30 },
+      { x: -50, y: 30 },
+      { x: -50, y: 20 },
+      { x: -40, y: 20 },
+      { x: -40, y: -20 },
+      { x: -50, y: -20 },
+      { x: -50, y: -30 }, // Close the polygon
+    ],
+  },
+  // Polygon with interior rings
+  courtyard: {
+    id: "courtyard",
+    name: "Courtyard Building",
+    type: "polygon",
+    points: [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 8 },
+      { x: 0, y: 8 },
+      { x: 0, y: 0 }, // Close the polygon
+    ],
+    holes: [
+      [
+        { x: 2, y: 2 },
+        { x: 5, y: 2 },
+        { x: 5, y: 6 },
+        { x: 2, y: 6 },
+        { x: 2, y: 2 },
+      ],
+      [
+        { x: 6.5, y: 3 },
+        { x: 8, y: 3 },
+        { x: 8, y: 5 },
+        { x: 6.5, y: 5 },
+        { x: 6.5, y: 3 },
+      ],
+    ],
+  },
+  points: {
+    id: "points",
+    name: "Point Cloud",
+    type: "points",
+    points: Array.from({ length: 20 }, (_, i) => ({
+      x: Math.cos(i * 0.314) * (2 + i * 0.1),
+      y: Math.sin(i * 0.314) * (2 + i * 0.1),
+    })),
+  },
+};
+
+// A small box driving around a square, one corner every 3 time units
+function vehicle(): GeometryShape {
+  const keyframes = [
+    { x: -4, y: -4 },
+    { x: 4, y: -4 },
+    { x: 4, y: 4 },
+    { x: -4, y: 4 },
+    { x: -4, y: -4 },
+  ].map(({ x, y }, i) => ({
+    time: i * 3,
+    points: [
+      { x: x - 0.4, y: y - 0.25 },
+      { x: x + 0.4, y: y - 0.25 },
+      { x: x + 0.4, y: y + 0.25 },
+      { x: x - 0.4, y: y + 0.25 },
+    ],
+  }));
+  return { id: "vehicle", name: "Vehicle", type: "polygon", points: keyframes[0].points, keyframes };
+}
+
+// A region growing over three snapshots and a vehicle driving around it
+const timelineShapes: GeometryShape[] = [
+  ...[0, 5, 10].map((time, i): GeometryShape => ({
+    id: `region-${i + 1}`,
+    name: `Region at ${time}`,
+    type: "polygon",
+    featureId: "region",
+    time,
+    points: Array.from({ length: 12 }, (_, j) => {
+      const angle = (j / 12) * Math.PI * 2;
+      const radius = (1 + i) * (1 + 0.15 * Math.sin(angle * 3 + i));
+      return { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius };
+    }),
+  })),
+  vehicle(),
+];
+
+// Predefined shape combinations
+export const shapePresets = {
+  single: "Single Shape",
+  multiple: "Multiple Shapes",
+  large: "Large Shape",
+  mixed: "Mixed Types",
+  timeline: "Timeline",
+};
+
+export type ShapePreset = keyof typeof shapePresets;
+export type SampleShapeKey = keyof typeof sampleShapes;
+
+export function getPresetShapes(preset: ShapePreset, singleShape: SampleShapeKey): GeometryShape[] {
+  switch (preset) {
+    case "single":
+      return [sampleShapes[singleShape]];
+    case "multiple":
+      return [sampleShapes.triangle, sampleShapes.square, sampleShapes.pentagon];
+    case "large":
+      return [sampleShapes.largeBuilding];
+    case "mixed":
+      return [sampleShapes.hexagon, sampleShapes.zigzag, sampleShapes.points];
+    case "timeline":
+      return timelineShapes;
+    default:
+      return [sampleShapes.triangle];
+  }
+}
+
+// A recorded run of gift wrapping (Jarvis march) over a scattered point set:
+// one step per hull vertex found, for trying out trace mode
+export function sampleTrace(): TraceStep[] {
+  // Fixed pseudo-random points so the trace is the same every time
+  let seed = 7;
+  const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+  const points = Array.from({ length: 40 }, () => ({ x: random() * 10 - 5, y: random() * 8 - 4 }));
+  const cloud: GeometryShape = { id: "trace-points", name: "Points", type: "points", points };
+  const cross = (o: Point2D, a: Point2D, b: Point2D) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+  const start = points.reduce((best, p) => (p.x < best.x ? p : best));
+  const hull = [start];
+  const steps: TraceStep[] = [{ label: "Start", log: `Leftmost point (${start.x.toFixed(2)}, ${start.y.toFixed(2)})`, shapes: [cloud] }];
+  let current = start;
+  for (;;) {
+    // The next hull vertex has every other point to its left
+    let next = points[0] === current ? points[1] : points[0];
+    for (const p of points) {
+      if (p !== current && cross(current, next, p) < 0) next = p;
+    }
+    const chain: GeometryShape = { id: "trace-hull", name: "Hull so far", type: "polyline", points: [...hull, next] };
+    if (next === start) {
+      steps.push({ label: "Done", log: `Hull closed with ${hull.length} vertices`, shapes: [cloud, { ...chain, name: "Hull", type: "polygon", points: hull }] });
+      return steps;
+    }
+    hull.push(next);
+    current = next;
+    steps.push({ label: `Vertex ${hull.length}`, log: `Added (${next.x.toFixed(2)}, ${next.y.toFixed(2)})`, shapes: [cloud, chain] });
+  }
+}
@@ -0,0 +1,106 @@
+import { z } from "zod";
+import type { BooleanOperation } from "./boolean";
+import type { GeometryShape, Point2D } from "./geometry";
+
+// Runtime validation for geometry arriving over the API
+export const point2DSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  z: z.number().optional(),
+  m: z.number().optional(),
+});
+
+export const shapeStyleSchema = z.object({
+  strokeColor: z.string().optional(),
+  strokeWidth: z.number().positive().optional(),
+  dash: z.tuple([z.number().positive(), z.number().nonnegative()]).optional(),
+  fillColor: z.string().optional(),
+  fillOpacity: z.number().min(0).max(1).optional(),
+  pointRadius: z.number().positive().optional(),
+  pointShape: z.enum(["circle", "square", "diamond", "triangle"]).optional(),
+});
+
+export const keyframeSchema = z.object({
+  time: z.number(),
+  points: z.array(point2DSchema),
+  holes: z.array(z.array(point2DSchema)).optional(),
+});
+
+export const geometryShapeSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  type: z.enum(["polygon", "polyline", "points"]),
+  points: z.array(point2DSchema),
+  holes: z.array(z.array(point2DSchema)).optional(),
+  style: shapeStyleSchema.optional(),
+  properties: z.record(z.unknown()).optional(),
+  featureId: z.union([z.string(), z.number()]).optional(),
+  layer: z.string().optional(),
+  version: z.number().int().optional(),
+  time: z.number().optional(),
+  keyframes: z.array(keyframeSchema).min(1).optional(),
+  crs: z.enum(["cartesian", "wgs84"]).optional(),
+});
+
+export const shapeListSchema = z.array(geometryShapeSchema);
+
+export const pointListSchema = z.array(point2DSchema);
+
+// Exactly one of `value` and `error` is set
+export type ParseResult<T> = { value: T; error?: undefined } | { value?: undefined; error: string };
+
+// Turn a zod error into a short message suitable for an API response
+export function formatSchemaError(error: z.ZodError): string {
+  return error.issues
+    .map(issue => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+}
+
+// POST /api/shapes accepts a single shape or an array of shapes
+export function parseShapesPayload(body: unknown): ParseResult<GeometryShape[]> {
+  const parsed = shapeListSchema.safeParse(Array.isArray(body) ? body : [body]);
+  if (!parsed.success) {
+    return { error: formatSchemaError(parsed.error) };
+  }
+  // The schema mirrors GeometryShape; zod's inferred type only differs in optionality
+  return { value: parsed.data as GeometryShape[] };
+}
+
+// POST /api/shapes/:id/points accepts a single point or an array of points
+export function parsePointsPayload(body: unknown): ParseResult<Point2D[]> {
+  const parsed = pointListSchema.safeParse(Array.isArray(body) ? body : [body]);
+  if (!parsed.success) {
+    return { error: formatSchemaError(parsed.error) };
+  }
+  return { value: parsed.data as Point2D[] };
+}
+
+// A boolean operand: shape ids from the store, or shapes sent inline
+const booleanOperandSchema = z.union([z.string(), z.array(z.string()), geometryShapeSchema, shapeListSchema]);
+
+export const booleanRequestSchema = z.object({
+  operation: z.enum(["union", "intersection", "difference", "xor"]),
+  a: booleanOperandSchema,
+  b: booleanOperandSchema,
+  // Add the result shapes to the store as well as returning them
+  add: z.boolean().optional(),
+});
+
+export interface BooleanRequest {
+  operation: BooleanOperation;
+  a: string[] | GeometryShape[];
+  b: string[] | GeometryShape[];
+  add?: boolean;
+}
+
+// POST /api/boolean; single ids and shapes are wrapped in arrays
+export function parseBooleanPayload(body: unknown): ParseResult<BooleanRequest> {
+  const parsed = booleanRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return { error: formatSchemaError(parsed.error) };
+  }
+  const operand = (value: z.infer<typeof booleanOperandSchema>) =>
+    (Array.isArray(value) ? value : [value]) as string[] | GeometryShape[];
+  const { operation, a, b, add } = parsed.data;
+  return { value: { operation, a: operand(a), b: operand(b), add } };
+}
@@ -0,0 +1,22 @@
+// How a click or box combines with the current selection
+export type SelectionMode = "replace" | "add" | "toggle";
+
+// Shift adds, Ctrl/Cmd toggles, a plain click replaces
+export function selectionModeFromEvent(event: { shiftKey: boolean; ctrlKey: boolean; metaKey: boolean }): SelectionMode {
+  if (event.ctrlKey || event.metaKey) return "toggle";
+  if (event.shiftKey) return "add";
+  return "replace";
+}
+
+export function applySelection(current: string[], ids: string[], mode: SelectionMode): string[] {
+  switch (mode) {
+    case "replace":
+      return ids;
+    case "add":
+      return [...current, ...ids.filter(id => !current.includes(id))];
+    case "toggle": {
+      const toggled = current.filter(id => !ids.includes(id));
+      return [...toggled, ...ids.filter(id => !current.includes(id))];
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import { groupShapesByFeature, type GeometryShape, type Point2D, type ShapeType } from "./geometry";
+
+// OGC Simple Features geometry tree, the intermediate form shared by the WKT
+// and WKB readers and writers. Rings and lines are plain point arrays; EMPTY
+// geometries have no points (or no parts).
+export type SimpleGeometry =
+  | { kind: "Point"; point: Point2D | null }
+  | { kind: "LineString"; points: Point2D[] }
+  | { kind: "Polygon"; rings: Point2D[][] }
+  | { kind: "MultiPoint"; points: Point2D[] }
+  | { kind: "MultiLineString"; lines: Point2D[][] }
+  | { kind: "MultiPolygon"; polygons: Point2D[][][] }
+  | { kind: "GeometryCollection"; geometries: SimpleGeometry[] };
+
+export type SimpleGeometryKind = SimpleGeometry["kind"];
+
+// Which optional ordinates a geometry carries
+export interface Dimensions {
+  hasZ: boolean;
+  hasM: boolean;
+}
+
+function isEmpty(geometry: SimpleGeometry): boolean {
+  switch (geometry.kind) {
+    case "Point":
+      return geometry.point === null;
+    case "LineString":
+    case "MultiPoint":
+      return geometry.points.length === 0;
+    case "Polygon":
+      return geometry.rings.length === 0;
+    case "MultiLineString":
+      return geometry.lines.length === 0;
+    case "MultiPolygon":
+      return geometry.polygons.length === 0;
+    case "GeometryCollection":
+      return geometry.geometries.length === 0;
+  }
+}
+
+type ShapePart = { type: ShapeType; points: Point2D[]; holes?: Point2D[][] };
+
+function polygonPart(rings: Point2D[][]): ShapePart {
+  const [shell = [], ...holes] = rings;
+  return holes.length > 0 ? { type: "polygon", points: shell, holes } : { type: "polygon", points: shell };
+}
+
+function parts(geometry: SimpleGeometry): ShapePart[] {
+  switch (geometry.kind) {
+    case "Point":
+      return [{ type: "points", points: geometry.point ? [geometry.point] : [] }];
+    case "MultiPoint":
+      return [{ type: "points", points: geometry.points }];
+    case "LineString":
+      return [{ type: "polyline", points: geometry.points }];
+    case "MultiLineString":
+      return geometry.lines.map(points => ({ type: "polyline", points }));
+    case "Polygon":
+      return [polygonPart(geometry.rings)];
+    case "MultiPolygon":
+      return geometry.polygons.map(polygonPart);
+    case "GeometryCollection":
+      return geometry.geometries.flatMap(parts);
+  }
+}
+
+function emptyShapeType(kind: SimpleGeometryKind): ShapeType {
+  if (kind === "Point" || kind === "MultiPoint") return "points";
+  if (kind === "LineString" || kind === "MultiLineString") return "polyline";
+  return "polygon";
+}
+
+const shapeNames: Record<ShapeType, string> = {
+  polygon: "Polygon",
+  polyline: "Polyline",
+  points: "Points",
+};
+
+// Convert parsed geometries into shapes. Multi-part geometries become one
+// shape per part sharing a `featureId`; an EMPTY geometry becomes a single
+// shape without points so it still shows up in the shape list.
+export function geometriesToShapes(geometries: SimpleGeometry[], idPrefix: string): GeometryShape[] {
+  const shapes: GeometryShape[] = [];
+
+  geometries.forEach((geometry, index) => {
+    const featureId = `${idPrefix}-${index + 1}`;
+    const geometryParts: ShapePart[] = isEmpty(geometry) && geometry.kind !== "GeometryCollection"
+      ? [{ type: emptyShapeType(geometry.kind), points: [] }]
+      : parts(geometry);
+
+    geometryParts.forEach((part, partIndex) => {
+      const suffix = geometryParts.length > 1 ? `-${partIndex + 1}` : "";
+      shapes.push({
+        ...part,
+        id: `${featureId}${suffix}`,
+        name: `${shapeNames[part.type]} ${index + 1}${suffix ? ` (${partIndex + 1})` : ""}`,
+        featureId,
+      });
+    });
+  });
+
+  return shapes;
+}
+
+// Polygon rings are written closed, as the OGC formats require
+function closeRing(points: Point2D[]): Point2D[] {
+  if (points.length === 0) return points;
+  const first = points[0];
+  const last = points[points.length - 1];
+  return first.x === last.x && first.y === last.y ? points : [...points, first];
+}
+
+function groupToGeometry(shapes: GeometryShape[]): SimpleGeometry {
+  const types = new Set(shapes.map(shape => shape.type));
+  if (types.size > 1) {
+    return { kind: "GeometryCollection", geometries: shapes.map(shape => groupToGeometry([shape])) };
+  }
+
+  switch (shapes[0].type) {
+    case "points": {
+      const points = shapes.flatMap(shape => shape.points);
+      if (points.length === 0) return { kind: "Point", point: null };
+      return points.length === 1 ? { kind: "Point", point: points[0] } : { kind: "MultiPoint", points };
+    }
+    case "polyline":
+      return shapes.length === 1
+        ? { kind: "LineString", points: shapes[0].points }
+        : { kind: "MultiLineString", lines: shapes.map(shape => shape.points) };
+    case "polygon": {
+      const rings = (shape: GeometryShape) =>
+        shape.points.length > 0 ? [shape.points, ...(shape.holes ?? [])].map(closeRing) : [];
+      return shapes.length === 1
+        ? { kind: "Polygon", rings: rings(shapes[0]) }
+        : { kind: "MultiPolygon", polygons: shapes.map(rings) };
+    }
+  }
+}
+
+// Convert shapes into one geometry per source feature
+export function shapesToGeometries(shapes: GeometryShape[]): SimpleGeometry[] {
+  return groupShapesByFeature(shapes).map(group => groupToGeometry(group.shapes));
+}
+
+function allPoints(geometry: SimpleGeometry): Point2D[] {
+  switch (geometry.kind) {
+    case "Point":
+      return geometry.point ? [geometry.point] : [];
+    case "LineString":
+    case "MultiPoint":
+      return geometry.points;
+    case "Polygon":
+      return geometry.rings.flat();
+    case "MultiLineString":
+      return geometry.lines.flat();
+    case "MultiPolygon":
+      return geometry.polygons.flat(2);
+    case "GeometryCollection":
+      return geometry.geometries.flatMap(allPoints);
+  }
+}
+
+// A geometry is written with Z (or M) only when every coordinate has one
+export function geometryDimensions(geometry: SimpleGeometry): Dimensions {
+  const points = allPoints(geometry);
+  return {
+    hasZ: points.length > 0 && points.every(p => p.z !== undefined),
+    hasM: points.length > 0 && points.every(p => p.m !== undefined),
+  };
+}
@@ -0,0 +1,111 @@
+import { describe, expect, test } from "bun:test";
+import type { GeometryShape } from "./geometry";
+import { simplifiedCopy, simplifyPath, simplifyShape, sliderTolerance, vertexCount, type SimplifyMethod } from "./simplify";
+
+const methods: SimplifyMethod[] = ["douglas-peucker", "visvalingam"];
+
+const zigzag = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0.1 },
+  { x: 2, y: -0.1 },
+  { x: 3, y: 5 },
+  { x: 4, y: 0 },
+  { x: 5, y: 0 },
+];
+
+// A square with a nearly straight extra vertex on its bottom edge
+const ring = [
+  { x: 0, y: 0 },
+  { x: 5, y: 0.01 },
+  { x: 10, y: 0 },
+  { x: 10, y: 10 },
+  { x: 0, y: 10 },
+  { x: 0, y: 0 },
+];
+
+describe("simplifyPath", () => {
+  test.each(methods)("%s drops the wiggles but keeps the spike", method => {
+    expect(simplifyPath(zigzag, 0.5, method)).toEqual([
+      { x: 0, y: 0 },
+      { x: 2, y: -0.1 },
+      { x: 3, y: 5 },
+      { x: 4, y: 0 },
+      { x: 5, y: 0 },
+    ]);
+  });
+
+  test.each(methods)("%s reduces a line to its ends", method => {
+    expect(simplifyPath(zigzag, 100, method)).toEqual([
+      { x: 0, y: 0 },
+      { x: 5, y: 0 },
+    ]);
+  });
+
+  test.each(methods)("%s keeps a closed ring closed", method => {
+    expect(simplifyPath(ring, 0.5, method, true)).toEqual([
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 10 },
+      { x: 0, y: 10 },
+      { x: 0, y: 0 },
+    ]);
+  });
+
+  test.each(methods)("%s keeps an open ring open", method => {
+    expect(simplifyPath(ring.slice(0, -1), 0.5, method, true)).toHaveLength(4);
+  });
+
+  test.each(methods)("%s keeps at least a triangle of a ring", method => {
+    const simplified = simplifyPath(ring, 1000, method, true);
+    expect(simplified).toHaveLength(4);
+    expect(simplified[3]).toEqual(simplified[0]);
+  });
+});
+
+describe("simplifyShape", () => {
+  const square: GeometryShape = {
+    id: "a",
+    name: "A",
+    type: "polygon",
+    points: ring,
+    holes: [ring.map(p => ({ x: 2 + p.x / 2, y: 2 + p.y / 2 }))],
+  };
+
+  test("simplifies the outline and the holes", () => {
+    const simplified = simplifyShape(square, 0.5, "douglas-peucker");
+    expect(vertexCount(square)).toBe(12);
+    expect(vertexCount(simplified)).toBe(10);
+    expect(simplified.holes[0]).toHaveLength(5);
+  });
+
+  test("returns point sets as is", () => {
+    const points: GeometryShape = { ...square, type: "points", holes: undefined };
+    expect(simplifyShape(points, 100, "visvalingam")).toBe(points);
+  });
+});
+
+describe("simplifiedCopy", () => {
+  const sine: GeometryShape = {
+    id: "sine",
+    name: "Sine",
+    type: "polyline",
+    points: zigzag,
+    featureId: "sine",
+    version: 2,
+  };
+
+  test("numbers the copy past existing ones", () => {
+    expect(simplifiedCopy(sine, [])).toMatchObject({ id: "sine-simplified-1", name: "Sine (simplified)" });
+    const copy = simplifiedCopy(sine, [{ ...sine, id: "sine-simplified-1" }]);
+    expect(copy.id).toBe("sine-simplified-2");
+    expect(copy.version).toBeUndefined();
+  });
+});
+
+describe("sliderTolerance", () => {
+  test("spans a thousandfold range of the extent", () => {
+    expect(sliderTolerance(0, 10)).toBeCloseTo(0.001, 12);
+    expect(sliderTolerance(50, 10)).toBeCloseTo(10 ** -1.5, 12);
+    expect(sliderTolerance(100, 10)).toBeCloseTo(1, 12);
+  });
+});
@@ -0,0 +1,201 @@
+import { resultShapes, type GeometryShape, type Point2D } from "./geometry";
+import { openRing } from "./analytics";
+
+export type SimplifyMethod = "douglas-peucker" | "visvalingam";
+
+export const simplifyMethodLabels: Record<SimplifyMethod, string> = {
+  "douglas-peucker": "Douglas–Peucker",
+  visvalingam: "Visvalingam–Whyatt",
+};
+
+// Squared distance from p to segment ab, inlined for the hot loop below
+function segmentDistanceSq(p: Point2D, a: Point2D, b: Point2D): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  let t = lengthSq > 0 ? ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq : 0;
+  t = t < 0 ? 0 : t > 1 ? 1 : t;
+  const ex = a.x + t * dx - p.x;
+  const ey = a.y + t * dy - p.y;
+  return ex * ex + ey * ey;
+}
+
+// Douglas–Peucker: keep the vertex farthest from the chord between two kept
+// vertices while it is more than `tolerance` away, then recurse on both halves
+function douglasPeucker(points: Point2D[], tolerance: number): Point2D[] {
+  if (points.length <= 2) return points;
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+
+  // Explicit stack so long GPS tracks can't overflow the call stack
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let farthest = -1;
+    let farthestDistance = tolerance * tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const d = segmentDistanceSq(points[i], points[first], points[last]);
+      if (d > farthestDistance) {
+        farthest = i;
+        farthestDistance = d;
+      }
+    }
+    if (farthest < 0) continue;
+    keep[farthest] = 1;
+    stack.push([first, farthest], [farthest, last]);
+  }
+  return points.filter((_, i) => keep[i]);
+}
+
+function triangleArea(a: Point2D, b: Point2D, c: Point2D): number {
+  return Math.abs((b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y)) / 2;
+}
+
+// Visvalingam–Whyatt: repeatedly drop the vertex whose triangle with its
+// neighbours has the smallest area, while that area is below tolerance².
+// Closed rings wrap around and never drop below `minimum` vertices.
+function visvalingam(points: Point2D[], tolerance: number, closed: boolean, minimum: number): Point2D[] {
+  const n = points.length;
+  if (n <= minimum) return points;
+  const threshold = tolerance * tolerance;
+  const prev = Int32Array.from({ length: n }, (_, i) => (i === 0 ? (closed ? n - 1 : -1) : i - 1));
+  const next = Int32Array.from({ length: n }, (_, i) => (i === n - 1 ? (closed ? 0 : -1) : i + 1));
+  const area = new Float64Array(n).fill(Infinity);
+  const removed = new Uint8Array(n);
+
+  const computeArea = (i: number) => {
+    area[i] = prev[i] < 0 || next[i] < 0 ? Infinity : triangleArea(points[prev[i]], points[i], points[next[i]]);
+  };
+  for (let i = 0; i < n; i++) computeArea(i);
+
+  // Binary min-heap of [area, index]; stale entries are skipped when popped
+  const heap: [number, number][] = [];
+  const push = (entry: [number, number]) => {
+    heap.push(entry);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent][0] <= heap[i][0]) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  };
+  const pop = (): [number, number] => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left;
+        if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right;
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  };
+  for (let i = 0; i < n; i++) if (Number.isFinite(area[i])) push([area[i], i]);
+
+  let remaining = n;
+  while (heap.length > 0 && remaining > minimum) {
+    const [value, i] = pop();
+    if (removed[i] || value !== area[i]) continue;
+    if (value >= threshold) break;
+    removed[i] = 1;
+    remaining--;
+    const p = prev[i];
+    const q = next[i];
+    next[p] = q;
+    prev[q] = p;
+    // A neighbour's new triangle is never smaller than the one just removed,
+    // so the removal order stays monotonic
+    for (const j of [p, q]) {
+      computeArea(j);
+      if (Number.isFinite(area[j])) {
+        area[j] = Math.max(area[j], value);
+        push([area[j], j]);
+      }
+    }
+  }
+  return points.filter((_, i) => !removed[i]);
+}
+
+// Simplify a polyline, or a ring when `closed` (given open or closed).
+// Rings keep at least 3 vertices and come back in the form they were given.
+export function simplifyPath(points: Point2D[], tolerance: number, method: SimplifyMethod, closed = false): Point2D[] {
+  if (tolerance <= 0 || points.length <= 2) return points;
+  if (!closed) {
+    return method === "douglas-peucker" ? douglasPeucker(points, tolerance) : visvalingam(points, tolerance, false, 2);
+  }
+
+  const ring = openRing(points);
+  const wasClosed = ring.length < points.length;
+  if (ring.length <= 3) return points;
+
+  let simplified: Point2D[];
+  if (method === "visvalingam") {
+    simplified = visvalingam(ring, tolerance, true, 3);
+  } else {
+    // Split the ring at the vertex farthest from the first, simplifying each half
+    let split = 1;
+    let splitDistance = -1;
+    ring.forEach((p, i) => {
+      const d = Math.hypot(p.x - ring[0].x, p.y - ring[0].y);
+      if (d > splitDistance) {
+        split = i;
+        splitDistance = d;
+      }
+    });
+    const first = douglasPeucker(ring.slice(0, split + 1), tolerance);
+    const second = douglasPeucker([...ring.slice(split), ring[0]], tolerance);
+    simplified = [...first, ...second.slice(1, -1)];
+    if (simplified.length < 3) {
+      // Everything is within the tolerance: keep the triangle of the two ends
+      // and the vertex farthest from the chord between them
+      let far = -1;
+      let farDistance = 0;
+      ring.forEach((p, i) => {
+        const d = segmentDistanceSq(p, ring[0], ring[split]);
+        if (d > farDistance) {
+          far = i;
+          farDistance = d;
+        }
+      });
+      if (far < 0) return points;
+      simplified = far < split ? [ring[0], ring[far], ring[split]] : [ring[0], ring[split], ring[far]];
+    }
+  }
+  return wasClosed ? [...simplified, simplified[0]] : simplified;
+}
+
+// The shape with its outline and holes simplified. Point sets are returned as is.
+export function simplifyShape(shape: GeometryShape, tolerance: number, method: SimplifyMethod): GeometryShape {
+  if (shape.type === "points") return shape;
+  const closed = shape.type === "polygon";
+  const simplified: GeometryShape = { ...shape, points: simplifyPath(shape.points, tolerance, method, closed) };
+  if (shape.holes) simplified.holes = shape.holes.map(hole => simplifyPath(hole, tolerance, method, true));
+  return simplified;
+}
+
+export function vertexCount(shape: GeometryShape): number {
+  return shape.points.length + (shape.holes ?? []).reduce((sum, hole) => sum + hole.length, 0);
+}
+
+// A simplified copy to add alongside the original, with an id like
+// "sine-simplified-2" numbered past any in `existing`
+export function simplifiedCopy(simplified: GeometryShape, existing: GeometryShape[]): GeometryShape {
+  const { id, name, featureId, version, ...part } = simplified;
+  return resultShapes(`${id}-simplified`, () => `${name} (simplified)`, [part], existing)[0];
+}
+
+// Tolerance for a slider position from 0 to 100, spread logarithmically from
+// 1/10000 to 1/10 of `extent` (e.g. the diagonal of the shapes' bounds)
+export function sliderTolerance(level: number, extent: number): number {
+  return extent * Math.pow(10, -4 + (3 * level) / 100);
+}
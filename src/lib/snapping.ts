@@ -0,0 +1,141 @@
+import type { GeometryShape, Point2D } from "./geometry";
+import { getRings, type VertexRef } from "./editing";
+import { closestPointOnSegment } from "./hitTest";
+
+export type SnapKind = "vertex" | "midpoint" | "edge" | "axis" | "grid";
+
+export type SnapSettings = Record<SnapKind, boolean>;
+
+export const defaultSnapSettings: SnapSettings = {
+  vertex: true,
+  midpoint: true,
+  edge: true,
+  axis: false,
+  grid: false,
+};
+
+export const snapKindLabels: Record<SnapKind, string> = {
+  vertex: "Vertex",
+  midpoint: "Midpoint",
+  edge: "Edge",
+  axis: "Axis",
+  grid: "Grid",
+};
+
+export interface SnapResult {
+  point: Point2D;
+  // null when nothing was in range and the point is unchanged
+  kind: SnapKind | null;
+  // Vertices an axis snap lined up with, for drawing guide lines
+  guides: Point2D[];
+}
+
+export interface SnapOptions {
+  settings: SnapSettings;
+  // Snap radius in world units
+  tolerance: number;
+  // Grid spacing in world units, used by grid snapping
+  gridStep?: number;
+  // The vertex being moved; it and its edges are not snap targets
+  exclude?: VertexRef;
+  // Extra vertices to snap to, e.g. those of a shape being drawn
+  extraVertices?: Point2D[];
+}
+
+// Higher priority snaps win over closer lower priority ones
+const priority: SnapKind[] = ["vertex", "midpoint", "axis", "edge", "grid"];
+
+function isClosed(ring: Point2D[]): boolean {
+  return ring.length > 1 && ring[0].x === ring[ring.length - 1].x && ring[0].y === ring[ring.length - 1].y;
+}
+
+interface Target {
+  vertices: Point2D[];
+  // Segment endpoints
+  edges: [Point2D, Point2D][];
+}
+
+// Snap targets of all shapes, leaving out the excluded vertex and the edges
+// that move with it
+function collectTargets(shapes: GeometryShape[], exclude: VertexRef | undefined): Target {
+  const vertices: Point2D[] = [];
+  const edges: [Point2D, Point2D][] = [];
+
+  for (const shape of shapes) {
+    getRings(shape).forEach((ring, ringIndex) => {
+      const excluded = new Set<number>();
+      if (exclude && exclude.shapeId === shape.id && exclude.ring === ringIndex) {
+        excluded.add(exclude.index);
+        // The repeated closing point is the same vertex
+        if (shape.type === "polygon" && isClosed(ring)) {
+          if (exclude.index === 0) excluded.add(ring.length - 1);
+          if (exclude.index === ring.length - 1) excluded.add(0);
+        }
+      }
+
+      ring.forEach((vertex, i) => {
+        if (!excluded.has(i)) vertices.push(vertex);
+      });
+
+      if (shape.type === "points") return;
+      const closing = shape.type === "polygon" && !isClosed(ring) && ring.length > 2;
+      const count = ring.length - 1 + (closing ? 1 : 0);
+      for (let i = 0; i < count; i++) {
+        const j = (i + 1) % ring.length;
+        if (!excluded.has(i) && !excluded.has(j)) edges.push([ring[i], ring[j]]);
+      }
+    });
+  }
+  return { vertices, edges };
+}
+
+// Snap `point` to the best target in range. Vertices beat midpoints, which
+// beat axis alignment, edges and finally the grid.
+export function snapPoint(point: Point2D, shapes: GeometryShape[], options: SnapOptions): SnapResult {
+  const { settings, tolerance, gridStep, exclude, extraVertices = [] } = options;
+  const { vertices, edges } = collectTargets(shapes, exclude);
+  vertices.push(...extraVertices);
+
+  const candidates: Partial<Record<SnapKind, { point: Point2D; distance: number; guides: Point2D[] }>> = {};
+  const offer = (kind: SnapKind, candidate: Point2D, guides: Point2D[] = []) => {
+    const distance = Math.hypot(candidate.x - point.x, candidate.y - point.y);
+    if (distance > tolerance && kind !== "grid") return;
+    const current = candidates[kind];
+    if (!current || distance < current.distance) candidates[kind] = { point: candidate, distance, guides };
+  };
+
+  if (settings.vertex) {
+    for (const vertex of vertices) offer("vertex", vertex);
+  }
+  if (settings.midpoint) {
+    for (const [a, b] of edges) offer("midpoint", { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+  }
+  if (settings.edge) {
+    for (const [a, b] of edges) offer("edge", closestPointOnSegment(point, a, b));
+  }
+  if (settings.axis) {
+    // Line up with the nearest vertex horizontally and/or vertically
+    let alignX: Point2D | null = null;
+    let alignY: Point2D | null = null;
+    for (const vertex of vertices) {
+      if (Math.abs(vertex.x - point.x) <= tolerance && (!alignX || Math.abs(vertex.x - point.x) < Math.abs(alignX.x - point.x))) alignX = vertex;
+      if (Math.abs(vertex.y - point.y) <= tolerance && (!alignY || Math.abs(vertex.y - point.y) < Math.abs(alignY.y - point.y))) alignY = vertex;
+    }
+    if (alignX || alignY) {
+      offer(
+        "axis",
+        { x: alignX ? alignX.x : point.x, y: alignY ? alignY.y : point.y },
+        [alignX, alignY].filter((v): v is Point2D => v !== null)
+      );
+    }
+  }
+  if (settings.grid && gridStep && gridStep > 0) {
+    offer("grid", { x: Math.round(point.x / gridStep) * gridStep, y: Math.round(point.y / gridStep) * gridStep });
+  }
+
+  for (const kind of priority) {
+    const candidate = candidates[kind];
+    if (candidate) return { point: { x: candidate.point.x, y: candidate.point.y }, kind, guides: candidate.guides };
+  }
+  return { point, kind: null, guides: [] };
+}
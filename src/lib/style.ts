@@ -0,0 +1,49 @@
+import type { GeometryShape } from "./geometry";
+import { getShapeColor } from "./utils";
+
+export type PointShape = "circle" | "square" | "diamond" | "triangle";
+
+// Optional per-shape styling; anything left out falls back to the defaults
+export interface ShapeStyle {
+  strokeColor?: string;
+  // Line width in screen pixels, independent of zoom
+  strokeWidth?: number;
+  // Dash and gap length in screen pixels; solid when omitted
+  dash?: [number, number];
+  fillColor?: string;
+  fillOpacity?: number;
+  // Vertex marker radius in screen pixels
+  pointRadius?: number;
+  pointShape?: PointShape;
+}
+
+export type ResolvedShapeStyle = Required<Omit<ShapeStyle, "dash">> & Pick<ShapeStyle, "dash">;
+
+export const defaultShapeStyle = {
+  strokeWidth: 2,
+  fillOpacity: 0.2,
+  pointRadius: 4,
+  pointShape: "circle",
+} as const;
+
+export function resolveShapeStyle(shape: GeometryShape): ResolvedShapeStyle {
+  const style = shape.style ?? {};
+  const strokeColor = style.strokeColor ?? getShapeColor(shape.id);
+  return {
+    strokeColor,
+    strokeWidth: style.strokeWidth ?? defaultShapeStyle.strokeWidth,
+    dash: style.dash,
+    fillColor: style.fillColor ?? strokeColor,
+    fillOpacity: style.fillOpacity ?? defaultShapeStyle.fillOpacity,
+    pointRadius: style.pointRadius ?? defaultShapeStyle.pointRadius,
+    pointShape: style.pointShape ?? defaultShapeStyle.pointShape,
+  };
+}
+
+// Halo drawn behind selected shapes; widths are in screen pixels
+export const selectionStyle = {
+  color: "#2563eb",
+  opacity: 0.35,
+  haloWidth: 6,
+  pointHalo: 3,
+} as const;
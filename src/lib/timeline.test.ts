@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import type { GeometryShape, Keyframe } from "./geometry";
+import { formatTime, isTimed, keyframeAt, shapesAtTime, timeRange, timelineTimes } from "./timeline";
+
+const frames: Keyframe[] = [
+  { time: 0, points: [{ x: 0, y: 0, z: 0 }, { x: 10, y: 0 }] },
+  { time: 10, points: [{ x: 10, y: 20, z: 5 }, { x: 20, y: 0 }] },
+  { time: 20, points: [{ x: 0, y: 0 }] },
+];
+
+describe("keyframeAt", () => {
+  test("interpolates vertices between matching keyframes", () => {
+    expect(keyframeAt(frames, 2.5)).toEqual({ time: 2.5, points: [{ x: 2.5, y: 5, z: 1.25 }, { x: 12.5, y: 0 }] });
+  });
+
+  test("holds the earlier keyframe when vertex counts differ", () => {
+    expect(keyframeAt(frames, 15)).toBe(frames[1]);
+  });
+
+  test("is empty before the first keyframe and holds the last after the end", () => {
+    expect(keyframeAt(frames, -1)).toBeNull();
+    expect(keyframeAt(frames, 10)).toBe(frames[1]);
+    expect(keyframeAt(frames, 99)).toBe(frames[2]);
+    expect(keyframeAt([], 0)).toBeNull();
+  });
+
+  test("sorts keyframes given out of order", () => {
+    expect(keyframeAt([frames[1], frames[0]], 5).points[0]).toEqual({ x: 5, y: 10, z: 2.5 });
+  });
+
+  test("interpolates holes ring by ring", () => {
+    const withHoles: Keyframe[] = [
+      { time: 0, points: [], holes: [[{ x: 0, y: 0 }]] },
+      { time: 4, points: [], holes: [[{ x: 4, y: 8 }]] },
+    ];
+    expect(keyframeAt(withHoles, 1).holes).toEqual([[{ x: 1, y: 2 }]]);
+  });
+});
+
+describe("shapesAtTime", () => {
+  const moving: GeometryShape = { id: "moving", name: "Moving", type: "polyline", points: [], keyframes: frames.slice(0, 2) };
+  const still: GeometryShape = { id: "still", name: "Still", type: "points", points: [{ x: 1, y: 1 }] };
+  const snapshot = (id: string, time: number): GeometryShape => ({ id, name: id, type: "points", points: [], featureId: "f", time });
+  const snapshots = [snapshot("f-1", 1), snapshot("f-5", 5)];
+
+  test("moves keyframed shapes and passes untimed ones through", () => {
+    const { shapes, hidden } = shapesAtTime([moving, still], 5);
+    expect(shapes[0].points).toEqual([{ x: 5, y: 10, z: 2.5 }, { x: 15, y: 0 }]);
+    expect(shapes[1]).toBe(still);
+    expect(hidden.size).toBe(0);
+  });
+
+  test("hides keyframed shapes before their first keyframe", () => {
+    expect(Array.from(shapesAtTime([{ ...moving, keyframes: frames.slice(1) }], 5).hidden)).toEqual(["moving"]);
+  });
+
+  test.each([
+    [0, ["f-1", "f-5"]],
+    [1, ["f-5"]],
+    [4.9, ["f-5"]],
+    [5, ["f-1"]],
+    [50, ["f-1"]],
+  ] as const)("at %d hides %j", (time, hidden) => {
+    expect(Array.from(shapesAtTime(snapshots, time).hidden)).toEqual([...hidden]);
+  });
+
+  test("supersedes snapshots only within their feature", () => {
+    const other = { ...snapshot("g-3", 3), featureId: "g" };
+    expect(Array.from(shapesAtTime([...snapshots, other], 5).hidden)).toEqual(["f-1"]);
+  });
+});
+
+describe("timeRange", () => {
+  test("spans snapshot times and keyframes", () => {
+    const shapes: GeometryShape[] = [
+      { id: "a", name: "A", type: "points", points: [], time: 30 },
+      { id: "b", name: "B", type: "polyline", points: [], keyframes: frames },
+      { id: "c", name: "C", type: "points", points: [] },
+    ];
+    expect(shapes.map(isTimed)).toEqual([true, true, false]);
+    expect(timelineTimes(shapes)).toEqual([0, 10, 20, 30]);
+    expect(timeRange(shapes)).toEqual({ start: 0, end: 30 });
+    expect(timeRange([shapes[2]])).toBeNull();
+  });
+});
+
+describe("formatTime", () => {
+  test("shows the decimals the range needs", () => {
+    expect(formatTime(5.5, { start: 0, end: 10 })).toBe("5.5");
+    expect(formatTime(42, { start: 40, end: 50 })).toBe("42.0");
+    expect(formatTime(1.7e12, { start: 1.6e12, end: 1.8e12 })).toBe("1700000000000");
+  });
+});
@@ -0,0 +1,117 @@
+import type { GeometryShape, Keyframe, Point2D } from "./geometry";
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export function isTimed(shape: GeometryShape): boolean {
+  return shape.time !== undefined || (shape.keyframes?.length ?? 0) > 0;
+}
+
+// Every distinct time at which something changes, in order
+export function timelineTimes(shapes: GeometryShape[]): number[] {
+  const times = new Set<number>();
+  for (const shape of shapes) {
+    if (shape.time !== undefined) times.add(shape.time);
+    shape.keyframes?.forEach(keyframe => times.add(keyframe.time));
+  }
+  return Array.from(times).sort((a, b) => a - b);
+}
+
+// First and last time of the timed shapes, or null when none are timed
+export function timeRange(shapes: GeometryShape[]): TimeRange | null {
+  const times = timelineTimes(shapes);
+  return times.length > 0 ? { start: times[0], end: times[times.length - 1] } : null;
+}
+
+function sortedKeyframes(keyframes: Keyframe[]): Keyframe[] {
+  const sorted = keyframes.every((keyframe, i) => i === 0 || keyframes[i - 1].time <= keyframe.time);
+  return sorted ? keyframes : [...keyframes].sort((a, b) => a.time - b.time);
+}
+
+// Vertices can only be interpolated ring by ring with matching counts
+function sameLayout(a: Keyframe, b: Keyframe): boolean {
+  if (a.points.length !== b.points.length) return false;
+  const aHoles = a.holes ?? [];
+  const bHoles = b.holes ?? [];
+  return aHoles.length === bHoles.length && aHoles.every((hole, i) => hole.length === bHoles[i].length);
+}
+
+function lerp(a: number, b: number, f: number): number {
+  return a + (b - a) * f;
+}
+
+function lerpPoint(a: Point2D, b: Point2D, f: number): Point2D {
+  const point: Point2D = { x: lerp(a.x, b.x, f), y: lerp(a.y, b.y, f) };
+  if (a.z !== undefined && b.z !== undefined) point.z = lerp(a.z, b.z, f);
+  if (a.m !== undefined && b.m !== undefined) point.m = lerp(a.m, b.m, f);
+  return point;
+}
+
+// Geometry at `time`: vertices move linearly between keyframes whose counts
+// match, otherwise the earlier keyframe holds until the next one. Null
+// before the first keyframe; the last one holds after the end.
+export function keyframeAt(keyframes: Keyframe[], time: number): Keyframe | null {
+  const frames = sortedKeyframes(keyframes);
+  if (frames.length === 0 || time < frames[0].time) return null;
+  let i = 0;
+  while (i + 1 < frames.length && frames[i + 1].time <= time) i++;
+  const from = frames[i];
+  const to = frames[i + 1];
+  if (!to || !sameLayout(from, to) || time === from.time) return from;
+
+  const f = (time - from.time) / (to.time - from.time);
+  const frame: Keyframe = { time, points: from.points.map((p, j) => lerpPoint(p, to.points[j], f)) };
+  if (from.holes) frame.holes = from.holes.map((hole, h) => hole.map((p, j) => lerpPoint(p, to.holes![h][j], f)));
+  return frame;
+}
+
+export interface TimeSlice {
+  // The shapes in their original order, keyframed ones moved to `time`.
+  // Untimed shapes and unmoved timed ones are passed through as is.
+  shapes: GeometryShape[];
+  // Ids of shapes that don't exist at `time`
+  hidden: Set<string>;
+}
+
+export function shapesAtTime(shapes: GeometryShape[], time: number): TimeSlice {
+  // Snapshot times of each feature, to find when a snapshot is superseded
+  const featureTimes = new Map<string | number, number[]>();
+  for (const shape of shapes) {
+    if (shape.time === undefined || shape.keyframes?.length) continue;
+    const key = shape.featureId ?? shape.id;
+    const times = featureTimes.get(key);
+    if (times) times.push(shape.time);
+    else featureTimes.set(key, [shape.time]);
+  }
+
+  const hidden = new Set<string>();
+  const sliced = shapes.map(shape => {
+    if (shape.keyframes?.length) {
+      const frame = keyframeAt(shape.keyframes, time);
+      if (!frame) {
+        hidden.add(shape.id);
+        return shape;
+      }
+      const moved: GeometryShape = { ...shape, points: frame.points };
+      if (frame.holes) moved.holes = frame.holes;
+      else delete moved.holes;
+      return moved;
+    }
+    if (shape.time !== undefined) {
+      const own = shape.time;
+      const superseded = featureTimes.get(shape.featureId ?? shape.id)!.some(t => t > own && t <= time);
+      if (own > time || superseded) hidden.add(shape.id);
+    }
+    return shape;
+  });
+  return { shapes: sliced, hidden };
+}
+
+// Time labels: plain numbers, with decimals only where the range needs them
+export function formatTime(time: number, range: TimeRange): string {
+  const span = range.end - range.start;
+  const decimals = span > 0 ? Math.max(0, Math.min(6, 2 - Math.floor(Math.log10(span)))) : 0;
+  return time.toFixed(decimals);
+}
@@ -0,0 +1,47 @@
+import { z } from "zod";
+import type { GeometryShape } from "./geometry";
+import { formatSchemaError, geometryShapeSchema, type ParseResult } from "./schema";
+
+// One recorded scene of an algorithm, e.g. a solver iteration
+export interface TraceStep {
+  label: string;
+  // Optional message logged at this step
+  log?: string;
+  shapes: GeometryShape[];
+}
+
+const traceStepSchema = z.object({
+  label: z.string().optional(),
+  log: z.string().optional(),
+  shapes: z.array(geometryShapeSchema),
+});
+
+const traceStepsSchema = z.array(traceStepSchema);
+
+// A trace file is an array of steps, or an object with a `steps` array.
+// Steps without a label are numbered from 1.
+export function parseTrace(value: unknown): ParseResult<TraceStep[]> {
+  const parsed = Array.isArray(value)
+    ? traceStepsSchema.safeParse(value)
+    : z.object({ steps: traceStepsSchema }).transform(trace => trace.steps).safeParse(value);
+  if (!parsed.success) {
+    return { error: formatSchemaError(parsed.error) };
+  }
+  const steps = parsed.data;
+  if (steps.length === 0) return { error: "The trace has no steps" };
+  return {
+    value: steps.map((step, i) => ({
+      label: step.label ?? `Step ${i + 1}`,
+      log: step.log,
+      shapes: step.shapes as GeometryShape[],
+    })),
+  };
+}
+
+// Step index for a 1-based step number typed by the user, or null when it's
+// not a whole number within the trace
+export function stepIndex(text: string, count: number): number | null {
+  const number = Number(text.trim());
+  if (!Number.isInteger(number) || number < 1 || number > count) return null;
+  return number - 1;
+}
@@ -0,0 +1,101 @@
+import { describe, expect, test } from "bun:test";
+import type { GeometryShape, Point2D } from "./geometry";
+import {
+  composeMatrices,
+  determinant,
+  formatMatrix,
+  isAffine,
+  mirrorMatrix,
+  parametersMatrix,
+  parseMatrix,
+  rotationMatrix,
+  scaleMatrix,
+  transformPoint,
+  transformShapes,
+  translationMatrix,
+  type Matrix3,
+} from "./transform";
+
+function expectPoint(actual: Point2D, expected: Point2D) {
+  expect(actual.x).toBeCloseTo(expected.x, 9);
+  expect(actual.y).toBeCloseTo(expected.y, 9);
+}
+
+describe("parseMatrix", () => {
+  test.each([
+    ["plain rows", "1 0 5\n0 1 -2\n0 0 1"],
+    ["NumPy", "[[1, 0, 5], [0, 1, -2], [0, 0, 1]]"],
+    ["MATLAB", "[1 0 5; 0 1 -2; 0 0 1]"],
+    ["2×3 affine", "1, 0, 5, 0, 1, -2"],
+  ] as const)("reads %s", (_, text) => {
+    expect(parseMatrix(text)).toEqual({ value: [1, 0, 5, 0, 1, -2, 0, 0, 1] });
+  });
+
+  test.each([
+    ["1 2 3 4", "Expected 9 numbers (3×3) or 6 (2×3 affine), got 4"],
+    ["1 0 x 0 1 0", '"x" is not a number'],
+    ["1 0 0 0 1 0 0 0 Infinity", '"Infinity" is not a number'],
+    ["1 2 0 2 4 0", "The matrix is singular and would collapse the shapes"],
+  ] as const)("rejects %s", (text, error) => {
+    expect(parseMatrix(text)).toEqual({ error });
+  });
+
+  test("round-trips formatted matrices", () => {
+    const m: Matrix3 = [2, 0, 1.5, 0, 0.5, -3, 0, 0.001, 1];
+    expect(formatMatrix(m)).toBe("2 0 1.5\n0 0.5 -3\n0 0.001 1");
+    expect(parseMatrix(formatMatrix(m)).value).toEqual(m);
+  });
+});
+
+describe("matrices", () => {
+  test("compose in the order they are applied", () => {
+    const m = composeMatrices(translationMatrix(1, 0), rotationMatrix(90));
+    expectPoint(transformPoint(m, { x: 0, y: 0 }), { x: 0, y: 1 });
+  });
+
+  test("rotate, scale and mirror about the pivot", () => {
+    const pivot = { x: 2, y: 3 };
+    expectPoint(transformPoint(rotationMatrix(90, pivot), { x: 3, y: 3 }), { x: 2, y: 4 });
+    expectPoint(transformPoint(scaleMatrix(2, 3, pivot), { x: 3, y: 4 }), { x: 4, y: 6 });
+    expectPoint(transformPoint(mirrorMatrix("horizontal", pivot), { x: 3, y: 4 }), { x: 1, y: 4 });
+    expectPoint(transformPoint(mirrorMatrix("both", pivot), { x: 3, y: 4 }), { x: 1, y: 2 });
+    expectPoint(transformPoint(rotationMatrix(45, pivot), pivot), pivot);
+  });
+
+  test("mirroring reverses orientation", () => {
+    expect(determinant(mirrorMatrix("vertical"))).toBe(-1);
+    expect(determinant(mirrorMatrix("both"))).toBe(1);
+    expect(determinant(scaleMatrix(2, 3))).toBe(6);
+  });
+
+  test("apply non-affine matrices projectively, keeping z and m", () => {
+    const m: Matrix3 = [1, 0, 0, 0, 1, 0, 1, 0, 1];
+    expect(isAffine(m)).toBe(false);
+    expect(transformPoint(m, { x: 1, y: 4, z: 7, m: 9 })).toEqual({ x: 0.5, y: 2, z: 7, m: 9 });
+  });
+
+  test("mirror, scale, rotate and then translate from parameters", () => {
+    const m = parametersMatrix({ dx: 10, dy: 0, rotation: 90, scaleX: 2, scaleY: 1, mirror: "horizontal", pivot: { x: 0, y: 0 } });
+    expectPoint(transformPoint(m, { x: 1, y: 0 }), { x: 10, y: -2 });
+  });
+});
+
+describe("transformShapes", () => {
+  const a: GeometryShape = {
+    id: "a",
+    name: "A",
+    type: "polygon",
+    points: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }],
+    holes: [[{ x: 0.5, y: 0.2 }]],
+    keyframes: [{ time: 0, points: [{ x: 2, y: 2 }] }],
+  };
+  const b: GeometryShape = { id: "b", name: "B", type: "points", points: [{ x: 5, y: 5 }] };
+
+  test("moves only the listed shapes, including holes and keyframes", () => {
+    const [movedA, movedB] = transformShapes([a, b], ["a"], translationMatrix(1, 2));
+    expect(movedA.points[2]).toEqual({ x: 2, y: 3 });
+    expect(movedA.holes[0][0]).toEqual({ x: 1.5, y: 2.2 });
+    expect(movedA.keyframes[0].points[0]).toEqual({ x: 3, y: 4 });
+    expect(movedB).toBe(b);
+  });
+});
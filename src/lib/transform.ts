@@ -0,0 +1,141 @@
+import type { GeometryShape, Point2D } from "./geometry";
+import type { ParseResult } from "./schema";
+
+// Row-major 3×3 matrix acting on column vectors [x, y, 1]. Affine transforms
+// have a bottom row of [0, 0, 1]; other matrices are applied projectively.
+export type Matrix3 = [number, number, number, number, number, number, number, number, number];
+
+export const identityMatrix: Matrix3 = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+// a · b, i.e. b is applied first
+export function multiplyMatrices(a: Matrix3, b: Matrix3): Matrix3 {
+  const result = new Array<number>(9);
+  for (let row = 0; row < 3; row++) {
+    for (let column = 0; column < 3; column++) {
+      result[row * 3 + column] = a[row * 3] * b[column] + a[row * 3 + 1] * b[3 + column] + a[row * 3 + 2] * b[6 + column];
+    }
+  }
+  return result as Matrix3;
+}
+
+// Compose transforms listed in the order they are applied
+export function composeMatrices(...matrices: Matrix3[]): Matrix3 {
+  return matrices.reduce((combined, matrix) => multiplyMatrices(matrix, combined), identityMatrix);
+}
+
+export function translationMatrix(dx: number, dy: number): Matrix3 {
+  return [1, 0, dx, 0, 1, dy, 0, 0, 1];
+}
+
+// Conjugate `matrix` so it acts about `pivot` instead of the origin
+function aboutPivot(matrix: Matrix3, pivot: Point2D): Matrix3 {
+  return composeMatrices(translationMatrix(-pivot.x, -pivot.y), matrix, translationMatrix(pivot.x, pivot.y));
+}
+
+// Counter-clockwise rotation in degrees
+export function rotationMatrix(degrees: number, pivot: Point2D = { x: 0, y: 0 }): Matrix3 {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return aboutPivot([cos, -sin, 0, sin, cos, 0, 0, 0, 1], pivot);
+}
+
+export function scaleMatrix(sx: number, sy: number, pivot: Point2D = { x: 0, y: 0 }): Matrix3 {
+  return aboutPivot([sx, 0, 0, 0, sy, 0, 0, 0, 1], pivot);
+}
+
+export type MirrorMode = "none" | "horizontal" | "vertical" | "both";
+
+export const mirrorModeLabels: Record<MirrorMode, string> = {
+  none: "None",
+  horizontal: "Left ↔ right",
+  vertical: "Top ↕ bottom",
+  both: "Both",
+};
+
+// Horizontal mirroring flips x across the vertical line through the pivot
+export function mirrorMatrix(mode: MirrorMode, pivot: Point2D = { x: 0, y: 0 }): Matrix3 {
+  const flipX = mode === "horizontal" || mode === "both";
+  const flipY = mode === "vertical" || mode === "both";
+  return scaleMatrix(flipX ? -1 : 1, flipY ? -1 : 1, pivot);
+}
+
+export function isAffine(m: Matrix3): boolean {
+  return m[6] === 0 && m[7] === 0 && m[8] === 1;
+}
+
+export function determinant(m: Matrix3): number {
+  return m[0] * (m[4] * m[8] - m[5] * m[7]) - m[1] * (m[3] * m[8] - m[5] * m[6]) + m[2] * (m[3] * m[7] - m[4] * m[6]);
+}
+
+// Other fields of the point (z, m) are kept
+export function transformPoint(m: Matrix3, p: Point2D): Point2D {
+  const w = m[6] * p.x + m[7] * p.y + m[8];
+  return {
+    ...p,
+    x: (m[0] * p.x + m[1] * p.y + m[2]) / w,
+    y: (m[3] * p.x + m[4] * p.y + m[5]) / w,
+  };
+}
+
+export function transformShape(shape: GeometryShape, m: Matrix3): GeometryShape {
+  const transformed: GeometryShape = { ...shape, points: shape.points.map(p => transformPoint(m, p)) };
+  if (shape.holes) transformed.holes = shape.holes.map(hole => hole.map(p => transformPoint(m, p)));
+  if (shape.keyframes) {
+    transformed.keyframes = shape.keyframes.map(keyframe => ({
+      ...keyframe,
+      points: keyframe.points.map(p => transformPoint(m, p)),
+      holes: keyframe.holes?.map(hole => hole.map(p => transformPoint(m, p))),
+    }));
+  }
+  return transformed;
+}
+
+// Transform the shapes whose ids are listed, leaving the rest untouched
+export function transformShapes(shapes: GeometryShape[], ids: string[], m: Matrix3): GeometryShape[] {
+  return shapes.map(shape => (ids.includes(shape.id) ? transformShape(shape, m) : shape));
+}
+
+// Parse a matrix pasted as text: 9 numbers for a full 3×3 matrix, or 6 for
+// the top two rows of an affine one, in row order. Brackets, commas and
+// semicolons are ignored, so NumPy, MATLAB and plain listings all work.
+export function parseMatrix(text: string): ParseResult<Matrix3> {
+  const tokens = text.replace(/[[\](){},;]/g, " ").trim().split(/\s+/).filter(Boolean);
+  if (tokens.length !== 9 && tokens.length !== 6) {
+    return { error: `Expected 9 numbers (3×3) or 6 (2×3 affine), got ${tokens.length}` };
+  }
+  const values = tokens.map(Number);
+  const bad = tokens.find((_, i) => !Number.isFinite(values[i]));
+  if (bad !== undefined) return { error: `"${bad}" is not a number` };
+
+  const matrix = (values.length === 6 ? [...values, 0, 0, 1] : values) as Matrix3;
+  if (Math.abs(determinant(matrix)) < 1e-12) return { error: "The matrix is singular and would collapse the shapes" };
+  return { value: matrix };
+}
+
+export function formatMatrix(m: Matrix3, precision = 6): string {
+  const format = (value: number) => String(Number(value.toPrecision(precision)));
+  return [0, 3, 6].map(row => m.slice(row, row + 3).map(format).join(" ")).join("\n");
+}
+
+export interface TransformParameters {
+  dx: number;
+  dy: number;
+  // Degrees counter-clockwise
+  rotation: number;
+  scaleX: number;
+  scaleY: number;
+  mirror: MirrorMode;
+  // Rotation, scaling and mirroring happen about this point
+  pivot: Point2D;
+}
+
+// Mirror, then scale, then rotate about the pivot, then translate
+export function parametersMatrix(p: TransformParameters): Matrix3 {
+  return composeMatrices(
+    mirrorMatrix(p.mirror, p.pivot),
+    scaleMatrix(p.scaleX, p.scaleY, p.pivot),
+    rotationMatrix(p.rotation, p.pivot),
+    translationMatrix(p.dx, p.dy)
+  );
+}
@@ -5,15 +5,31 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-// Color generation function for shapes
-export function getShapeColor(index: number): string {
+// Color generation function for shapes. Colors are derived from the shape id,
+// so a shape keeps its color when the list is reordered or filtered.
+export function getShapeColor(id: string): string {
   const baseColors = ["#3b82f6", "#ef4444", "#22c55e"]; // Blue, Red, Green
-  
+
+  // FNV-1a hash of the id
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < id.length; i++) {
+    hash ^= id.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+
+  const index = hash % 64;
   if (index < baseColors.length) {
     return baseColors[index];
   }
-  
+
   // Generate additional colors using HSL for better distribution
   const hue = ((index - 3) * 137.508) % 360; // Golden angle approximation for good distribution
   return `hsl(${hue}, 70%, 50%)`;
 }
+
+// Whether a key press is meant for a text field rather than a keyboard shortcut
+export function isTextInput(target: EventTarget | null): boolean {
+  return target instanceof HTMLInputElement
+    || target instanceof HTMLTextAreaElement
+    || (target instanceof HTMLElement && target.isContentEditable);
+}
@@ -0,0 +1,119 @@
+import { describe, expect, test } from "bun:test";
+import type { GeometryShape, Point2D, ShapeType } from "./geometry";
+import { validateShape, validateShapes } from "./validation";
+
+const square = [
+  { x: 0, y: 0 },
+  { x: 10, y: 0 },
+  { x: 10, y: 10 },
+  { x: 0, y: 10 },
+  { x: 0, y: 0 },
+];
+
+function shape(type: ShapeType, points: Point2D[], holes?: Point2D[][]): GeometryShape {
+  return { id: "a", name: "A", type, points, holes };
+}
+
+function kinds(s: GeometryShape): string[] {
+  return validateShape(s).map(issue => issue.kind);
+}
+
+describe("validateShape", () => {
+  test("accepts a closed square with a hole inside it", () => {
+    const hole = [
+      { x: 2, y: 2 },
+      { x: 3, y: 2 },
+      { x: 3, y: 3 },
+    ];
+    expect(validateShape(shape("polygon", square, [hole]))).toEqual([]);
+  });
+
+  test("reports where a bowtie crosses itself", () => {
+    const bowtie = [
+      { x: 0, y: 0 },
+      { x: 10, y: 10 },
+      { x: 10, y: 0 },
+      { x: 0, y: 10 },
+    ];
+    expect(validateShape(shape("polygon", bowtie))).toEqual([
+      { shapeId: "a", kind: "self-intersection", message: "Edges cross", location: { x: 5, y: 5 } },
+    ]);
+  });
+
+  test("reports a repeated vertex once, not as a crossing", () => {
+    const points = [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 10 },
+      { x: 0, y: 10 },
+    ];
+    const issues = validateShape(shape("polygon", points));
+    expect(issues.map(issue => issue.kind)).toEqual(["duplicate-vertex"]);
+    expect(issues[0].message).toBe("Vertex 3 of the outer ring repeats vertex 2");
+  });
+
+  test("reports segments that are tiny next to the shape", () => {
+    const points = [
+      { x: 0, y: 0 },
+      { x: 5, y: 0 },
+      { x: 5, y: 1e-12 },
+      { x: 10, y: 0 },
+    ];
+    const issues = validateShape(shape("polyline", points));
+    expect(issues.map(issue => issue.kind)).toEqual(["zero-length-segment"]);
+    expect(issues[0].message).toBe("Segment from vertex 2 to 3 of the line has almost no length");
+  });
+
+  test("reports a line with a single distinct point", () => {
+    const points = [
+      { x: 1, y: 1 },
+      { x: 1, y: 1 },
+    ];
+    expect(kinds(shape("polyline", points))).toEqual(["duplicate-vertex", "too-few-points"]);
+  });
+
+  test("marks non-finite coordinates at the nearest finite vertex", () => {
+    const line = [
+      { x: 0, y: 0 },
+      { x: NaN, y: 1 },
+      { x: 2, y: 0 },
+    ];
+    expect(validateShape(shape("polyline", line))).toEqual([
+      { shapeId: "a", kind: "non-finite", message: "Vertex 2 of the line is (NaN, 1)", location: { x: 0, y: 0 } },
+    ]);
+    const points = [
+      { x: Infinity, y: 1 },
+      { x: 2, y: 0 },
+    ];
+    expect(validateShape(shape("points", points))[0]).toMatchObject({ message: "Point 1 is (Infinity, 1)", location: { x: 2, y: 0 } });
+  });
+
+  test("tells holes outside the shell from holes crossing it", () => {
+    const outside = [
+      { x: 20, y: 20 },
+      { x: 21, y: 20 },
+      { x: 21, y: 21 },
+    ];
+    const crossing = [
+      { x: 5, y: 5 },
+      { x: 15, y: 5 },
+      { x: 5, y: 6 },
+    ];
+    const issues = validateShape(shape("polygon", square, [outside, crossing])).filter(issue => issue.kind === "hole-outside-shell");
+    expect(issues.map(issue => issue.message)).toEqual(["Hole 1 lies outside the outer ring", "Hole 2 extends outside the outer ring"]);
+    expect(kinds(shape("polygon", square, [crossing]))).toContain("self-intersection");
+  });
+});
+
+describe("validateShapes", () => {
+  test("reuses the issues of an unchanged shape", () => {
+    const s = shape("polyline", [
+      { x: 1, y: 1 },
+      { x: 1, y: 1 },
+    ]);
+    const first = validateShapes([s]);
+    expect(validateShapes([s])[0]).toBe(first[0]);
+    expect(validateShapes([{ ...s }])[0]).not.toBe(first[0]);
+  });
+});
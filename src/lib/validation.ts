@@ -0,0 +1,147 @@
+import { findSelfIntersections, openRing } from "./analytics";
+import { dedupeConsecutive } from "./drawing";
+import { getBounds, type GeometryShape, type Point2D } from "./geometry";
+import { pointInRing } from "./measure";
+
+export type IssueKind =
+  | "non-finite"
+  | "duplicate-vertex"
+  | "too-few-points"
+  | "zero-length-segment"
+  | "self-intersection"
+  | "hole-outside-shell";
+
+export const issueKindLabels: Record<IssueKind, string> = {
+  "non-finite": "Invalid coordinate",
+  "duplicate-vertex": "Duplicate vertex",
+  "too-few-points": "Too few points",
+  "zero-length-segment": "Zero-length segment",
+  "self-intersection": "Self-intersection",
+  "hole-outside-shell": "Hole outside shell",
+};
+
+export interface GeometryIssue {
+  shapeId: string;
+  kind: IssueKind;
+  message: string;
+  // Where to mark the issue; null when there is no finite point to mark
+  location: Point2D | null;
+}
+
+// Segments shorter than this fraction of the shape's extent count as zero-length
+const ZERO_LENGTH = 1e-9;
+
+function isFinitePoint(p: Point2D): boolean {
+  return Number.isFinite(p.x) && Number.isFinite(p.y);
+}
+
+function samePoint(a: Point2D, b: Point2D): boolean {
+  return a.x === b.x && a.y === b.y;
+}
+
+function ringName(type: GeometryShape["type"], ring: number): string {
+  if (ring > 0) return `hole ${ring}`;
+  return type === "polygon" ? "outer ring" : "line";
+}
+
+// Checks one ring (or polyline) of finite points for repeated vertices, very
+// short segments and too few distinct points. Closed rings wrap around but
+// may repeat their first point once at the end.
+function checkRing(shape: GeometryShape, ring: Point2D[], ringIndex: number, closed: boolean, minLength: number): GeometryIssue[] {
+  const issues: GeometryIssue[] = [];
+  const name = ringName(shape.type, ringIndex);
+  const points = closed ? openRing(ring) : ring;
+  const count = closed ? points.length : points.length - 1;
+
+  for (let i = 0; i < count && points.length > 1; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const next = ((i + 1) % points.length) + 1;
+    if (samePoint(a, b)) {
+      issues.push({ shapeId: shape.id, kind: "duplicate-vertex", message: `Vertex ${next} of the ${name} repeats vertex ${i + 1}`, location: a });
+    } else if (Math.hypot(b.x - a.x, b.y - a.y) <= minLength) {
+      issues.push({
+        shapeId: shape.id,
+        kind: "zero-length-segment",
+        message: `Segment from vertex ${i + 1} to ${next} of the ${name} has almost no length`,
+        location: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+      });
+    }
+  }
+
+  const distinct = new Set(points.map(p => `${p.x},${p.y}`)).size;
+  const needed = closed ? 3 : 2;
+  if (distinct < needed) {
+    issues.push({
+      shapeId: shape.id,
+      kind: "too-few-points",
+      message: `The ${name} has ${distinct} distinct point${distinct === 1 ? "" : "s"}; it needs at least ${needed}`,
+      location: points[0] ?? null,
+    });
+  }
+  return issues;
+}
+
+// Holes must lie inside the outer ring. Crossings are reported as
+// self-intersections, so this only flags holes with vertices outside it.
+function checkHoles(shape: GeometryShape, rings: Point2D[][]): GeometryIssue[] {
+  const [shell, ...holes] = rings;
+  if (shell.length < 3) return [];
+  const issues: GeometryIssue[] = [];
+  holes.forEach((hole, index) => {
+    const outside = hole.filter(p => !pointInRing(p, shell));
+    if (hole.length === 0 || outside.length === 0) return;
+    issues.push({
+      shapeId: shape.id,
+      kind: "hole-outside-shell",
+      message: outside.length === hole.length ? `Hole ${index + 1} lies outside the outer ring` : `Hole ${index + 1} extends outside the outer ring`,
+      location: outside[0],
+    });
+  });
+  return issues;
+}
+
+// Everything wrong with one shape. Non-finite coordinates are reported and
+// then left out of the remaining checks.
+export function validateShape(shape: GeometryShape): GeometryIssue[] {
+  const issues: GeometryIssue[] = [];
+  const rawRings = shape.type === "polygon" ? [shape.points, ...(shape.holes ?? [])] : [shape.points];
+
+  const rings = rawRings.map((ring, ringIndex) => {
+    ring.forEach((p, i) => {
+      if (isFinitePoint(p)) return;
+      // Mark the nearest finite vertex before it, or after it at the start
+      const nearby = ring.slice(0, i).reverse().find(isFinitePoint) ?? ring.slice(i + 1).find(isFinitePoint) ?? null;
+      const vertex = shape.type === "points" ? `Point ${i + 1}` : `Vertex ${i + 1} of the ${ringName(shape.type, ringIndex)}`;
+      issues.push({ shapeId: shape.id, kind: "non-finite", message: `${vertex} is (${p.x}, ${p.y})`, location: nearby });
+    });
+    return ring.filter(isFinitePoint);
+  });
+  if (shape.type === "points") return issues;
+
+  const bounds = getBounds(rings);
+  const extent = bounds ? Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY) : 0;
+  const closed = shape.type === "polygon";
+  rings.forEach((ring, ringIndex) => issues.push(...checkRing(shape, ring, ringIndex, closed, extent * ZERO_LENGTH)));
+
+  for (const location of findSelfIntersections(rings, closed)) {
+    issues.push({ shapeId: shape.id, kind: "self-intersection", message: "Edges cross", location });
+  }
+
+  if (closed) issues.push(...checkHoles(shape, rings.map(ring => openRing(dedupeConsecutive(ring)))));
+  return issues;
+}
+
+// Shapes keep their identity until they change, so results are cached per object
+const issuesCache = new WeakMap<GeometryShape, GeometryIssue[]>();
+
+export function validateShapes(shapes: GeometryShape[]): GeometryIssue[] {
+  return shapes.flatMap(shape => {
+    let issues = issuesCache.get(shape);
+    if (!issues) {
+      issues = validateShape(shape);
+      issuesCache.set(shape, issues);
+    }
+    return issues;
+  });
+}
@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test";
+import { formatWKB, parseWKB, parseWKBGeometries, toWKB } from "./wkb";
+import { formatGeometry, GeometryParseError, parseWKTGeometries } from "./wkt";
+
+// WKT through WKB and back
+function roundTrip(text: string): string {
+  return parseWKBGeometries(parseWKTGeometries(text).map(formatWKB).join("\n")).map(formatGeometry).join("\n");
+}
+
+describe("WKB round trip", () => {
+  test.each([
+    "POINT (1 2)",
+    "POINT EMPTY",
+    "POINT Z (1 2 3)",
+    "POINT M (1 2 4)",
+    "POINT ZM (1 2 3 4)",
+    "LINESTRING Z (0 0 1, 1 1 2)",
+    "POLYGON ((0 0, 4 0, 4 4, 0 0), (1 1, 2 1, 2 2, 1 1))",
+    "POLYGON EMPTY",
+    "MULTIPOINT (0 0, 1 1)",
+    "MULTILINESTRING ((0 0, 1 1), (2 2, 3 3))",
+    "MULTIPOLYGON (((0 0, 1 0, 1 1, 0 0)), ((5 5, 6 5, 6 6, 5 5)))",
+    "GEOMETRYCOLLECTION (POINT (1 2), LINESTRING (0 0, 1 1))",
+    "GEOMETRYCOLLECTION EMPTY",
+  ])("%s", text => {
+    expect(roundTrip(text)).toBe(text);
+  });
+
+  test("writes little-endian ISO WKB", () => {
+    expect(formatWKB({ kind: "Point", point: { x: 1, y: 2 } })).toBe("0101000000000000000000F03F0000000000000040");
+    expect(formatWKB({ kind: "Point", point: { x: 1, y: 2, z: 3 } })).toBe("01E9030000000000000000F03F00000000000000400000000000000840");
+  });
+
+  test("reads big-endian WKB and EWKB with an SRID", () => {
+    expect(parseWKBGeometries("00000000013FF00000000000004000000000000000").map(formatGeometry)).toEqual(["POINT (1 2)"]);
+    expect(parseWKBGeometries("0101000020E6100000000000000000F03F0000000000000040").map(formatGeometry)).toEqual(["POINT (1 2)"]);
+  });
+
+  test("keeps multi-part features together", () => {
+    const text = "0106000000020000000103000000010000000400000000000000000000000000000000000000000000000000F03F0000000000000000000000000000F03F000000000000F03F000000000000000000000000000000000103000000010000000400000000000000000014400000000000001440000000000000184000000000000014400000000000001840000000000000184000000000000014400000000000001440";
+    const shapes = parseWKB(text);
+    expect(shapes.map(shape => [shape.id, shape.featureId])).toEqual([["wkb-1-1", "wkb-1"], ["wkb-1-2", "wkb-1"]]);
+    expect(toWKB(shapes)).toBe(text);
+  });
+});
+
+describe("WKB errors", () => {
+  test.each([
+    ["zz", "Unexpected character 'z' in hex WKB", 1, 1],
+    ["01010000", "Unexpected end of WKB, expected 4 more bytes", 1, 3],
+    ["0101000000000000000000F03F000000000000004000", "Unexpected trailing bytes after WKB geometry", 1, 44],
+  ] as const)("%s", (text, message, line, column) => {
+    expect(() => parseWKB(text)).toThrow(new GeometryParseError(message, line, column));
+  });
+});
@@ -0,0 +1,270 @@
+import type { GeometryShape, Point2D } from "./geometry";
+import {
+  geometriesToShapes,
+  geometryDimensions,
+  shapesToGeometries,
+  type Dimensions,
+  type SimpleGeometry,
+  type SimpleGeometryKind,
+} from "./simpleFeatures";
+import { GeometryParseError } from "./wkt";
+
+const KIND_CODES: Record<SimpleGeometryKind, number> = {
+  Point: 1,
+  LineString: 2,
+  Polygon: 3,
+  MultiPoint: 4,
+  MultiLineString: 5,
+  MultiPolygon: 6,
+  GeometryCollection: 7,
+};
+
+const CODE_KINDS = Object.fromEntries(
+  Object.entries(KIND_CODES).map(([kind, code]) => [code, kind as SimpleGeometryKind])
+) as Record<number, SimpleGeometryKind>;
+
+// PostGIS extended WKB flags
+const EWKB_Z = 0x80000000;
+const EWKB_M = 0x40000000;
+const EWKB_SRID = 0x20000000;
+
+// Reads WKB from a byte array. Positions in errors are reported as the
+// column of the offending byte in the hex string it came from.
+class WkbReader {
+  private offset = 0;
+  private view: DataView;
+  private littleEndian = true;
+
+  constructor(
+    bytes: Uint8Array,
+    private line: number,
+    private columnOffset: number
+  ) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private fail(message: string, byteOffset = this.offset): never {
+    throw new GeometryParseError(message, this.line, this.columnOffset + byteOffset * 2 + 1);
+  }
+
+  private ensure(byteCount: number) {
+    if (this.offset + byteCount > this.view.byteLength) {
+      this.fail(`Unexpected end of WKB, expected ${byteCount} more byte${byteCount === 1 ? "" : "s"}`);
+    }
+  }
+
+  private readUint8(): number {
+    this.ensure(1);
+    return this.view.getUint8(this.offset++);
+  }
+
+  private readUint32(): number {
+    this.ensure(4);
+    const value = this.view.getUint32(this.offset, this.littleEndian);
+    this.offset += 4;
+    return value;
+  }
+
+  private readFloat64(): number {
+    this.ensure(8);
+    const value = this.view.getFloat64(this.offset, this.littleEndian);
+    this.offset += 8;
+    return value;
+  }
+
+  get done(): boolean {
+    return this.offset >= this.view.byteLength;
+  }
+
+  readGeometry(): SimpleGeometry {
+    const start = this.offset;
+    const byteOrder = this.readUint8();
+    if (byteOrder !== 0 && byteOrder !== 1) this.fail(`Invalid byte order marker ${byteOrder}`, start);
+    this.littleEndian = byteOrder === 1;
+
+    const typeStart = this.offset;
+    const rawType = this.readUint32();
+    let hasZ = (rawType & EWKB_Z) !== 0;
+    let hasM = (rawType & EWKB_M) !== 0;
+    if (rawType & EWKB_SRID) this.readUint32();
+
+    // ISO WKB encodes Z/M as +1000/+2000/+3000 on the type code
+    const isoType = rawType & 0x0fffffff;
+    const dimensionCode = Math.floor(isoType / 1000);
+    if (dimensionCode === 1 || dimensionCode === 3) hasZ = true;
+    if (dimensionCode === 2 || dimensionCode === 3) hasM = true;
+
+    const kind = CODE_KINDS[isoType % 1000];
+    if (!kind || dimensionCode > 3) this.fail(`Unknown WKB geometry type ${isoType}`, typeStart);
+
+    const dimensions = { hasZ, hasM };
+    switch (kind) {
+      case "Point": {
+        const point = this.readPoint(dimensions);
+        // WKB has no EMPTY marker for points; NaN coordinates stand in for it
+        return { kind, point: Number.isNaN(point.x) && Number.isNaN(point.y) ? null : point };
+      }
+      case "LineString":
+        return { kind, points: this.readPoints(dimensions) };
+      case "Polygon":
+        return { kind, rings: this.readCount(() => this.readPoints(dimensions)) };
+      case "MultiPoint":
+        return { kind, points: this.readMembers("Point").flatMap(g => (g.kind === "Point" && g.point ? [g.point] : [])) };
+      case "MultiLineString":
+        return { kind, lines: this.readMembers("LineString").map(g => (g.kind === "LineString" ? g.points : [])) };
+      case "MultiPolygon":
+        return { kind, polygons: this.readMembers("Polygon").map(g => (g.kind === "Polygon" ? g.rings : [])) };
+      case "GeometryCollection":
+        return { kind, geometries: this.readCount(() => this.readGeometry()) };
+    }
+  }
+
+  private readCount<T>(readItem: () => T): T[] {
+    const count = this.readUint32();
+    const items: T[] = [];
+    for (let i = 0; i < count; i++) items.push(readItem());
+    return items;
+  }
+
+  // Multi* members are full WKB geometries of a fixed kind
+  private readMembers(expected: SimpleGeometryKind): SimpleGeometry[] {
+    return this.readCount(() => {
+      const start = this.offset;
+      const member = this.readGeometry();
+      if (member.kind !== expected) this.fail(`Expected a ${expected} member but found ${member.kind}`, start);
+      return member;
+    });
+  }
+
+  private readPoints(dimensions: Dimensions): Point2D[] {
+    return this.readCount(() => this.readPoint(dimensions));
+  }
+
+  private readPoint({ hasZ, hasM }: Dimensions): Point2D {
+    const point: Point2D = { x: this.readFloat64(), y: this.readFloat64() };
+    if (hasZ) point.z = this.readFloat64();
+    if (hasM) point.m = this.readFloat64();
+    return point;
+  }
+}
+
+// Parse hex-encoded WKB/EWKB, one geometry per line (blank lines are ignored)
+export function parseWKBGeometries(hex: string): SimpleGeometry[] {
+  const geometries: SimpleGeometry[] = [];
+
+  hex.split("\n").forEach((rawLine, lineIndex) => {
+    const line = lineIndex + 1;
+    const leading = rawLine.length - rawLine.trimStart().length;
+    const text = rawLine.trim().replace(/^\\x/i, "");
+    if (text.length === 0) return;
+
+    const prefix = rawLine.trim().length - text.length;
+    const columnOffset = leading + prefix;
+    const invalid = /[^0-9a-fA-F]/.exec(text);
+    if (invalid) {
+      throw new GeometryParseError(`Unexpected character '${invalid[0]}' in hex WKB`, line, columnOffset + invalid.index + 1);
+    }
+    if (text.length % 2 !== 0) {
+      throw new GeometryParseError("Hex WKB must have an even number of digits", line, columnOffset + text.length);
+    }
+
+    const bytes = new Uint8Array(text.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(text.slice(i * 2, i * 2 + 2), 16);
+    }
+
+    const reader = new WkbReader(bytes, line, columnOffset);
+    geometries.push(reader.readGeometry());
+    if (!reader.done) {
+      throw new GeometryParseError("Unexpected trailing bytes after WKB geometry", line, columnOffset + text.length);
+    }
+  });
+
+  return geometries;
+}
+
+export function parseWKB(hex: string, idPrefix = "wkb"): GeometryShape[] {
+  return geometriesToShapes(parseWKBGeometries(hex), idPrefix);
+}
+
+// Writes little-endian ISO WKB
+class WkbWriter {
+  private bytes: number[] = [];
+  private scratch = new DataView(new ArrayBuffer(8));
+
+  private writeUint8(value: number) {
+    this.bytes.push(value);
+  }
+
+  private writeUint32(value: number) {
+    this.scratch.setUint32(0, value, true);
+    for (let i = 0; i < 4; i++) this.bytes.push(this.scratch.getUint8(i));
+  }
+
+  private writeFloat64(value: number) {
+    this.scratch.setFloat64(0, value, true);
+    for (let i = 0; i < 8; i++) this.bytes.push(this.scratch.getUint8(i));
+  }
+
+  writeGeometry(geometry: SimpleGeometry, dimensions = geometryDimensions(geometry)) {
+    this.writeUint8(1);
+    const dimensionCode = (dimensions.hasZ ? 1000 : 0) + (dimensions.hasM ? 2000 : 0);
+    this.writeUint32(KIND_CODES[geometry.kind] + dimensionCode);
+
+    switch (geometry.kind) {
+      case "Point":
+        this.writePoint(geometry.point ?? { x: NaN, y: NaN, z: NaN, m: NaN }, dimensions);
+        break;
+      case "LineString":
+        this.writePoints(geometry.points, dimensions);
+        break;
+      case "Polygon":
+        this.writeUint32(geometry.rings.length);
+        geometry.rings.forEach(ring => this.writePoints(ring, dimensions));
+        break;
+      case "MultiPoint":
+        this.writeUint32(geometry.points.length);
+        geometry.points.forEach(point => this.writeGeometry({ kind: "Point", point }, dimensions));
+        break;
+      case "MultiLineString":
+        this.writeUint32(geometry.lines.length);
+        geometry.lines.forEach(points => this.writeGeometry({ kind: "LineString", points }, dimensions));
+        break;
+      case "MultiPolygon":
+        this.writeUint32(geometry.polygons.length);
+        geometry.polygons.forEach(rings => this.writeGeometry({ kind: "Polygon", rings }, dimensions));
+        break;
+      case "GeometryCollection":
+        this.writeUint32(geometry.geometries.length);
+        geometry.geometries.forEach(child => this.writeGeometry(child));
+        break;
+    }
+  }
+
+  private writePoints(points: Point2D[], dimensions: Dimensions) {
+    this.writeUint32(points.length);
+    points.forEach(point => this.writePoint(point, dimensions));
+  }
+
+  private writePoint(point: Point2D, { hasZ, hasM }: Dimensions) {
+    this.writeFloat64(point.x);
+    this.writeFloat64(point.y);
+    if (hasZ) this.writeFloat64(point.z!);
+    if (hasM) this.writeFloat64(point.m!);
+  }
+
+  toHex(): string {
+    return this.bytes.map(byte => byte.toString(16).padStart(2, "0")).join("").toUpperCase();
+  }
+}
+
+export function formatWKB(geometry: SimpleGeometry): string {
+  const writer = new WkbWriter();
+  writer.writeGeometry(geometry);
+  return writer.toHex();
+}
+
+// Serialize shapes as hex WKB, one geometry per line (Multi* parts recombined by featureId)
+export function toWKB(shapes: GeometryShape[]): string {
+  return shapesToGeometries(shapes).map(formatWKB).join("\n");
+}
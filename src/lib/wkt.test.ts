@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test";
+import { formatGeometry, GeometryParseError, parseWKT, parseWKTGeometries, toWKT } from "./wkt";
+
+function roundTrip(text: string): string {
+  return parseWKTGeometries(text).map(formatGeometry).join("\n");
+}
+
+function parseError(text: string): GeometryParseError {
+  try {
+    parseWKT(text);
+  } catch (error) {
+    if (error instanceof GeometryParseError) return error;
+    throw error;
+  }
+  throw new Error(`Expected ${JSON.stringify(text)} to fail`);
+}
+
+describe("WKT round trip", () => {
+  test.each([
+    "POINT (1 2)",
+    "LINESTRING (0 0, 1 1)",
+    "POLYGON ((0 0, 4 0, 4 4, 0 0), (1 1, 2 1, 2 2, 1 1))",
+    "MULTIPOINT (0 0, 1 1)",
+    "MULTILINESTRING ((0 0, 1 1), (2 2, 3 3))",
+    "MULTIPOLYGON (((0 0, 1 0, 1 1, 0 0)), ((5 5, 6 5, 6 6, 5 5)))",
+    "GEOMETRYCOLLECTION (POINT (1 2), LINESTRING (0 0, 1 1))",
+  ])("%s", text => {
+    expect(roundTrip(text)).toBe(text);
+  });
+
+  test.each(["POINT EMPTY", "POLYGON EMPTY", "GEOMETRYCOLLECTION EMPTY"])("%s", text => {
+    expect(roundTrip(text)).toBe(text);
+  });
+
+  test.each(["POINT Z (1 2 3)", "POINT M (1 2 4)", "POINT ZM (1 2 3 4)", "LINESTRING Z (0 0 1, 1 1 2)"])("%s", text => {
+    expect(roundTrip(text)).toBe(text);
+  });
+
+  test("reads bracketed multipoints and skips an EWKT SRID", () => {
+    expect(roundTrip("MULTIPOINT ((0 0), (1 1))")).toBe("MULTIPOINT (0 0, 1 1)");
+    expect(roundTrip("SRID=4326;POINT (1 2)")).toBe("POINT (1 2)");
+  });
+
+  test("keeps Z and M on the parsed points", () => {
+    const [shape] = parseWKT("POINT ZM (1 2 3 4)");
+    expect(shape.points).toEqual([{ x: 1, y: 2, z: 3, m: 4 }]);
+  });
+});
+
+describe("parseWKT", () => {
+  test("splits multi-part geometries into shapes sharing a featureId", () => {
+    const shapes = parseWKT("MULTIPOLYGON (((0 0, 1 0, 1 1, 0 0)), ((5 5, 6 5, 6 6, 5 5)))\nPOINT EMPTY");
+    expect(shapes.map(shape => [shape.id, shape.name, shape.type, shape.featureId])).toEqual([
+      ["wkt-1-1", "Polygon 1 (1)", "polygon", "wkt-1"],
+      ["wkt-1-2", "Polygon 1 (2)", "polygon", "wkt-1"],
+      ["wkt-2", "Points 2", "points", "wkt-2"],
+    ]);
+    expect(shapes[2].points).toEqual([]);
+  });
+
+  test("writes the parts back as one geometry per feature", () => {
+    const text = "MULTIPOLYGON (((0 0, 1 0, 1 1, 0 0)), ((5 5, 6 5, 6 6, 5 5)))\nPOINT EMPTY";
+    expect(toWKT(parseWKT(text))).toBe(text);
+  });
+
+  test("closes polygon rings on output", () => {
+    expect(toWKT([{ id: "a", name: "a", type: "polygon", points: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }] }])).toBe(
+      "POLYGON ((0 0, 1 0, 1 1, 0 0))"
+    );
+  });
+});
+
+describe("WKT errors", () => {
+  test.each([
+    ["FOO (1 2)", "Expected a geometry type but found 'FOO'", 1, 1],
+    ["POINT (1)", "Expected 2 to 4 ordinates but found 1", 1, 8],
+    ["POINT (1 2", "Expected ')' but found end of input", 1, 11],
+    ["POLYGON ((0 0, 1 0)\n  LINESTRING", "Expected ',' or ')' but found 'LINESTRING'", 2, 3],
+  ] as const)("%j", (text, message, line, column) => {
+    const error = parseError(text);
+    expect(error.message).toBe(`${message} (line ${line}, column ${column})`);
+    expect([error.line, error.column]).toEqual([line, column]);
+  });
+});
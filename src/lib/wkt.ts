@@ -0,0 +1,325 @@
+import type { GeometryShape, Point2D } from "./geometry";
+import {
+  geometriesToShapes,
+  geometryDimensions,
+  shapesToGeometries,
+  type Dimensions,
+  type SimpleGeometry,
+  type SimpleGeometryKind,
+} from "./simpleFeatures";
+
+// Raised by the WKT and WKB readers; line and column are 1-based
+export class GeometryParseError extends Error {
+  constructor(
+    message: string,
+    public line: number,
+    public column: number
+  ) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = "GeometryParseError";
+  }
+}
+
+type TokenType = "word" | "number" | "(" | ")" | "," | ";" | "=" | "eof";
+
+interface Token {
+  type: TokenType;
+  text: string;
+  line: number;
+  column: number;
+}
+
+const NUMBER_PATTERN = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/;
+const WORD_PATTERN = /^[A-Za-z_]+/;
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let column = 1;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === "\n") {
+      i++;
+      line++;
+      column = 1;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      i++;
+      column++;
+      continue;
+    }
+
+    const rest = text.slice(i, i + 64);
+    const match = NUMBER_PATTERN.exec(rest) ?? WORD_PATTERN.exec(rest);
+    let tokenText: string;
+    let type: TokenType;
+    if (match) {
+      tokenText = match[0];
+      type = /^[A-Za-z_]/.test(tokenText) ? "word" : "number";
+    } else if ("(),;=".includes(char)) {
+      tokenText = char;
+      type = char as TokenType;
+    } else {
+      throw new GeometryParseError(`Unexpected character '${char}'`, line, column);
+    }
+
+    tokens.push({ type, text: tokenText, line, column });
+    i += tokenText.length;
+    column += tokenText.length;
+  }
+
+  tokens.push({ type: "eof", text: "end of input", line, column });
+  return tokens;
+}
+
+const KEYWORD_KINDS: Record<string, SimpleGeometryKind> = {
+  POINT: "Point",
+  LINESTRING: "LineString",
+  POLYGON: "Polygon",
+  MULTIPOINT: "MultiPoint",
+  MULTILINESTRING: "MultiLineString",
+  MULTIPOLYGON: "MultiPolygon",
+  GEOMETRYCOLLECTION: "GeometryCollection",
+};
+
+const GEOMETRY_KEYWORD = /^(POINT|LINESTRING|POLYGON|MULTIPOINT|MULTILINESTRING|MULTIPOLYGON|GEOMETRYCOLLECTION)(ZM|Z|M)?$/;
+
+class WktParser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== "eof") this.index++;
+    return token;
+  }
+
+  private fail(token: Token, expected: string): never {
+    const found = token.type === "eof" ? "end of input" : `'${token.text}'`;
+    throw new GeometryParseError(`Expected ${expected} but found ${found}`, token.line, token.column);
+  }
+
+  private expect(type: TokenType, expected = `'${type}'`): Token {
+    const token = this.next();
+    if (token.type !== type) this.fail(token, expected);
+    return token;
+  }
+
+  private acceptWord(word: string): boolean {
+    const token = this.peek();
+    if (token.type === "word" && token.text.toUpperCase() === word) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  // Parse every geometry in the input, optionally separated by semicolons
+  parseAll(): SimpleGeometry[] {
+    const geometries: SimpleGeometry[] = [];
+    while (this.peek().type !== "eof") {
+      geometries.push(this.parseTaggedGeometry());
+      while (this.peek().type === ";") this.next();
+    }
+    return geometries;
+  }
+
+  // A geometry with an optional EWKT "SRID=4326;" prefix
+  private parseTaggedGeometry(): SimpleGeometry {
+    if (this.acceptWord("SRID")) {
+      this.expect("=");
+      this.expect("number", "an SRID");
+      this.expect(";");
+    }
+    return this.parseGeometry();
+  }
+
+  private parseGeometry(): SimpleGeometry {
+    const keyword = this.peek();
+    if (keyword.type !== "word") this.fail(keyword, "a geometry type");
+    const match = GEOMETRY_KEYWORD.exec(keyword.text.toUpperCase());
+    if (!match) this.fail(keyword, "a geometry type");
+    this.next();
+
+    const kind = KEYWORD_KINDS[match[1]];
+    let dimensionTag = match[2];
+    if (!dimensionTag) {
+      if (this.acceptWord("ZM")) dimensionTag = "ZM";
+      else if (this.acceptWord("Z")) dimensionTag = "Z";
+      else if (this.acceptWord("M")) dimensionTag = "M";
+    }
+    const dimensions: Dimensions | undefined = dimensionTag
+      ? { hasZ: dimensionTag.includes("Z"), hasM: dimensionTag.includes("M") }
+      : undefined;
+
+    if (this.acceptWord("EMPTY")) return emptyGeometry(kind);
+
+    switch (kind) {
+      case "Point": {
+        this.expect("(");
+        const point = this.parseCoordinate(dimensions);
+        this.expect(")");
+        return { kind, point };
+      }
+      case "LineString":
+        return { kind, points: this.parseCoordinateList(dimensions) };
+      case "Polygon":
+        return { kind, rings: this.parseList(() => this.parseRing(dimensions)) };
+      case "MultiPoint":
+        return { kind, points: this.parseList(() => this.parseMultiPointMember(dimensions)).flat() };
+      case "MultiLineString":
+        return { kind, lines: this.parseList(() => this.parseRing(dimensions)) };
+      case "MultiPolygon":
+        return {
+          kind,
+          polygons: this.parseList(() =>
+            this.acceptWord("EMPTY") ? [] : this.parseList(() => this.parseRing(dimensions))
+          ),
+        };
+      case "GeometryCollection":
+        return { kind, geometries: this.parseList(() => this.parseGeometry()) };
+    }
+  }
+
+  // "( item, item, ... )"
+  private parseList<T>(parseItem: () => T): T[] {
+    this.expect("(");
+    const items = [parseItem()];
+    while (this.peek().type === ",") {
+      this.next();
+      items.push(parseItem());
+    }
+    this.expect(")", "',' or ')'");
+    return items;
+  }
+
+  private parseRing(dimensions: Dimensions | undefined): Point2D[] {
+    if (this.acceptWord("EMPTY")) return [];
+    return this.parseCoordinateList(dimensions);
+  }
+
+  private parseCoordinateList(dimensions: Dimensions | undefined): Point2D[] {
+    return this.parseList(() => this.parseCoordinate(dimensions));
+  }
+
+  // MULTIPOINT allows both "(1 2, 3 4)" and "((1 2), (3 4))"
+  private parseMultiPointMember(dimensions: Dimensions | undefined): Point2D[] {
+    if (this.acceptWord("EMPTY")) return [];
+    if (this.peek().type === "(") {
+      this.next();
+      const point = this.parseCoordinate(dimensions);
+      this.expect(")");
+      return [point];
+    }
+    return [this.parseCoordinate(dimensions)];
+  }
+
+  private parseCoordinate(dimensions: Dimensions | undefined): Point2D {
+    const start = this.peek();
+    const values: number[] = [];
+    while (this.peek().type === "number") {
+      values.push(Number(this.next().text));
+    }
+
+    const expectedCount = dimensions ? 2 + Number(dimensions.hasZ) + Number(dimensions.hasM) : undefined;
+    if (values.length < 2 || values.length > 4 || (expectedCount !== undefined && values.length !== expectedCount)) {
+      const description = expectedCount ? `${expectedCount} ordinates` : "2 to 4 ordinates";
+      if (values.length === 0) this.fail(start, "a coordinate");
+      throw new GeometryParseError(`Expected ${description} but found ${values.length}`, start.line, start.column);
+    }
+
+    const point: Point2D = { x: values[0], y: values[1] };
+    if (dimensions && !dimensions.hasZ && dimensions.hasM) {
+      point.m = values[2];
+    } else {
+      if (values.length > 2) point.z = values[2];
+      if (values.length > 3) point.m = values[3];
+    }
+    return point;
+  }
+}
+
+function emptyGeometry(kind: SimpleGeometryKind): SimpleGeometry {
+  switch (kind) {
+    case "Point":
+      return { kind, point: null };
+    case "LineString":
+    case "MultiPoint":
+      return { kind, points: [] };
+    case "Polygon":
+      return { kind, rings: [] };
+    case "MultiLineString":
+      return { kind, lines: [] };
+    case "MultiPolygon":
+      return { kind, polygons: [] };
+    case "GeometryCollection":
+      return { kind, geometries: [] };
+  }
+}
+
+// Parse one or more WKT geometries (EWKT SRID prefixes are skipped)
+export function parseWKTGeometries(text: string): SimpleGeometry[] {
+  return new WktParser(tokenize(text)).parseAll();
+}
+
+export function parseWKT(text: string, idPrefix = "wkt"): GeometryShape[] {
+  return geometriesToShapes(parseWKTGeometries(text), idPrefix);
+}
+
+function formatCoordinate(point: Point2D, dimensions: Dimensions): string {
+  const values = [point.x, point.y];
+  if (dimensions.hasZ) values.push(point.z!);
+  if (dimensions.hasM) values.push(point.m!);
+  return values.join(" ");
+}
+
+function formatCoordinates(points: Point2D[], dimensions: Dimensions): string {
+  return points.length === 0 ? "EMPTY" : `(${points.map(p => formatCoordinate(p, dimensions)).join(", ")})`;
+}
+
+function formatBody(geometry: SimpleGeometry, dimensions: Dimensions): string {
+  switch (geometry.kind) {
+    case "Point":
+      return geometry.point ? `(${formatCoordinate(geometry.point, dimensions)})` : "EMPTY";
+    case "LineString":
+    case "MultiPoint":
+      return formatCoordinates(geometry.points, dimensions);
+    case "Polygon":
+      return geometry.rings.length === 0
+        ? "EMPTY"
+        : `(${geometry.rings.map(ring => formatCoordinates(ring, dimensions)).join(", ")})`;
+    case "MultiLineString":
+      return geometry.lines.length === 0
+        ? "EMPTY"
+        : `(${geometry.lines.map(line => formatCoordinates(line, dimensions)).join(", ")})`;
+    case "MultiPolygon":
+      return geometry.polygons.length === 0
+        ? "EMPTY"
+        : `(${geometry.polygons
+            .map(rings => (rings.length === 0 ? "EMPTY" : `(${rings.map(ring => formatCoordinates(ring, dimensions)).join(", ")})`))
+            .join(", ")})`;
+    case "GeometryCollection":
+      return geometry.geometries.length === 0 ? "EMPTY" : `(${geometry.geometries.map(formatGeometry).join(", ")})`;
+  }
+}
+
+export function formatGeometry(geometry: SimpleGeometry): string {
+  const dimensions = geometryDimensions(geometry);
+  const keyword = Object.keys(KEYWORD_KINDS).find(key => KEYWORD_KINDS[key] === geometry.kind)!;
+  const tag = dimensions.hasZ || dimensions.hasM ? ` ${dimensions.hasZ ? "Z" : ""}${dimensions.hasM ? "M" : ""}` : "";
+  return `${keyword}${tag} ${formatBody(geometry, dimensions)}`;
+}
+
+// Serialize shapes as WKT, one geometry per line (Multi* parts recombined by featureId)
+export function toWKT(shapes: GeometryShape[]): string {
+  return shapesToGeometries(shapes).map(formatGeometry).join("\n");
+}
@@ -0,0 +1,69 @@
+import type { GeometryShape, Point2D } from "@/lib/geometry";
+import type { ShapeEvent } from "@/lib/events";
+
+type ShapeStoreListener = (event: ShapeEvent) => void;
+
+// In-memory store for the shapes served by the API. Insertion order is kept,
+// so shapes are listed (and drawn) in the order they were first added.
+export class ShapeStore {
+  private shapes = new Map<string, GeometryShape>();
+  private listeners = new Set<ShapeStoreListener>();
+
+  // Listen for changes; returns an unsubscribe function
+  subscribe(listener: ShapeStoreListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  list(): GeometryShape[] {
+    return Array.from(this.shapes.values());
+  }
+
+  get(id: string): GeometryShape | undefined {
+    return this.shapes.get(id);
+  }
+
+  // Add new shapes or replace existing ones with the same id. Every stored
+  // shape gets a fresh `version` so viewers can tell revisions apart.
+  upsert(shapes: GeometryShape[]): GeometryShape[] {
+    const added: GeometryShape[] = [];
+    const updated: GeometryShape[] = [];
+    const stored = shapes.map(shape => {
+      const existing = this.shapes.get(shape.id);
+      const next = { ...shape, version: (existing?.version ?? 0) + 1 };
+      (existing ? updated : added).push(next);
+      this.shapes.set(next.id, next);
+      return next;
+    });
+    if (added.length > 0) this.emit({ type: "add", shapes: added });
+    if (updated.length > 0) this.emit({ type: "update", shapes: updated });
+    return stored;
+  }
+
+  // Append vertices to an existing shape; viewers receive only the new points
+  append(id: string, points: Point2D[]): GeometryShape | undefined {
+    const existing = this.shapes.get(id);
+    if (!existing) return undefined;
+    const next = { ...existing, points: [...existing.points, ...points], version: (existing.version ?? 0) + 1 };
+    this.shapes.set(id, next);
+    this.emit({ type: "append", id, points, version: next.version });
+    return next;
+  }
+
+  remove(id: string): boolean {
+    const removed = this.shapes.delete(id);
+    if (removed) this.emit({ type: "remove", ids: [id] });
+    return removed;
+  }
+
+  clear(): number {
+    const count = this.shapes.size;
+    this.shapes.clear();
+    if (count > 0) this.emit({ type: "clear" });
+    return count;
+  }
+
+  private emit(event: ShapeEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+}